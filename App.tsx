@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useSyncExternalStore } from 'react';
 import { GeneratorMode } from './types';
 import ImageGenerator from './components/ImageGenerator';
 import VideoGenerator from './components/VideoGenerator';
@@ -11,6 +11,9 @@ import Transcriber from './components/Transcriber';
 import ProTask from './components/ProTask';
 import TTS from './components/TTS';
 import NanoResearchAssistant from './components/NanoResearchAssistant';
+import Library from './components/Library';
+import VideoJobTray from './components/VideoJobTray';
+import { getHandoff, subscribeToHandoff } from './services/handoff';
 
 interface TabButtonProps {
   targetMode: GeneratorMode;
@@ -19,6 +22,12 @@ interface TabButtonProps {
 
 const App: React.FC = () => {
   const [mode, setMode] = useState<GeneratorMode>(GeneratorMode.IMAGE);
+  const handoff = useSyncExternalStore(subscribeToHandoff, getHandoff);
+
+  // "Send to" actions queue a handoff; switch to the mode that will receive it.
+  useEffect(() => {
+    if (handoff) setMode(handoff.target);
+  }, [handoff]);
 
   const renderGenerator = useCallback(() => {
     switch (mode) {
@@ -44,6 +53,8 @@ const App: React.FC = () => {
         return <TTS />;
       case GeneratorMode.NANO_RESEARCH:
         return <NanoResearchAssistant />;
+      case GeneratorMode.LIBRARY:
+        return <Library />;
       default:
         return <ImageGenerator />;
     }
@@ -91,10 +102,13 @@ const App: React.FC = () => {
               <TabButton targetMode={GeneratorMode.TTS}>Text-to-Speech</TabButton>
               <TabButton targetMode={GeneratorMode.PRO_TASK}>Complex Tasks</TabButton>
               <TabButton targetMode={GeneratorMode.NANO_RESEARCH}>Nano Research</TabButton>
+              <TabButton targetMode={GeneratorMode.LIBRARY}>Library</TabButton>
             </div>
           </div>
         </div>
 
+        <VideoJobTray />
+
         <main className="p-4 sm:p-6 lg:p-8">
           {renderGenerator()}
         </main>
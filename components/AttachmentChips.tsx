@@ -0,0 +1,43 @@
+import React from 'react';
+import { ChatAttachment } from '../types';
+import { attachmentDataUrl } from '../utils/attachments';
+
+const fileLabel = (mimeType: string) => {
+  if (mimeType === 'application/pdf') return 'PDF';
+  if (mimeType.startsWith('audio/')) return 'Audio';
+  return 'Text';
+};
+
+interface AttachmentChipsProps {
+  attachments: ChatAttachment[];
+  onRemove?: (index: number) => void;
+}
+
+// Image attachments render as thumbnails, everything else as a labelled chip.
+const AttachmentChips: React.FC<AttachmentChipsProps> = ({ attachments, onRemove }) => (
+  <div className="flex flex-wrap gap-2">
+    {attachments.map((attachment, index) => (
+      <div key={index} className="relative flex items-center gap-2 rounded-lg bg-neutral-800 border border-neutral-600 text-xs text-neutral-300 overflow-hidden">
+        {attachment.mimeType.startsWith('image/') ? (
+          <img src={attachmentDataUrl(attachment)} alt={attachment.name} title={attachment.name} className="h-16 w-16 object-cover" />
+        ) : (
+          <span className="flex items-center gap-2 px-3 py-2 max-w-[12rem]" title={attachment.name}>
+            <span className="font-semibold text-brand-accent">{fileLabel(attachment.mimeType)}</span>
+            <span className="truncate">{attachment.name}</span>
+          </span>
+        )}
+        {onRemove && (
+          <button
+            onClick={() => onRemove(index)}
+            className="absolute top-0.5 right-0.5 h-5 w-5 rounded-full bg-black/70 text-brand-light hover:bg-black"
+            aria-label={`Remove ${attachment.name}`}
+          >
+            ✕
+          </button>
+        )}
+      </div>
+    ))}
+  </div>
+);
+
+export default AttachmentChips;
@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+
+export type CompareMode = 'slider' | 'side-by-side';
+
+interface BeforeAfterProps {
+  beforeUrl: string;
+  afterUrl: string;
+  mode: CompareMode;
+}
+
+const BeforeAfter: React.FC<BeforeAfterProps> = ({ beforeUrl, afterUrl, mode }) => {
+  const [position, setPosition] = useState<number>(50);
+
+  if (mode === 'side-by-side') {
+    return (
+      <div className="grid grid-cols-2 gap-2 w-full h-full">
+        {[{ url: beforeUrl, label: 'Before' }, { url: afterUrl, label: 'After' }].map(({ url, label }) => (
+          <figure key={label} className="relative flex items-center justify-center min-h-0">
+            <img src={url} alt={label} className="w-full h-full object-contain" />
+            <figcaption className="absolute top-2 left-2 px-2 py-0.5 rounded bg-black/70 text-xs text-brand-light">{label}</figcaption>
+          </figure>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative w-full h-full select-none">
+      <img src={afterUrl} alt="After" className="absolute inset-0 w-full h-full object-contain" draggable={false} />
+      <img
+        src={beforeUrl}
+        alt="Before"
+        className="absolute inset-0 w-full h-full object-contain"
+        style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}
+        draggable={false}
+      />
+      <div className="absolute inset-y-0 w-0.5 bg-brand-accent pointer-events-none" style={{ left: `${position}%` }} />
+      <span className="absolute top-2 left-2 px-2 py-0.5 rounded bg-black/70 text-xs text-brand-light">Before</span>
+      <span className="absolute top-2 right-2 px-2 py-0.5 rounded bg-black/70 text-xs text-brand-light">After</span>
+      <input
+        type="range"
+        min={0}
+        max={100}
+        value={position}
+        onChange={(e) => setPosition(Number(e.target.value))}
+        aria-label="Comparison position"
+        className="absolute inset-0 w-full h-full opacity-0 cursor-ew-resize"
+      />
+    </div>
+  );
+};
+
+export default BeforeAfter;
@@ -0,0 +1,31 @@
+import React from 'react';
+import { LabelledBox } from '../services/analysisPresets';
+
+interface BoundingBoxOverlayProps {
+  boxes: LabelledBox[];
+}
+
+// Positions boxes with percentages, so it must sit in a container that has
+// exactly the displayed size of the image.
+const BoundingBoxOverlay: React.FC<BoundingBoxOverlayProps> = ({ boxes }) => (
+  <div className="absolute inset-0 pointer-events-none">
+    {boxes.filter(({ box }) => box?.length === 4).map(({ label, box }, index) => {
+      const [y1, x1, y2, x2] = box;
+      const top = Math.min(y1, y2) / 10;
+      const left = Math.min(x1, x2) / 10;
+      return (
+        <div
+          key={index}
+          className="absolute border-2 border-yellow-400 rounded-sm"
+          style={{ top: `${top}%`, left: `${left}%`, height: `${Math.abs(y2 - y1) / 10}%`, width: `${Math.abs(x2 - x1) / 10}%` }}
+        >
+          <span className="absolute -top-5 left-0 max-w-[12rem] truncate px-1 text-xs bg-yellow-400 text-brand-dark rounded-sm" title={label}>
+            {label}
+          </span>
+        </div>
+      );
+    })}
+  </div>
+);
+
+export default BoundingBoxOverlay;
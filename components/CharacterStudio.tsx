@@ -1,6 +1,23 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { GoogleGenAI, VideoGenerationReferenceImage, VideoGenerationReferenceType } from '@google/genai';
 import Spinner from './Spinner';
+import PromptLibrary from './PromptLibrary';
+import { Asset, Character, GeneratorMode } from '../types';
+import { useAssetUrl } from '../hooks/useAssetUrl';
+import { useVideoJobs } from '../hooks/useVideoJobs';
+import { useHandoff } from '../hooks/useHandoff';
+import { usePersistentState } from '../hooks/usePersistentState';
+import {
+  canSelectApiKey,
+  hasSelectedApiKey,
+  InlineData,
+  MODELS,
+  openSelectKey,
+} from '../services/gemini';
+import { deleteAsset, getAsset, listAssets, saveAsset, subscribeToAssets } from '../services/assetStore';
+import { deleteCharacter, listCharacters, saveCharacter, subscribeToCharacters } from '../services/characterStore';
+import { handoffToFile } from '../services/handoff';
+import { isJobActive, submitVideoJob } from '../services/videoJobs';
+import { blobToBase64 } from '../utils/media';
 
 const LOADING_MESSAGES = [
   "Analyzing reference images...",
@@ -11,38 +28,57 @@ const LOADING_MESSAGES = [
   "Finalizing your masterpiece...",
 ];
 
-const fileToBase64 = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => {
-      const result = reader.result as string;
-      const base64 = result.split(',')[1];
-      resolve(base64);
-    };
-    reader.onerror = (error) => reject(error);
-  });
+const SLOT_COUNT = 3;
+const emptySlots = <T,>(): (T | null)[] => Array(SLOT_COUNT).fill(null);
+
+// The scene prompt plus what the registry knows about the character.
+const characterPrompt = (scene: string, description: string, styleNotes: string) =>
+  [scene.trim(), description.trim() && `Character: ${description.trim()}`, styleNotes.trim() && `Style: ${styleNotes.trim()}`]
+    .filter(Boolean)
+    .join('\n\n');
+
+const CharacterVideo: React.FC<{ asset: Asset }> = ({ asset }) => {
+  const url = useAssetUrl(asset.id);
+  return (
+    <figure className="flex flex-col gap-1">
+      {url ? <video src={url} controls className="w-full aspect-video bg-black rounded-lg" /> : <div className="w-full aspect-video bg-brand-dark rounded-lg" />}
+      <figcaption className="text-xs text-neutral-500 truncate" title={asset.prompt}>
+        {new Date(asset.createdAt).toLocaleString()} · {asset.prompt.split('\n')[0]}
+      </figcaption>
+    </figure>
+  );
 };
 
 const CharacterStudio: React.FC = () => {
-  const [prompt, setPrompt] = useState<string>('');
-  const [refImages, setRefImages] = useState<(File | null)[]>([null, null, null]);
-  const [refImagePreviews, setRefImagePreviews] = useState<(string | null)[]>([null, null, null]);
-  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [prompt, setPrompt] = usePersistentState<string>('character.prompt', '');
+  const [selectedId, setSelectedId] = usePersistentState<string>('character.selectedId', '');
+  const [characters, setCharacters] = useState<Character[]>([]);
+  const [videos, setVideos] = useState<Asset[]>([]);
+  const [name, setName] = useState<string>('');
+  const [description, setDescription] = useState<string>('');
+  const [styleNotes, setStyleNotes] = useState<string>('');
+  const [refImages, setRefImages] = useState<(File | null)[]>(emptySlots);
+  const [refImagePreviews, setRefImagePreviews] = useState<(string | null)[]>(emptySlots);
+  // The saved reference asset each slot was loaded from, if unchanged.
+  const [refAssetIds, setRefAssetIds] = useState<(string | null)[]>(emptySlots);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [apiKeySelected, setApiKeySelected] = useState<boolean>(false);
   const [loadingMessage, setLoadingMessage] = useState<string>(LOADING_MESSAGES[0]);
   const intervalRef = useRef<number | null>(null);
+  const loadedCharacterRef = useRef<string | null>(null);
+  const selectedCharacter = characters.find(character => character.id === selectedId);
+
+  const jobs = useVideoJobs();
+  const latestJob = jobs.find(job => job.mode === GeneratorMode.CHARACTER);
+  const isGenerating = !!latestJob && isJobActive(latestJob);
+  const videoUrl = useAssetUrl(latestJob?.status === 'succeeded' ? latestJob.assetId : undefined);
+  const jobError = latestJob?.status === 'failed' ? latestJob.error : undefined;
+  const pendingCount = jobs.filter(job => job.characterId && job.characterId === selectedId && isJobActive(job)).length;
 
   const checkApiKey = useCallback(async () => {
-    if (window.aistudio && typeof window.aistudio.hasSelectedApiKey === 'function') {
-      const hasKey = await window.aistudio.hasSelectedApiKey();
-      setApiKeySelected(hasKey);
-    } else {
-      console.warn('window.aistudio not found. Assuming API key is set in environment.');
-      setApiKeySelected(!!process.env.API_KEY);
-    }
+    setApiKeySelected(await hasSelectedApiKey());
   }, []);
 
   useEffect(() => {
@@ -50,7 +86,14 @@ const CharacterStudio: React.FC = () => {
   }, [checkApiKey]);
   
   useEffect(() => {
-    if (isLoading) {
+    if (jobError?.includes("Requested entity was not found")) {
+      setApiKeySelected(false);
+      setError("API key is invalid or not found. Please select a valid key.");
+    }
+  }, [jobError]);
+
+  useEffect(() => {
+    if (isGenerating) {
       intervalRef.current = window.setInterval(() => {
         setLoadingMessage(prev => {
           const currentIndex = LOADING_MESSAGES.indexOf(prev);
@@ -65,47 +108,165 @@ const CharacterStudio: React.FC = () => {
     return () => {
       if (intervalRef.current) clearInterval(intervalRef.current);
     };
-  }, [isLoading]);
+  }, [isGenerating]);
   
+  const loadCharacters = useCallback(async () => {
+    try {
+      setCharacters(await listCharacters());
+    } catch (e) {
+      console.error(e);
+      setError('Failed to load saved characters.');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCharacters();
+    return subscribeToCharacters(loadCharacters);
+  }, [loadCharacters]);
+
+  // Every video generated for the selected character, newest first.
+  const loadVideos = useCallback(async () => {
+    if (!selectedId) {
+      setVideos([]);
+      return;
+    }
+    try {
+      const assets = await listAssets();
+      setVideos(assets.filter(asset => asset.kind === 'video' && asset.metadata?.characterId === selectedId));
+    } catch (e) {
+      console.error('Failed to load character videos.', e);
+    }
+  }, [selectedId]);
+
+  useEffect(() => {
+    loadVideos();
+    return subscribeToAssets(loadVideos);
+  }, [loadVideos]);
+
+  const clearReference = (index: number) => {
+    setRefImages(prev => prev.map((image, i) => i === index ? null : image));
+    setRefImagePreviews(prev => prev.map((preview, i) => i === index ? null : preview));
+    setRefAssetIds(prev => prev.map((id, i) => i === index ? null : id));
+  };
+
+  const setReference = (file: File, index: number, assetId: string | null = null) => {
+    setRefImages(prev => prev.map((image, i) => i === index ? file : image));
+    setRefAssetIds(prev => prev.map((id, i) => i === index ? assetId : id));
+
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      setRefImagePreviews(prev => prev.map((preview, i) => i === index ? reader.result as string : preview));
+    };
+    reader.readAsDataURL(file);
+  };
+
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>, index: number) => {
     const file = e.target.files?.[0];
-    if (file) {
-      const newImages = [...refImages];
-      newImages[index] = file;
-      setRefImages(newImages);
-
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const newPreviews = [...refImagePreviews];
-        newPreviews[index] = reader.result as string;
-        setRefImagePreviews(newPreviews);
-      };
-      reader.readAsDataURL(file);
+    if (file) setReference(file, index);
+  };
+
+  const applyCharacter = useCallback(async (character: Character | undefined) => {
+    loadedCharacterRef.current = character?.id ?? null;
+    setName(character?.name ?? '');
+    setDescription(character?.description ?? '');
+    setStyleNotes(character?.styleNotes ?? '');
+    for (let index = 0; index < SLOT_COUNT; index++) clearReference(index);
+    if (!character) return;
+    const assets = await Promise.all(character.referenceAssetIds.slice(0, SLOT_COUNT).map(getAsset));
+    // Another character may have been chosen while the images were loading.
+    if (loadedCharacterRef.current !== character.id) return;
+    assets.forEach((asset, index) => {
+      if (asset) setReference(new File([asset.blob], `${character.name}-${index + 1}`, { type: asset.mimeType }), index, asset.id);
+    });
+  }, []);
+
+  // Restore the selected character once the registry has loaded.
+  useEffect(() => {
+    if (selectedCharacter && loadedCharacterRef.current !== selectedCharacter.id) {
+      applyCharacter(selectedCharacter).catch(e => console.error('Failed to load the character.', e));
+    }
+  }, [selectedCharacter, applyCharacter]);
+
+  const handleSelectCharacter = (id: string) => {
+    setSelectedId(id);
+    setError(null);
+    applyCharacter(characters.find(character => character.id === id))
+      .catch(e => console.error('Failed to load the character.', e));
+  };
+
+  const handleSaveCharacter = async () => {
+    if (!name.trim()) {
+      setError('Please name the character before saving it.');
+      return;
+    }
+    if (!refImages.some(image => image !== null)) {
+      setError('Please add at least one reference image before saving the character.');
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const slotIds = [...refAssetIds];
+      for (const [index, file] of refImages.entries()) {
+        if (!file || slotIds[index]) continue;
+        const asset = await saveAsset({
+          kind: 'image',
+          mode: GeneratorMode.CHARACTER,
+          blob: file,
+          mimeType: file.type,
+          prompt: `${name.trim()} reference ${index + 1}`,
+          model: 'upload',
+        });
+        slotIds[index] = asset.id;
+      }
+      const referenceAssetIds = slotIds.filter((id): id is string => id !== null);
+      const now = Date.now();
+      const character: Character = selectedCharacter
+        ? { ...selectedCharacter, name: name.trim(), description, styleNotes, referenceAssetIds, updatedAt: now }
+        : { id: crypto.randomUUID(), name: name.trim(), description, styleNotes, referenceAssetIds, createdAt: now, updatedAt: now };
+      await saveCharacter(character);
+      // Reference images that were replaced are no longer used anywhere.
+      for (const id of selectedCharacter?.referenceAssetIds ?? []) {
+        if (!referenceAssetIds.includes(id)) await deleteAsset(id);
+      }
+      setRefAssetIds(slotIds);
+      loadedCharacterRef.current = character.id;
+      setSelectedId(character.id);
+    } catch (e) {
+      console.error(e);
+      setError('Failed to save the character.');
+    } finally {
+      setIsSaving(false);
     }
   };
 
+  const handleDeleteCharacter = async () => {
+    if (!selectedCharacter || !window.confirm(`Delete ${selectedCharacter.name}? Videos generated for this character stay in the library.`)) return;
+    try {
+      await deleteCharacter(selectedCharacter);
+      handleSelectCharacter('');
+    } catch (e) {
+      console.error(e);
+      setError('Failed to delete the character.');
+    }
+  };
+
+  // Images sent from other modes fill the first empty reference slot.
+  useHandoff(GeneratorMode.CHARACTER, handoff => {
+    const emptySlot = refImages.findIndex(image => !image);
+    setReference(handoffToFile(handoff), emptySlot === -1 ? 0 : emptySlot);
+  });
+
   const handleSelectKey = async () => {
-    if (window.aistudio && typeof window.aistudio.openSelectKey === 'function') {
-      await window.aistudio.openSelectKey();
+    if (canSelectApiKey()) {
+      await openSelectKey();
       setApiKeySelected(true);
     } else {
       setError("API key selection is not available in this environment.");
     }
   };
 
-  const pollOperation = async (operation: any, ai: GoogleGenAI): Promise<any> => {
-    let currentOperation = operation;
-    while (!currentOperation.done) {
-      await new Promise(resolve => setTimeout(resolve, 10000));
-      try {
-        currentOperation = await ai.operations.getVideosOperation({ operation: currentOperation });
-      } catch (e) {
-        throw new Error('Failed while polling for video status.');
-      }
-    }
-    return currentOperation;
-  };
-  
   const handleGenerate = useCallback(async () => {
     const hasPrompt = prompt.trim();
     const hasImages = refImages.some(img => img !== null);
@@ -116,59 +277,32 @@ const CharacterStudio: React.FC = () => {
     }
     setIsLoading(true);
     setError(null);
-    setVideoUrl(null);
   
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-      const referenceImagesPayload: VideoGenerationReferenceImage[] = [];
+      const referenceImages: InlineData[] = [];
       for (const file of refImages) {
         if (file) {
-          const base64EncodeString = await fileToBase64(file);
-          referenceImagesPayload.push({
-            image: {
-              imageBytes: base64EncodeString,
-              mimeType: file.type,
-            },
-            referenceType: VideoGenerationReferenceType.ASSET,
+          referenceImages.push({
+            data: await blobToBase64(file),
+            mimeType: file.type,
           });
         }
       }
 
-      let operation = await ai.models.generateVideos({
-        model: 'veo-3.1-generate-preview',
-        prompt: prompt,
-        config: {
-          numberOfVideos: 1,
-          referenceImages: referenceImagesPayload,
-          resolution: '720p',
-          aspectRatio: '16:9',
-        }
-      });
-  
-      const completedOperation = await pollOperation(operation, ai);
-      
-      const downloadLink = completedOperation.response?.generatedVideos?.[0]?.video?.uri;
-      if (!downloadLink) throw new Error('Video generation succeeded, but no download link was found.');
-      
-      const videoResponse = await fetch(`${downloadLink}&key=${process.env.API_KEY}`);
-      if (!videoResponse.ok) throw new Error(`Failed to download video. Status: ${videoResponse.status}`);
-      
-      const videoBlob = await videoResponse.blob();
-      setVideoUrl(URL.createObjectURL(videoBlob));
+      await submitVideoJob(GeneratorMode.CHARACTER, {
+        model: MODELS.characterVideo,
+        prompt: characterPrompt(prompt, description, styleNotes),
+        referenceImages,
+        aspectRatio: '16:9',
+      }, { characterId: selectedCharacter?.id });
   
     } catch (e: any) {
       console.error(e);
-      const errorMessage = e.message || 'An unknown error occurred.';
-      setError(`Failed to generate video. ${errorMessage}`);
-      if (errorMessage.includes("Requested entity was not found")) {
-        setApiKeySelected(false);
-        setError("API key is invalid or not found. Please select a valid key.");
-      }
+      setError(`Failed to start video generation. ${e.message || 'An unknown error occurred.'}`);
     } finally {
       setIsLoading(false);
     }
-  }, [prompt, refImages]);
+  }, [prompt, refImages, description, styleNotes, selectedCharacter]);
 
   if (!apiKeySelected) {
     return (
@@ -198,7 +332,54 @@ const CharacterStudio: React.FC = () => {
     <div className="flex flex-col gap-6 animate-fade-in">
       <div>
         <h2 className="text-2xl font-bold text-brand-accent">Character Studio (Veo)</h2>
-        <p className="text-neutral-400 mt-1">Define a character with up to 3 images and bring them to life in a new video.</p>
+        <p className="text-neutral-400 mt-1">Define a character with up to 3 images and bring them to life in a new video. Save characters to reuse them in new scenes.</p>
+      </div>
+
+      <div className="flex flex-col gap-3 p-4 bg-brand-gray rounded-lg border border-neutral-700">
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            value={selectedId}
+            onChange={(e) => handleSelectCharacter(e.target.value)}
+            disabled={isLoading || isSaving}
+            className="flex-grow min-w-0 p-2 bg-brand-dark border border-neutral-700 rounded-lg text-brand-light focus:outline-none focus:ring-2 focus:ring-brand-accent"
+            aria-label="Saved characters"
+          >
+            <option value="">New character</option>
+            {characters.map(character => <option key={character.id} value={character.id}>{character.name}</option>)}
+          </select>
+          <button
+            onClick={handleSaveCharacter}
+            disabled={isLoading || isSaving}
+            className="px-4 py-2 text-sm rounded-full bg-brand-dark text-brand-light hover:bg-neutral-700 disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : selectedCharacter ? 'Save Changes' : 'Save Character'}
+          </button>
+          {selectedCharacter && (
+            <button onClick={handleDeleteCharacter} disabled={isLoading || isSaving} className="px-4 py-2 text-sm rounded-full bg-brand-dark text-neutral-300 hover:bg-red-600">
+              Delete
+            </button>
+          )}
+        </div>
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name, e.g., Captain Mira"
+          className="w-full p-2 bg-brand-dark border border-neutral-700 rounded-lg text-brand-light placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-brand-accent"
+        />
+        <textarea
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="Description, e.g., A tall pilot in her forties with short silver hair and a worn leather jacket"
+          rows={2}
+          className="w-full p-2 bg-brand-dark border border-neutral-700 rounded-lg text-brand-light placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-brand-accent"
+        />
+        <textarea
+          value={styleNotes}
+          onChange={(e) => setStyleNotes(e.target.value)}
+          placeholder="Style notes, e.g., Painterly 2D animation, warm dusk lighting"
+          rows={2}
+          className="w-full p-2 bg-brand-dark border border-neutral-700 rounded-lg text-brand-light placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-brand-accent"
+        />
       </div>
       
       <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
@@ -210,15 +391,26 @@ const CharacterStudio: React.FC = () => {
               <span className="text-neutral-500 text-sm">Reference Image {index+1}</span>
             )}
             <input type="file" accept="image/*" onChange={(e) => handleImageUpload(e, index)} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer" disabled={isLoading} />
+            {refImagePreviews[index] && (
+              <button
+                onClick={() => clearReference(index)}
+                disabled={isLoading}
+                className="absolute top-2 right-2 w-7 h-7 rounded-full bg-black/70 text-brand-light hover:bg-red-600"
+                aria-label={`Remove reference image ${index + 1}`}
+              >
+                ×
+              </button>
+            )}
           </div>
         ))}
       </div>
 
       <div className="flex flex-col gap-4">
+        <PromptLibrary mode={GeneratorMode.CHARACTER} currentPrompt={prompt} onInsert={setPrompt} disabled={isLoading} />
         <textarea
           value={prompt}
           onChange={(e) => setPrompt(e.target.value)}
-          placeholder="e.g., A video of this character, walking through a futuristic city at night"
+          placeholder={selectedCharacter ? `e.g., ${selectedCharacter.name} walking through a futuristic city at night` : 'e.g., A video of this character, walking through a futuristic city at night'}
           className="w-full p-3 bg-brand-gray border border-neutral-700 rounded-lg text-brand-light placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-brand-accent transition-shadow duration-300 min-h-[100px]"
           rows={3}
           disabled={isLoading}
@@ -228,27 +420,41 @@ const CharacterStudio: React.FC = () => {
           disabled={isGenerateDisabled}
           className="w-full flex justify-center items-center gap-2 bg-brand-accent text-brand-dark font-semibold py-3 px-4 rounded-lg transition-all duration-300 hover:bg-neutral-300 disabled:bg-brand-gray disabled:text-neutral-500 disabled:cursor-not-allowed focus:outline-none focus-visible:ring-2 focus-visible:ring-brand-accent focus-visible:ring-offset-2 focus-visible:ring-offset-black"
         >
-          {isLoading ? <><Spinner /> Generating Video...</> : 'Generate Character Video'}
+          {isLoading ? <><Spinner /> Starting...</> : isGenerating ? 'Generate Another Video' : 'Generate Character Video'}
         </button>
+        {isGenerating && <p className="text-xs text-neutral-500 text-center">Jobs keep running in the background. Track them in the Video Jobs tray above.</p>}
       </div>
 
       {error && <p className="text-red-400 text-center">{error}</p>}
+      {!error && jobError && <p className="text-red-400 text-center">Failed to generate video. {jobError}</p>}
 
       <div className="w-full aspect-video bg-brand-gray rounded-lg flex items-center justify-center border border-neutral-700 overflow-hidden">
-        {isLoading && (
+        {isGenerating && (
           <div className="flex flex-col items-center gap-4 text-neutral-400 text-center p-4">
             <Spinner />
             <p className="font-medium">{loadingMessage}</p>
-            <p className="text-sm text-neutral-500">This may take several minutes. Please be patient.</p>
+            <p className="text-sm text-neutral-500">This may take several minutes. You can switch tabs or reload; the job keeps going.</p>
           </div>
         )}
-        {!isLoading && videoUrl && (
+        {!isGenerating && videoUrl && (
           <video src={videoUrl} controls autoPlay loop className="w-full h-full object-contain animate-fade-in" />
         )}
-        {!isLoading && !videoUrl && (
+        {!isGenerating && !videoUrl && (
           <p className="text-neutral-500">Your generated video will appear here</p>
         )}
       </div>
+
+      {selectedCharacter && (videos.length > 0 || pendingCount > 0) && (
+        <div className="flex flex-col gap-3">
+          <h3 className="font-semibold text-brand-accent">
+            Videos of {selectedCharacter.name} ({videos.length})
+            {pendingCount > 0 && <span className="ml-2 text-sm font-normal text-neutral-400">{pendingCount} generating</span>}
+          </h3>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {videos.map(asset => <CharacterVideo key={asset.id} asset={asset} />)}
+          </div>
+        </div>
+      )}
     </div>
   );
 };
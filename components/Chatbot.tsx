@@ -1,101 +1,396 @@
 import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { GoogleGenAI, Chat } from '@google/genai';
+import { Content, Part } from '@google/genai';
 import Spinner from './Spinner';
+import Markdown from './Markdown';
+import ConversationList from './ConversationList';
+import AttachmentChips from './AttachmentChips';
+import PromptLibrary from './PromptLibrary';
+import { ChatAttachment, ChatMessage, Conversation, GeneratorMode } from '../types';
+import { ChatSession, createChat, generateChatTitle, MODELS, sendChatMessageStream } from '../services/gemini';
+import {
+  DEFAULT_CONVERSATION_TITLE,
+  deleteConversation,
+  forkConversation,
+  getConversation,
+  listConversations,
+  newConversation,
+  renameConversation,
+  saveConversation,
+  subscribeToConversations,
+} from '../services/conversationStore';
+import { ATTACHMENT_ACCEPT, formatMegabytes, MAX_ATTACHMENT_BYTES, MAX_INLINE_DATA_LENGTH, readAttachment, totalAttachmentLength, totalAttachmentSize } from '../utils/attachments';
 
-interface Message {
-  role: 'user' | 'model';
-  text: string;
-}
+const CHAT_MODELS = [
+  { value: MODELS.chat, label: 'Gemini 2.5 Flash' },
+  { value: MODELS.pro, label: 'Gemini 2.5 Pro' },
+];
+
+const toParts = (text: string, attachments: ChatAttachment[] = []): Part[] => {
+  const parts: Part[] = attachments.map(({ data, mimeType }) => ({ inlineData: { data, mimeType } }));
+  if (text) parts.push({ text });
+  return parts;
+};
+
+// Attachments stay in the history, so follow-up turns can refer back to them.
+// Turns must alternate, so a message whose reply failed or was stopped before
+// any text arrived is left out together with the empty reply.
+const toHistory = (messages: ChatMessage[]): Content[] => {
+  const contents = messages.map(message => ({ role: message.role, parts: toParts(message.text, message.attachments) }));
+  return contents.filter((content, index) => {
+    if (content.role === 'model') return content.parts.length > 0;
+    const reply = contents[index + 1];
+    return content.parts.length > 0 && reply?.role === 'model' && reply.parts.length > 0;
+  });
+};
+
+// The files already in the conversation, which every request resends.
+const historyAttachments = (messages: ChatMessage[]): ChatAttachment[] =>
+  messages.flatMap(message => message.attachments ?? []);
+
+// Explains why the pending files cannot be sent, or returns null if they fit.
+const attachmentLimitError = (messages: ChatMessage[], pending: ChatAttachment[]): string | null => {
+  const sent = historyAttachments(messages);
+  if (totalAttachmentLength([...sent, ...pending]) <= MAX_INLINE_DATA_LENGTH) return null;
+  const history = totalAttachmentSize(sent);
+  return history > 0
+    ? `Attachments are too large. This chat already carries ${formatMegabytes(history)} of files, which are resent with every message, and the limit is ${formatMegabytes(MAX_ATTACHMENT_BYTES)}. Remove some of the new files or start a new chat.`
+    : `Attachments are too large. Keep the files for one chat under ${formatMegabytes(MAX_ATTACHMENT_BYTES)}.`;
+};
+
+const fallbackTitle = (text: string) => text.length > 40 ? `${text.slice(0, 40).trim()}…` : text;
 
 const Chatbot: React.FC = () => {
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [conversation, setConversation] = useState<Conversation>(() => newConversation());
   const [input, setInput] = useState<string>('');
+  const [attachments, setAttachments] = useState<ChatAttachment[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [showSettings, setShowSettings] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
-  const chatRef = useRef<Chat | null>(null);
+  const chatRef = useRef<ChatSession | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const hasRestoredRef = useRef<boolean>(false);
   const messagesEndRef = useRef<HTMLDivElement | null>(null);
-  
+  const { messages } = conversation;
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }
   useEffect(scrollToBottom, [messages]);
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const loadConversations = useCallback(async () => {
+    try {
+      const stored = await listConversations();
+      setConversations(stored);
+      // Reopen the most recent chat when the tab is first shown.
+      if (!hasRestoredRef.current) {
+        hasRestoredRef.current = true;
+        if (stored.length > 0) setConversation(stored[0]);
+      }
+    } catch (e) {
+      console.error(e);
+      setError('Failed to load saved chats.');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadConversations();
+    return subscribeToConversations(loadConversations);
+  }, [loadConversations]);
+
+  // Persist whenever a settled conversation changes. Empty drafts are not saved.
+  useEffect(() => {
+    if (isLoading || conversation.messages.length === 0) return;
+    saveConversation(conversation).catch(e => console.error('Failed to save chat.', e));
+  }, [conversation, isLoading]);
+
+  // The SDK chat holds the model, system instruction and history, so rebuild it
+  // from the saved transcript whenever any of them may have changed.
+  useEffect(() => {
+    chatRef.current = null;
+  }, [conversation.id, conversation.model, conversation.systemInstruction]);
+
+  const updateConversation = (changes: Partial<Conversation>) => {
+    setConversation(prev => ({ ...prev, ...changes }));
+  };
+
+  const updateReply = (reply: Partial<ChatMessage>) => {
+    setConversation(prev => {
+      const last = prev.messages[prev.messages.length - 1];
+      return { ...prev, messages: [...prev.messages.slice(0, -1), { ...last, ...reply }] };
+    });
+  };
+
+  const nameConversation = async (id: string, firstMessage: string) => {
+    let title = fallbackTitle(firstMessage);
+    try {
+      title = await generateChatTitle(firstMessage) || title;
+    } catch (e) {
+      console.error('Failed to generate a chat title.', e);
+    }
+    // Never overwrite a title the user set while this was running.
+    setConversation(prev => prev.id === id && prev.title === DEFAULT_CONVERSATION_TITLE ? { ...prev, title } : prev);
+    try {
+      const stored = await getConversation(id);
+      if (stored?.title === DEFAULT_CONVERSATION_TITLE) await renameConversation(id, title);
+    } catch (e) {
+      console.error('Failed to save chat title.', e);
+    }
+  };
+
+  const handleAttach = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    try {
+      const added = await Promise.all(files.map(readAttachment));
+      const limitError = attachmentLimitError(messages, [...attachments, ...added]);
+      if (limitError) {
+        setError(limitError);
+        return;
+      }
+      setAttachments(prev => [...prev, ...added]);
+      setError(null);
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : 'Failed to read the attachment.');
+    }
+  };
 
   const handleSend = useCallback(async () => {
-    if (!input.trim()) return;
+    if (!input.trim() && attachments.length === 0) return;
+    const limitError = attachmentLimitError(conversation.messages, attachments);
+    if (limitError) {
+      setError(limitError);
+      return;
+    }
 
     setIsLoading(true);
     setError(null);
-    const userMessage: Message = { role: 'user', text: input };
-    setMessages(prev => [...prev, userMessage]);
+    const userMessage: ChatMessage = {
+      role: 'user',
+      text: input.trim(),
+      attachments: attachments.length > 0 ? attachments : undefined,
+    };
+    const isFirstMessage = conversation.messages.length === 0;
+    setConversation(prev => ({
+      ...prev,
+      messages: [...prev.messages, userMessage, { role: 'model', text: '' }],
+      updatedAt: Date.now(),
+    }));
     setInput('');
-    
+    setAttachments([]);
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     try {
       if (!chatRef.current) {
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        chatRef.current = ai.chats.create({
-          model: 'gemini-2.5-flash',
+        chatRef.current = createChat({
+          model: conversation.model,
+          systemInstruction: conversation.systemInstruction || undefined,
+          history: toHistory(conversation.messages),
         });
       }
-      
-      const response = await chatRef.current.sendMessage({ message: input });
-      const modelMessage: Message = { role: 'model', text: response.text };
-      setMessages(prev => [...prev, modelMessage]);
+
+      const response = await sendChatMessageStream(
+        chatRef.current,
+        toParts(userMessage.text, userMessage.attachments),
+        partial => updateReply({ text: partial.text }),
+        controller.signal,
+      );
+      updateReply({ text: response.text, stopped: response.stopped });
+      if (response.stopped) {
+        // The SDK drops stopped turns from its history, so start a fresh chat
+        // from the transcript (including the partial answer) on the next send.
+        chatRef.current = null;
+      }
+      if (isFirstMessage && conversation.title === DEFAULT_CONVERSATION_TITLE) {
+        nameConversation(conversation.id, userMessage.text || attachments.map(attachment => attachment.name).join(', '));
+      }
 
     } catch (e) {
       console.error(e);
+      setConversation(prev => ({ ...prev, messages: prev.messages.slice(0, -1) }));
       setError('Failed to get a response. Please check your API key and try again.');
     } finally {
+      abortRef.current = null;
       setIsLoading(false);
     }
-  }, [input]);
+  }, [input, attachments, conversation]);
+
+  const handleStop = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  const handleNew = () => {
+    setConversation(newConversation({ model: conversation.model, systemInstruction: conversation.systemInstruction }));
+    setError(null);
+  };
+
+  const handleRename = async (target: Conversation, title: string) => {
+    if (target.id === conversation.id) {
+      updateConversation({ title });
+      return;
+    }
+    try {
+      await renameConversation(target.id, title);
+    } catch (e) {
+      console.error(e);
+      setError('Failed to rename the chat.');
+    }
+  };
+
+  const handleFork = async (source: Conversation, throughIndex?: number) => {
+    try {
+      setConversation(await forkConversation(source, throughIndex));
+      setError(null);
+    } catch (e) {
+      console.error(e);
+      setError('Failed to fork the chat.');
+    }
+  };
+
+  const handleDelete = async (target: Conversation) => {
+    if (!window.confirm(`Delete "${target.title}"?`)) return;
+    if (target.id === conversation.id) setConversation(newConversation());
+    try {
+      await deleteConversation(target.id);
+    } catch (e) {
+      console.error(e);
+      setError('Failed to delete the chat.');
+    }
+  };
 
   return (
-    <div className="flex flex-col gap-6 animate-fade-in h-[60vh]">
+    <div className="flex flex-col gap-6 animate-fade-in h-[70vh]">
       <div>
         <h2 className="text-2xl font-bold text-brand-accent">Chat Bot</h2>
-        <p className="text-neutral-400 mt-1">Ask a question and get a response from Gemini.</p>
+        <p className="text-neutral-400 mt-1">Ask a question and get a response from Gemini. Chats are saved in this browser.</p>
       </div>
-      
-      <div className="flex-grow bg-brand-gray rounded-lg border border-neutral-700 p-4 overflow-y-auto flex flex-col gap-4">
-        {messages.map((msg, index) => (
-          <div key={index} className={`flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'}`}>
-            <div className={`max-w-xl p-3 rounded-2xl ${msg.role === 'user' ? 'bg-brand-accent text-brand-dark rounded-br-none' : 'bg-neutral-700 text-brand-light rounded-bl-none'}`}>
-              <p className="whitespace-pre-wrap">{msg.text}</p>
-            </div>
+
+      <div className="flex gap-4 flex-grow min-h-0">
+        <ConversationList
+          conversations={conversations}
+          activeId={conversation.id}
+          disabled={isLoading}
+          onSelect={(selected) => { setConversation(selected); setError(null); }}
+          onNew={handleNew}
+          onRename={handleRename}
+          onFork={(source) => handleFork(source)}
+          onDelete={handleDelete}
+        />
+
+        <div className="flex flex-col gap-4 flex-grow min-w-0">
+          <div className="flex items-center gap-3">
+            <h3 className="font-semibold text-brand-light truncate flex-grow" title={conversation.title}>{conversation.title}</h3>
+            <button
+              onClick={() => setShowSettings(show => !show)}
+              className="px-3 py-1 text-sm rounded-full bg-brand-gray text-neutral-300 hover:bg-neutral-700"
+            >
+              {showSettings ? 'Hide Settings' : 'Settings'}
+            </button>
           </div>
-        ))}
-        {isLoading && (
-            <div className="flex items-start">
-                <div className="max-w-xl p-3 rounded-2xl bg-neutral-700 text-brand-light rounded-bl-none">
-                    <Spinner />
-                </div>
+
+          {showSettings && (
+            <div className="flex flex-col gap-3 p-3 bg-brand-gray rounded-lg border border-neutral-700">
+              <label className="flex items-center gap-3 text-sm text-neutral-300">
+                Model
+                <select
+                  value={conversation.model}
+                  onChange={(e) => updateConversation({ model: e.target.value })}
+                  disabled={isLoading}
+                  className="p-2 bg-brand-dark border border-neutral-700 rounded-lg text-brand-light focus:outline-none focus:ring-2 focus:ring-brand-accent"
+                >
+                  {CHAT_MODELS.map(model => <option key={model.value} value={model.value}>{model.label}</option>)}
+                </select>
+              </label>
+              <label className="flex flex-col gap-2 text-sm text-neutral-300">
+                System instructions
+                <textarea
+                  value={conversation.systemInstruction}
+                  onChange={(e) => updateConversation({ systemInstruction: e.target.value })}
+                  disabled={isLoading}
+                  placeholder="e.g., You are a concise assistant that answers in bullet points."
+                  rows={3}
+                  className="w-full p-2 bg-brand-dark border border-neutral-700 rounded-lg text-brand-light placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-brand-accent"
+                />
+              </label>
             </div>
-        )}
-        <div ref={messagesEndRef} />
-      </div>
+          )}
 
-      {error && <p className="text-red-400 text-center">{error}</p>}
+          <div className="flex-grow bg-brand-gray rounded-lg border border-neutral-700 p-4 overflow-y-auto flex flex-col gap-4">
+            {messages.length === 0 && <p className="text-neutral-500 text-center my-auto">Start the conversation below.</p>}
+            {messages.map((msg, index) => (
+              <div key={index} className={`group flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'}`}>
+                {(msg.role === 'user' || msg.text || (isLoading && index === messages.length - 1)) && (
+                  <div className={`max-w-xl p-3 rounded-2xl ${msg.role === 'user' ? 'bg-brand-accent text-brand-dark rounded-br-none' : 'bg-neutral-700 text-brand-light rounded-bl-none'}`}>
+                    {msg.attachments && <div className={msg.text ? 'mb-2' : ''}><AttachmentChips attachments={msg.attachments} /></div>}
+                    {msg.role === 'user'
+                      ? msg.text && <p className="whitespace-pre-wrap">{msg.text}</p>
+                      : msg.text
+                        ? <Markdown>{msg.text}</Markdown>
+                        : <Spinner />}
+                  </div>
+                )}
+                <div className="flex gap-3 mt-1 text-xs text-neutral-500">
+                  {msg.stopped && <span>Stopped</span>}
+                  {msg.role === 'model' && !isLoading && (
+                    <button onClick={() => handleFork(conversation, index)} className="hidden group-hover:inline hover:text-brand-light">
+                      Fork from here
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+            <div ref={messagesEndRef} />
+          </div>
 
-      <div className="flex gap-4">
-        <input
-          type="text"
-          value={input}
-          onChange={(e) => setInput(e.target.value)}
-          onKeyDown={(e) => e.key === 'Enter' && !isLoading && handleSend()}
-          placeholder="Type your message..."
-          className="flex-grow p-3 bg-brand-gray border border-neutral-700 rounded-lg text-brand-light placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-brand-accent transition-shadow duration-300"
-          disabled={isLoading}
-        />
-        <button
-          onClick={handleSend}
-          disabled={isLoading || !input.trim()}
-          className="flex justify-center items-center gap-2 bg-brand-accent text-brand-dark font-semibold py-3 px-6 rounded-lg transition-all duration-300 hover:bg-neutral-300 disabled:bg-brand-gray disabled:text-neutral-500 disabled:cursor-not-allowed focus:outline-none focus-visible:ring-2 focus-visible:ring-brand-accent focus-visible:ring-offset-2 focus-visible:ring-offset-black"
-        >
-          Send
-        </button>
+          {error && <p className="text-red-400 text-center">{error}</p>}
+
+          {attachments.length > 0 && (
+            <AttachmentChips attachments={attachments} onRemove={index => setAttachments(prev => prev.filter((_, i) => i !== index))} />
+          )}
+
+          <PromptLibrary mode={GeneratorMode.CHATBOT} currentPrompt={input} onInsert={setInput} disabled={isLoading} />
+
+          <div className="flex gap-4">
+            <label
+              className={`flex items-center px-4 rounded-lg bg-brand-gray border border-neutral-700 text-neutral-300 transition-colors ${isLoading ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:bg-neutral-700'}`}
+              title="Attach images, PDFs, audio or text files"
+            >
+              Attach
+              <input type="file" multiple accept={ATTACHMENT_ACCEPT} onChange={handleAttach} disabled={isLoading} className="hidden" />
+            </label>
+            <input
+              type="text"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && !isLoading && handleSend()}
+              placeholder={attachments.length > 0 ? 'Ask about the attached files...' : 'Type your message...'}
+              className="flex-grow p-3 bg-brand-gray border border-neutral-700 rounded-lg text-brand-light placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-brand-accent transition-shadow duration-300"
+              disabled={isLoading}
+            />
+            {isLoading ? (
+              <button
+                onClick={handleStop}
+                className="flex justify-center items-center gap-2 bg-brand-gray text-brand-light font-semibold py-3 px-6 rounded-lg border border-neutral-700 transition-all duration-300 hover:bg-neutral-700 focus:outline-none focus-visible:ring-2 focus-visible:ring-brand-accent focus-visible:ring-offset-2 focus-visible:ring-offset-black"
+              >
+                Stop
+              </button>
+            ) : (
+              <button
+                onClick={handleSend}
+                disabled={!input.trim() && attachments.length === 0}
+                className="flex justify-center items-center gap-2 bg-brand-accent text-brand-dark font-semibold py-3 px-6 rounded-lg transition-all duration-300 hover:bg-neutral-300 disabled:bg-brand-gray disabled:text-neutral-500 disabled:cursor-not-allowed focus:outline-none focus-visible:ring-2 focus-visible:ring-brand-accent focus-visible:ring-offset-2 focus-visible:ring-offset-black"
+              >
+                Send
+              </button>
+            )}
+          </div>
+        </div>
       </div>
     </div>
   );
 };
 
-export default Chatbot;
\ No newline at end of file
+export default Chatbot;
@@ -0,0 +1,110 @@
+import React, { useMemo, useState } from 'react';
+import { Conversation } from '../types';
+
+interface ConversationListProps {
+  conversations: Conversation[];
+  activeId: string | null;
+  disabled: boolean;
+  onSelect: (conversation: Conversation) => void;
+  onNew: () => void;
+  onRename: (conversation: Conversation, title: string) => void;
+  onFork: (conversation: Conversation) => void;
+  onDelete: (conversation: Conversation) => void;
+}
+
+const matchesQuery = (conversation: Conversation, query: string) =>
+  conversation.title.toLowerCase().includes(query) ||
+  conversation.messages.some(message => message.text.toLowerCase().includes(query));
+
+const ConversationList: React.FC<ConversationListProps> = ({
+  conversations,
+  activeId,
+  disabled,
+  onSelect,
+  onNew,
+  onRename,
+  onFork,
+  onDelete,
+}) => {
+  const [search, setSearch] = useState<string>('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState<string>('');
+
+  const filtered = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return query ? conversations.filter(conversation => matchesQuery(conversation, query)) : conversations;
+  }, [conversations, search]);
+
+  const startRename = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setDraftTitle(conversation.title);
+  };
+
+  const commitRename = (conversation: Conversation) => {
+    const title = draftTitle.trim();
+    if (title && title !== conversation.title) onRename(conversation, title);
+    setEditingId(null);
+  };
+
+  return (
+    <aside className="w-64 shrink-0 flex flex-col gap-3 bg-brand-gray rounded-lg border border-neutral-700 p-3 min-h-0">
+      <button
+        onClick={onNew}
+        disabled={disabled}
+        className="w-full bg-brand-accent text-brand-dark font-semibold py-2 px-3 rounded-lg transition-colors hover:bg-neutral-300 disabled:bg-neutral-700 disabled:text-neutral-500 disabled:cursor-not-allowed"
+      >
+        New Chat
+      </button>
+      <input
+        type="search"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        placeholder="Search chats..."
+        className="w-full p-2 bg-brand-dark border border-neutral-700 rounded-lg text-sm text-brand-light placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-brand-accent"
+      />
+      <ul className="flex-grow overflow-y-auto flex flex-col gap-1">
+        {filtered.length === 0 && (
+          <li className="text-sm text-neutral-500 text-center py-4">
+            {conversations.length === 0 ? 'No saved chats yet.' : 'No chats match your search.'}
+          </li>
+        )}
+        {filtered.map(conversation => (
+          <li
+            key={conversation.id}
+            className={`group rounded-lg px-2 py-2 text-sm ${conversation.id === activeId ? 'bg-neutral-700 text-brand-light' : 'text-neutral-300 hover:bg-neutral-800'}`}
+          >
+            {editingId === conversation.id ? (
+              <input
+                autoFocus
+                value={draftTitle}
+                onChange={(e) => setDraftTitle(e.target.value)}
+                onBlur={() => commitRename(conversation)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitRename(conversation);
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                className="w-full p-1 bg-brand-dark border border-neutral-600 rounded text-brand-light focus:outline-none focus:ring-1 focus:ring-brand-accent"
+              />
+            ) : (
+              <button
+                onClick={() => onSelect(conversation)}
+                disabled={disabled}
+                className="w-full text-left truncate disabled:cursor-not-allowed"
+                title={conversation.title}
+              >
+                {conversation.title}
+              </button>
+            )}
+            <div className="hidden group-hover:flex gap-3 mt-1 text-xs text-neutral-500">
+              <button onClick={() => startRename(conversation)} className="hover:text-brand-light">Rename</button>
+              <button onClick={() => onFork(conversation)} disabled={disabled} className="hover:text-brand-light disabled:cursor-not-allowed">Fork</button>
+              <button onClick={() => onDelete(conversation)} disabled={disabled} className="hover:text-red-400 disabled:cursor-not-allowed">Delete</button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+};
+
+export default ConversationList;
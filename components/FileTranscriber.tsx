@@ -0,0 +1,187 @@
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import Spinner from './Spinner';
+import { TranscriptSegment, transcribeFile } from '../services/gemini';
+import { downloadBlob } from '../utils/media';
+import { formatClockTime, toPlainTranscript, toSrt, toVtt } from '../utils/subtitles';
+
+type ExportFormat = 'srt' | 'vtt' | 'txt' | 'json';
+
+const EXPORTS: { format: ExportFormat; label: string; mimeType: string; serialize: (segments: TranscriptSegment[]) => string }[] = [
+  { format: 'srt', label: 'SRT', mimeType: 'application/x-subrip', serialize: toSrt },
+  { format: 'vtt', label: 'VTT', mimeType: 'text/vtt', serialize: toVtt },
+  { format: 'txt', label: 'TXT', mimeType: 'text/plain', serialize: toPlainTranscript },
+  { format: 'json', label: 'JSON', mimeType: 'application/json', serialize: segments => JSON.stringify(segments, null, 2) },
+];
+
+const isMediaFile = (file: File) => file.type.startsWith('audio/') || file.type.startsWith('video/');
+
+// Transcribes an uploaded recording into timed, speaker-labelled segments that
+// can be corrected in place and exported as subtitles or text.
+const FileTranscriber: React.FC = () => {
+  const [media, setMedia] = useState<{ file: File, url: string } | null>(null);
+  const [segments, setSegments] = useState<TranscriptSegment[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [isDragging, setIsDragging] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const mediaRef = useRef<HTMLMediaElement | null>(null);
+
+  const speakers = useMemo(() => [...new Set(segments.map(segment => segment.speaker))], [segments]);
+
+  useEffect(() => () => { if (media) URL.revokeObjectURL(media.url); }, [media]);
+
+  const selectFile = (file: File | undefined) => {
+    if (!file) return;
+    if (!isMediaFile(file)) {
+      setError('Please choose an audio or video file.');
+      return;
+    }
+    setError(null);
+    setSegments([]);
+    setMedia({ file, url: URL.createObjectURL(file) });
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (!isLoading) selectFile(e.dataTransfer.files[0]);
+  };
+
+  const handleTranscribe = useCallback(async () => {
+    if (!media) {
+      setError('Please choose an audio or video file to transcribe.');
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    setSegments([]);
+
+    try {
+      setSegments(await transcribeFile({ file: media.file, mimeType: media.file.type }));
+    } catch (e) {
+      console.error(e);
+      setError('Failed to transcribe the file. Please check your API key and try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [media]);
+
+  const updateSegment = (index: number, changes: Partial<TranscriptSegment>) =>
+    setSegments(current => current.map((segment, i) => i === index ? { ...segment, ...changes } : segment));
+
+  const renameSpeaker = (from: string, to: string) =>
+    setSegments(current => current.map(segment => segment.speaker === from ? { ...segment, speaker: to } : segment));
+
+  const seekTo = (seconds: number) => {
+    if (!mediaRef.current) return;
+    mediaRef.current.currentTime = seconds;
+    mediaRef.current.play().catch(() => {});
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    const { mimeType, serialize } = EXPORTS.find(item => item.format === format)!;
+    const baseName = media?.file.name.replace(/\.[^.]+$/, '') || 'transcript';
+    downloadBlob(new Blob([serialize(segments)], { type: mimeType }), `${baseName}.${format}`);
+  };
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`w-full min-h-[8rem] bg-brand-gray border-dashed border-2 rounded-lg flex flex-col items-center justify-center gap-3 relative p-4 ${isDragging ? 'border-brand-accent' : 'border-neutral-700'}`}
+      >
+        {media ? (
+          <>
+            {media.file.type.startsWith('video/') ? (
+              <video ref={element => { mediaRef.current = element; }} src={media.url} controls className="w-full max-h-80 rounded-lg" />
+            ) : (
+              <audio ref={element => { mediaRef.current = element; }} src={media.url} controls className="w-full" />
+            )}
+            <div className="flex items-center gap-3 text-sm text-neutral-400">
+              <span className="truncate max-w-xs">{media.file.name}</span>
+              <label className="px-3 py-1 rounded-full bg-neutral-700 text-brand-light hover:bg-neutral-600 cursor-pointer">
+                Replace
+                <input type="file" accept="audio/*,video/*" onChange={(e) => selectFile(e.target.files?.[0])} className="hidden" disabled={isLoading} />
+              </label>
+            </div>
+          </>
+        ) : (
+          <>
+            <span className="text-neutral-500">Drop an audio or video file here, or click to choose one</span>
+            <input type="file" accept="audio/*,video/*" onChange={(e) => selectFile(e.target.files?.[0])} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer" disabled={isLoading} />
+          </>
+        )}
+      </div>
+
+      <button
+        onClick={handleTranscribe}
+        disabled={isLoading || !media}
+        className="w-full flex justify-center items-center gap-2 bg-brand-accent text-brand-dark font-semibold py-3 px-4 rounded-lg transition-all duration-300 hover:bg-neutral-300 disabled:bg-brand-gray disabled:text-neutral-500 disabled:cursor-not-allowed focus:outline-none focus-visible:ring-2 focus-visible:ring-brand-accent focus-visible:ring-offset-2 focus-visible:ring-offset-black"
+      >
+        {isLoading ? <><Spinner /> Transcribing...</> : 'Transcribe File'}
+      </button>
+
+      {error && <p className="text-red-400 text-center">{error}</p>}
+
+      {segments.length > 0 && (
+        <div className="w-full p-4 bg-brand-gray rounded-lg border border-neutral-700 flex flex-col gap-4 animate-fade-in">
+          <div className="flex flex-wrap items-center gap-2">
+            <h3 className="font-semibold text-brand-accent flex-grow">Transcript</h3>
+            {EXPORTS.map(({ format, label }) => (
+              <button key={format} onClick={() => handleExport(format)} className="px-3 py-1 text-sm rounded-full bg-neutral-700 text-brand-light hover:bg-neutral-600">
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-neutral-400">Speakers</span>
+            {speakers.map(speaker => (
+              <input
+                key={speaker}
+                defaultValue={speaker}
+                onBlur={(e) => {
+                  const name = e.target.value.trim();
+                  if (name && name !== speaker) renameSpeaker(speaker, name);
+                  else e.target.value = speaker;
+                }}
+                className="w-32 px-2 py-1 bg-brand-dark border border-neutral-700 rounded text-brand-light focus:outline-none focus:ring-1 focus:ring-brand-accent"
+                aria-label={`Rename ${speaker}`}
+              />
+            ))}
+          </div>
+
+          <div className="flex flex-col divide-y divide-neutral-800">
+            {segments.map((segment, index) => (
+              <div key={index} className="flex gap-3 py-2 items-start">
+                <button
+                  onClick={() => seekTo(segment.start)}
+                  className="flex-shrink-0 text-xs text-neutral-500 hover:text-brand-light tabular-nums pt-1.5"
+                  title="Play from here"
+                >
+                  {formatClockTime(segment.start)}
+                </button>
+                <input
+                  value={segment.speaker}
+                  onChange={(e) => updateSegment(index, { speaker: e.target.value })}
+                  className="flex-shrink-0 w-28 px-2 py-1 text-sm bg-transparent border border-transparent rounded text-neutral-400 hover:border-neutral-700 focus:border-neutral-600 focus:outline-none"
+                  aria-label="Speaker"
+                />
+                <textarea
+                  value={segment.text}
+                  onChange={(e) => updateSegment(index, { text: e.target.value })}
+                  rows={Math.max(1, Math.ceil(segment.text.length / 80))}
+                  className="flex-grow px-2 py-1 bg-transparent border border-transparent rounded text-neutral-300 resize-none hover:border-neutral-700 focus:border-neutral-600 focus:outline-none"
+                  aria-label="Transcript text"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FileTranscriber;
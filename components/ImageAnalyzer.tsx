@@ -1,118 +1,432 @@
-import React, { useState, useCallback } from 'react';
-import { GoogleGenAI } from '@google/genai';
+import React, { useState, useCallback, useMemo } from 'react';
 import Spinner from './Spinner';
+import PromptLibrary from './PromptLibrary';
+import BoundingBoxOverlay from './BoundingBoxOverlay';
+import StructuredResult from './StructuredResult';
+import { GeneratorMode } from '../types';
+import { useHandoff } from '../hooks/useHandoff';
+import { usePersistentState } from '../hooks/usePersistentState';
+import { ANALYSIS_PRESETS, AnalysisPreset, AnalysisPresetId, getAnalysisPreset } from '../services/analysisPresets';
+import { generateContent, generateJson, MODELS } from '../services/gemini';
+import { handoffToFile } from '../services/handoff';
+import { base64Length, formatMegabytes, MAX_ATTACHMENT_BYTES, MAX_INLINE_DATA_LENGTH } from '../utils/attachments';
+import { CsvRow, toCsv } from '../utils/csv';
+import { blobToBase64, downloadBlob } from '../utils/media';
 
-const fileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.readAsDataURL(file);
-      reader.onload = () => {
-        const result = reader.result as string;
-        const base64 = result.split(',')[1];
-        resolve(base64);
-      };
-      reader.onerror = (error) => reject(error);
-    });
+type Analysis =
+  | { presetId: 'custom'; text: string }
+  | { presetId: Exclude<AnalysisPresetId, 'custom'>; data: unknown };
+
+// 'together' sends every image in one request; 'batch' runs the prompt once per image.
+type RunMode = 'together' | 'batch';
+
+const RUN_MODES: { value: RunMode; label: string }[] = [
+  { value: 'together', label: 'All images together' },
+  { value: 'batch', label: 'Each image separately' },
+];
+
+interface AnalyzerImage {
+  id: string;
+  file: File;
+  url: string;
+}
+
+type BatchStatus = 'pending' | 'running' | 'done' | 'error';
+
+interface BatchItem {
+  imageId: string;
+  status: BatchStatus;
+  analysis?: Analysis;
+  error?: string;
+}
+
+const STATUS_LABELS: Record<BatchStatus, string> = {
+  pending: 'Waiting',
+  running: 'Analyzing…',
+  done: 'Done',
+  error: 'Failed',
+};
+
+const ANALYSIS_ERROR = 'Failed to analyze image. Please check your API key and try again.';
+
+const analyze = async (preset: AnalysisPreset, prompt: string, files: File[]): Promise<Analysis> => {
+  const images = await Promise.all(files.map(async file => ({ data: await blobToBase64(file), mimeType: file.type })));
+  if (preset.id === 'custom' || !preset.schema) {
+    const result = await generateContent({ model: MODELS.vision, images, prompt });
+    return { presetId: 'custom', text: result.text };
+  }
+  const data = await generateJson<unknown>({ model: MODELS.vision, images, prompt: preset.prompt, responseSchema: preset.schema });
+  return { presetId: preset.id, data };
+};
+
+const analysisRows = (analysis: Analysis): CsvRow[] =>
+  'data' in analysis
+    ? getAnalysisPreset(analysis.presetId).toRows?.(analysis.data) ?? []
+    : [{ answer: analysis.text }];
+
+const analysisBoxes = (analysis: Analysis | undefined) =>
+  analysis && 'data' in analysis ? getAnalysisPreset(analysis.presetId).toBoxes?.(analysis.data) ?? [] : [];
+
+const exportJson = (value: unknown, filename: string) =>
+  downloadBlob(new Blob([JSON.stringify(value, null, 2)], { type: 'application/json' }), filename);
+
+const exportCsv = (rows: CsvRow[], filename: string) =>
+  downloadBlob(new Blob([toCsv(rows)], { type: 'text/csv' }), filename);
+
+const AnalysisView: React.FC<{ analysis: Analysis }> = ({ analysis }) => {
+  if ('text' in analysis) return <p className="text-neutral-300 whitespace-pre-wrap">{analysis.text}</p>;
+  return (
+    <>
+      {analysis.presetId === 'ocr' && (
+        <p className="text-neutral-300 whitespace-pre-wrap mb-4">{(analysis.data as { fullText: string }).fullText}</p>
+      )}
+      <StructuredResult rows={analysisRows(analysis)} data={analysis.data} />
+    </>
+  );
 };
 
+const smallButton = 'px-3 py-1 text-sm rounded-full bg-neutral-700 text-brand-light hover:bg-neutral-600 disabled:opacity-50 disabled:cursor-not-allowed';
+
 const ImageAnalyzer: React.FC = () => {
-  const [prompt, setPrompt] = useState<string>('Describe this image in detail.');
-  const [image, setImage] = useState<{ file: File, url: string } | null>(null);
-  const [analysis, setAnalysis] = useState<string | null>(null);
+  const [presetId, setPresetId] = usePersistentState<AnalysisPresetId>('analyzeImage.preset', 'custom');
+  const [runMode, setRunMode] = usePersistentState<RunMode>('analyzeImage.runMode', 'together');
+  const [prompt, setPrompt] = usePersistentState<string>('analyzeImage.prompt', 'Describe this image in detail.');
+  const [images, setImages] = useState<AnalyzerImage[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [analysis, setAnalysis] = useState<Analysis | null>(null);
+  const [batch, setBatch] = useState<BatchItem[]>([]);
+  // Retries reuse the template and prompt the batch was started with.
+  const [batchRun, setBatchRun] = useState<{ preset: AnalysisPreset; prompt: string } | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Presets describe a single image, so comparing several needs a free-form prompt.
+  const canUsePresets = runMode === 'batch' || images.length <= 1;
+  const preset = getAnalysisPreset(canUsePresets ? presetId : 'custom');
+  const selected = images.find(image => image.id === selectedId) ?? images[0];
+  const selectedItem = batch.find(item => item.imageId === selected?.id);
+  // 'together' sends every image inline in one request, which the API caps.
+  const totalImageBytes = images.reduce((size, image) => size + image.file.size, 0);
+  const totalImageLength = images.reduce((length, image) => length + base64Length(image.file.size), 0);
+  const isTooLargeTogether = runMode === 'together' && totalImageLength > MAX_INLINE_DATA_LENGTH;
+  const fileName = (imageId: string) => images.find(image => image.id === imageId)?.file.name ?? '';
+
+  const boxes = useMemo(() => {
+    if (runMode === 'batch') return analysisBoxes(selectedItem?.analysis);
+    return images.length === 1 ? analysisBoxes(analysis ?? undefined) : [];
+  }, [runMode, selectedItem, analysis, images.length]);
+
+  const addImages = (files: File[]) => {
+    const added = files
+      .filter(file => file.type.startsWith('image/'))
+      .map(file => ({ id: crypto.randomUUID(), file, url: URL.createObjectURL(file) }));
+    if (added.length === 0) return;
+    setImages(current => [...current, ...added]);
+    setSelectedId(added[0].id);
+    setAnalysis(null);
+  };
+
+  const removeImage = (id: string) => {
+    setImages(current => {
+      const image = current.find(item => item.id === id);
+      if (image) URL.revokeObjectURL(image.url);
+      return current.filter(item => item.id !== id);
+    });
+    setBatch(current => current.filter(item => item.imageId !== id));
+    setAnalysis(null);
+  };
+
+  const clearImages = () => {
+    images.forEach(image => URL.revokeObjectURL(image.url));
+    setImages([]);
+    setBatch([]);
+    setAnalysis(null);
+  };
+
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setImage({ file, url: URL.createObjectURL(file) });
-      setAnalysis(null);
+    addImages(Array.from(e.target.files ?? []));
+    e.target.value = '';
+  };
+
+  useHandoff(GeneratorMode.ANALYZE_IMAGE, handoff => addImages([handoffToFile(handoff)]));
+
+  const updateItem = (imageId: string, changes: Partial<BatchItem>) =>
+    setBatch(current => current.map(item => item.imageId === imageId ? { ...item, ...changes } : item));
+
+  // Items run one at a time so a large folder does not trip rate limits.
+  const runBatch = async (targets: AnalyzerImage[], run: { preset: AnalysisPreset; prompt: string }) => {
+    for (const image of targets) {
+      updateItem(image.id, { status: 'running', error: undefined });
+      try {
+        updateItem(image.id, { status: 'done', analysis: await analyze(run.preset, run.prompt, [image.file]) });
+      } catch (e) {
+        console.error(e);
+        updateItem(image.id, { status: 'error', error: ANALYSIS_ERROR });
+      }
     }
   };
 
   const handleAnalyze = useCallback(async () => {
-    if (!prompt.trim() || !image) {
+    if ((preset.id === 'custom' && !prompt.trim()) || images.length === 0) {
       setError('Please upload an image and enter a prompt.');
       return;
     }
+    if (isTooLargeTogether) {
+      setError(`These images add up to ${formatMegabytes(totalImageBytes)}, over the ${formatMegabytes(MAX_ATTACHMENT_BYTES)} that can be sent together. Remove some, or choose "Each image separately".`);
+      return;
+    }
     setIsLoading(true);
     setError(null);
     setAnalysis(null);
 
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const imageBase64 = await fileToBase64(image.file);
-      
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: {
-          parts: [
-            {
-              inlineData: {
-                data: imageBase64,
-                mimeType: image.file.type,
-              },
-            },
-            { text: prompt },
-          ],
-        },
-      });
-      
-      setAnalysis(response.text);
-
+      if (runMode === 'batch') {
+        const run = { preset, prompt };
+        setBatchRun(run);
+        setBatch(images.map(image => ({ imageId: image.id, status: 'pending' })));
+        await runBatch(images, run);
+      } else {
+        setAnalysis(await analyze(preset, prompt, images.map(image => image.file)));
+      }
     } catch (e) {
       console.error(e);
-      setError('Failed to analyze image. Please check your API key and try again.');
+      setError(ANALYSIS_ERROR);
     } finally {
       setIsLoading(false);
     }
-  }, [prompt, image]);
+  }, [prompt, images, preset, runMode, isTooLargeTogether, totalImageBytes]);
+
+  const handleRetry = async (imageId: string) => {
+    const image = images.find(item => item.id === imageId);
+    if (!image || !batchRun) return;
+    setIsLoading(true);
+    await runBatch([image], batchRun);
+    setIsLoading(false);
+  };
+
+  const handleExport = (format: 'json' | 'csv') => {
+    if (runMode === 'batch') {
+      const finished = batch.filter(item => item.analysis);
+      const name = `batch-analysis-${batchRun?.preset.id ?? preset.id}`;
+      if (format === 'json') {
+        exportJson(finished.map(item => {
+          const result = item.analysis!;
+          return { file: fileName(item.imageId), ...('data' in result ? { data: result.data } : { answer: result.text }) };
+        }), `${name}.json`);
+      } else {
+        exportCsv(finished.flatMap(item => analysisRows(item.analysis!).map(row => ({ file: fileName(item.imageId), ...row }))), `${name}.csv`);
+      }
+    } else if (analysis) {
+      const name = `analysis-${analysis.presetId}`;
+      if (format === 'json') {
+        exportJson('data' in analysis ? analysis.data : { answer: analysis.text }, `${name}.json`);
+      } else {
+        exportCsv(analysisRows(analysis), `${name}.csv`);
+      }
+    }
+  };
+
+  const completed = batch.filter(item => item.status === 'done' || item.status === 'error').length;
+  const canExport = runMode === 'batch' ? batch.some(item => item.analysis) : !!analysis;
 
   return (
     <div className="flex flex-col gap-6 animate-fade-in">
       <div>
         <h2 className="text-2xl font-bold text-brand-accent">Image Analyzer</h2>
-        <p className="text-neutral-400 mt-1">Upload an image and ask Gemini a question about it.</p>
+        <p className="text-neutral-400 mt-1">Upload one or more images and ask Gemini about them, compare shots side by side, or run the same question over a whole folder.</p>
       </div>
 
-      <div className="w-full aspect-video bg-brand-gray border-dashed border-2 border-neutral-700 rounded-lg flex items-center justify-center relative overflow-hidden">
-          {image ? (
-            <img src={image.url} alt="To be analyzed" className="w-full h-full object-contain" />
+      <div className="w-full min-h-[16rem] bg-brand-gray border-dashed border-2 border-neutral-700 rounded-lg flex items-center justify-center relative overflow-hidden p-2">
+          {selected ? (
+            <div className="relative inline-block">
+              <img src={selected.url} alt="To be analyzed" className="block max-w-full max-h-[28rem]" />
+              {boxes.length > 0 && <BoundingBoxOverlay boxes={boxes} />}
+            </div>
           ) : (
-            <span className="text-neutral-500">Upload Image to Analyze</span>
+            <>
+              <span className="text-neutral-500">Upload Images to Analyze</span>
+              <input type="file" accept="image/*" multiple onChange={handleImageUpload} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer" disabled={isLoading} />
+            </>
           )}
-          <input type="file" accept="image/*" onChange={handleImageUpload} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer" disabled={isLoading} />
       </div>
-      
+
+      {images.length > 0 && (
+        <div className="flex flex-col gap-2">
+          <div className="flex gap-2 overflow-x-auto pb-1">
+            {images.map(image => (
+              <div key={image.id} className={`relative flex-shrink-0 w-20 h-20 rounded-lg overflow-hidden border-2 ${image.id === selected?.id ? 'border-brand-accent' : 'border-neutral-700'}`}>
+                <button onClick={() => setSelectedId(image.id)} className="w-full h-full" title={image.file.name}>
+                  <img src={image.url} alt={image.file.name} className="w-full h-full object-cover" />
+                </button>
+                <button
+                  onClick={() => removeImage(image.id)}
+                  disabled={isLoading}
+                  className="absolute top-0.5 right-0.5 w-5 h-5 rounded-full bg-black/70 text-xs text-brand-light hover:bg-black disabled:hidden"
+                  aria-label={`Remove ${image.file.name}`}
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <label className={`${smallButton} cursor-pointer`}>
+              Add Images
+              <input type="file" accept="image/*" multiple onChange={handleImageUpload} className="hidden" disabled={isLoading} />
+            </label>
+            <label className={`${smallButton} cursor-pointer`}>
+              Add Folder
+              <input type="file" multiple {...{ webkitdirectory: '' }} onChange={handleImageUpload} className="hidden" disabled={isLoading} />
+            </label>
+            <button onClick={clearImages} disabled={isLoading} className={smallButton}>Clear</button>
+            <span className="text-sm text-neutral-500 ml-auto">{images.length} image{images.length === 1 ? '' : 's'}</span>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        {RUN_MODES.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => setRunMode(value)}
+            disabled={isLoading}
+            className={`px-4 py-2 text-sm font-medium rounded-full transition-colors duration-300 ${runMode === value ? 'bg-brand-accent text-brand-dark' : 'bg-brand-gray text-brand-light hover:bg-neutral-700'}`}
+          >
+            {label}
+          </button>
+        ))}
+        {isTooLargeTogether && (
+          <span className="text-xs text-yellow-400">{formatMegabytes(totalImageBytes)} is too much to send together; analyze each image separately.</span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {ANALYSIS_PRESETS.map(({ id, label }) => (
+          <button
+            key={id}
+            onClick={() => setPresetId(id)}
+            disabled={isLoading || (!canUsePresets && id !== 'custom')}
+            title={!canUsePresets && id !== 'custom' ? 'Templates analyze one image at a time. Switch to "Each image separately".' : undefined}
+            className={`px-4 py-2 text-sm font-medium rounded-full transition-colors duration-300 disabled:opacity-50 disabled:cursor-not-allowed ${preset.id === id ? 'bg-brand-accent text-brand-dark' : 'bg-brand-gray text-brand-light hover:bg-neutral-700'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
       <div className="flex flex-col gap-4">
-        <textarea
-          value={prompt}
-          onChange={(e) => setPrompt(e.target.value)}
-          placeholder="e.g., Describe this image in detail."
-          className="w-full p-3 bg-brand-gray border border-neutral-700 rounded-lg text-brand-light placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-brand-accent transition-shadow duration-300"
-          rows={2}
+        <PromptLibrary
+          mode={GeneratorMode.ANALYZE_IMAGE}
+          currentPrompt={prompt}
+          onInsert={text => {
+            setPresetId('custom');
+            setPrompt(text);
+          }}
           disabled={isLoading}
         />
+        {preset.id === 'custom' ? (
+          <textarea
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            placeholder={runMode === 'together' && images.length > 1 ? 'e.g., What changed between these shots?' : 'e.g., Describe this image in detail.'}
+            className="w-full p-3 bg-brand-gray border border-neutral-700 rounded-lg text-brand-light placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-brand-accent transition-shadow duration-300"
+            rows={2}
+            disabled={isLoading}
+          />
+        ) : (
+          <p className="text-sm text-neutral-400">{preset.prompt}</p>
+        )}
         <button
           onClick={handleAnalyze}
-          disabled={isLoading || !prompt || !image}
+          disabled={isLoading || (preset.id === 'custom' && !prompt) || images.length === 0}
           className="w-full flex justify-center items-center gap-2 bg-brand-accent text-brand-dark font-semibold py-3 px-4 rounded-lg transition-all duration-300 hover:bg-neutral-300 disabled:bg-brand-gray disabled:text-neutral-500 disabled:cursor-not-allowed focus:outline-none focus-visible:ring-2 focus-visible:ring-brand-accent focus-visible:ring-offset-2 focus-visible:ring-offset-black"
         >
-          {isLoading ? <><Spinner /> Analyzing...</> : 'Analyze Image'}
+          {isLoading
+            ? <><Spinner /> {runMode === 'batch' && batch.length > 0 ? `Analyzing ${Math.min(completed + 1, batch.length)} of ${batch.length}...` : 'Analyzing...'}</>
+            : runMode === 'batch' && images.length > 1 ? `Analyze ${images.length} Images` : 'Analyze'}
         </button>
       </div>
 
       {error && <p className="text-red-400 text-center">{error}</p>}
-      
-      { (isLoading || analysis) &&
+
+      {(runMode === 'together' ? (isLoading || analysis) : batch.length > 0) &&
         <div className="w-full p-4 bg-brand-gray rounded-lg border border-neutral-700 min-h-[150px]">
-          <h3 className="font-semibold text-brand-accent mb-2">Analysis Result</h3>
-          {isLoading && <div className="flex items-center gap-2 text-neutral-400"><Spinner /> <p>Gemini is analyzing the image...</p></div>}
-          {analysis && <p className="text-neutral-300 whitespace-pre-wrap">{analysis}</p>}
+          <div className="flex items-center gap-2 mb-2">
+            <h3 className="font-semibold text-brand-accent flex-grow">
+              {runMode === 'batch' ? `Batch Results (${completed} of ${batch.length})` : 'Analysis Result'}
+            </h3>
+            <button onClick={() => handleExport('json')} disabled={!canExport} className={smallButton}>Export JSON</button>
+            <button onClick={() => handleExport('csv')} disabled={!canExport} className={smallButton}>Export CSV</button>
+          </div>
+
+          {runMode === 'together' ? (
+            <>
+              {isLoading && <div className="flex items-center gap-2 text-neutral-400"><Spinner /> <p>Gemini is analyzing {images.length > 1 ? 'the images' : 'the image'}...</p></div>}
+              {analysis && <AnalysisView analysis={analysis} />}
+            </>
+          ) : (
+            <div className="flex flex-col gap-4">
+              <div className="w-full h-1.5 bg-neutral-800 rounded-full overflow-hidden">
+                <div className="h-full bg-brand-accent transition-all duration-300" style={{ width: `${batch.length ? completed / batch.length * 100 : 0}%` }} />
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm text-left">
+                  <thead className="text-neutral-400 border-b border-neutral-700">
+                    <tr>
+                      <th className="py-2 pr-4 font-medium">Image</th>
+                      <th className="py-2 pr-4 font-medium">Status</th>
+                      <th className="py-2 pr-4 font-medium">Result</th>
+                      <th className="py-2 font-medium" />
+                    </tr>
+                  </thead>
+                  <tbody className="text-neutral-300">
+                    {batch.map(item => {
+                      const image = images.find(candidate => candidate.id === item.imageId);
+                      const result = item.analysis;
+                      return (
+                        <tr
+                          key={item.imageId}
+                          onClick={() => setSelectedId(item.imageId)}
+                          className={`border-b border-neutral-800 align-top cursor-pointer ${item.imageId === selected?.id ? 'bg-neutral-800' : 'hover:bg-neutral-800/50'}`}
+                        >
+                          <td className="py-2 pr-4">
+                            <div className="flex items-center gap-2">
+                              {image && <img src={image.url} alt="" className="w-10 h-10 rounded object-cover flex-shrink-0" />}
+                              <span className="truncate max-w-[10rem]">{fileName(item.imageId)}</span>
+                            </div>
+                          </td>
+                          <td className={`py-2 pr-4 whitespace-nowrap ${item.status === 'error' ? 'text-red-400' : ''}`}>{STATUS_LABELS[item.status]}</td>
+                          <td className="py-2 pr-4">
+                            {result && ('text' in result
+                              ? <span className="line-clamp-3">{result.text}</span>
+                              : `${analysisRows(result).length} row${analysisRows(result).length === 1 ? '' : 's'}`)}
+                            {item.error && <span className="text-red-400">{item.error}</span>}
+                          </td>
+                          <td className="py-2 text-right">
+                            {item.status === 'error' && (
+                              <button onClick={(e) => { e.stopPropagation(); handleRetry(item.imageId); }} disabled={isLoading} className={smallButton}>
+                                Retry
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              {selectedItem?.analysis && (
+                <div className="border-t border-neutral-700 pt-4">
+                  <h4 className="text-sm font-medium text-neutral-400 mb-2">{fileName(selectedItem.imageId)}</h4>
+                  <AnalysisView analysis={selectedItem.analysis} />
+                </div>
+              )}
+            </div>
+          )}
         </div>
       }
     </div>
   );
 };
 
-export default ImageAnalyzer;
\ No newline at end of file
+export default ImageAnalyzer;
@@ -1,105 +1,255 @@
-import React, { useState, useCallback } from 'react';
-import { GoogleGenAI, Modality } from '@google/genai';
+import React, { useState, useCallback, useRef, useMemo } from 'react';
 import Spinner from './Spinner';
+import PromptLibrary from './PromptLibrary';
+import MaskCanvas from './MaskCanvas';
+import BeforeAfter, { CompareMode } from './BeforeAfter';
+import SendToMenu from './SendToMenu';
+import { GeneratorMode } from '../types';
+import { EditStep, useEditHistory } from '../hooks/useEditHistory';
+import { useHandoff } from '../hooks/useHandoff';
+import { usePersistentState } from '../hooks/usePersistentState';
+import { recordAsset } from '../services/assetStore';
+import { editImage, InlineData, MODELS } from '../services/gemini';
+import { handoffToFile } from '../services/handoff';
+import { base64ToBlob, blobToBase64 } from '../utils/media';
+import {
+  canvasToInlineData,
+  compositeWithMask,
+  expandCanvas,
+  isMaskEmpty,
+  loadImage,
+  OUTPAINT_ASPECT_RATIOS,
+  OutpaintAspectRatio,
+  renderMaskForModel,
+} from '../utils/canvas';
 
-const fileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.readAsDataURL(file);
-      reader.onload = () => {
-        const result = reader.result as string;
-        const base64 = result.split(',')[1];
-        resolve(base64);
-      };
-      reader.onerror = (error) => reject(error);
-    });
+type EditMode = 'whole' | 'mask' | 'outpaint';
+
+const EDIT_MODES: { value: EditMode; label: string }[] = [
+  { value: 'whole', label: 'Whole Image' },
+  { value: 'mask', label: 'Masked Region' },
+  { value: 'outpaint', label: 'Outpaint' },
+];
+
+const COMPARE_MODES: { value: CompareMode; label: string }[] = [
+  { value: 'slider', label: 'Slider' },
+  { value: 'side-by-side', label: 'Side by Side' },
+];
+
+const toDataUrl = ({ data, mimeType }: InlineData) => `data:${mimeType};base64,${data}`;
+
+// Orders the history tree depth-first so each branch is listed under the step
+// it was edited from.
+const flattenHistory = (steps: EditStep[]): { step: EditStep; depth: number }[] => {
+  const rows: { step: EditStep; depth: number }[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    steps
+      .filter(step => step.parentId === parentId)
+      .forEach(step => {
+        rows.push({ step, depth });
+        visit(step.id, depth + 1);
+      });
+  };
+  visit(null, 0);
+  return rows;
 };
 
 const ImageEditor: React.FC = () => {
-  const [prompt, setPrompt] = useState<string>('');
-  const [originalImage, setOriginalImage] = useState<{ file: File, url: string } | null>(null);
-  const [editedImageUrl, setEditedImageUrl] = useState<string | null>(null);
+  const [prompt, setPrompt] = usePersistentState<string>('editImage.prompt', '');
+  const [editMode, setEditMode] = usePersistentState<EditMode>('editImage.mode', 'whole');
+  const [outpaintRatio, setOutpaintRatio] = usePersistentState<OutpaintAspectRatio>('editImage.outpaintRatio', '16:9');
+  const [compareMode, setCompareMode] = usePersistentState<CompareMode>('editImage.compareMode', 'slider');
+  const [hasMask, setHasMask] = useState<boolean>(false);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const maskRef = useRef<HTMLCanvasElement | null>(null);
+  const history = useEditHistory();
+  const { current, parent } = history;
+  const currentUrl = useMemo(() => current && toDataUrl(current.image), [current]);
+  const historyRows = useMemo(() => flattenHistory(history.steps), [history.steps]);
+
+  const startFrom = async (blob: Blob) => {
+    if (history.steps.length > 1 && !window.confirm('Start over with a new image? The current edit history will be cleared.')) return;
+    try {
+      const image: InlineData = { data: await blobToBase64(blob), mimeType: blob.type };
+      const { naturalWidth, naturalHeight } = await loadImage(toDataUrl(image));
+      history.reset({ image, width: naturalWidth, height: naturalHeight, prompt: 'Original' });
+      setError(null);
+    } catch (e) {
+      console.error(e);
+      setError('Failed to read the image. Please try a different file.');
+    }
+  };
 
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      setOriginalImage({ file, url: URL.createObjectURL(file) });
-      setEditedImageUrl(null); // Clear previous edit on new image upload
+    e.target.value = '';
+    if (file) startFrom(file);
+  };
+
+  useHandoff(GeneratorMode.EDIT_IMAGE, handoff => startFrom(handoffToFile(handoff)));
+
+  // Runs the edit for the selected mode and returns the final image. Masked
+  // and outpainted results are composited so pixels outside the mask match
+  // the input exactly.
+  const runEdit = async (step: EditStep): Promise<InlineData> => {
+    if (editMode === 'whole') {
+      return editImage({ image: step.image, prompt });
+    }
+
+    const source = await loadImage(toDataUrl(step.image));
+    let base: HTMLCanvasElement | HTMLImageElement = source;
+    let mask = maskRef.current;
+    let input = step.image;
+    if (editMode === 'outpaint') {
+      const expanded = expandCanvas(source, outpaintRatio);
+      base = expanded.image;
+      mask = expanded.mask;
+      input = canvasToInlineData(expanded.image);
     }
+    if (!mask) {
+      throw new Error('No mask to edit with.');
+    }
+
+    const edited = await editImage({ image: input, prompt, mask: canvasToInlineData(renderMaskForModel(mask)) });
+    const composite = compositeWithMask(base, await loadImage(toDataUrl(edited)), mask);
+    return canvasToInlineData(composite);
   };
 
   const handleGenerate = useCallback(async () => {
-    if (!prompt.trim() || !originalImage) {
+    if (!prompt.trim() || !current) {
       setError('Please upload an image and enter an editing prompt.');
       return;
     }
+    if (editMode === 'mask' && (!maskRef.current || isMaskEmpty(maskRef.current))) {
+      setError('Paint over the area you want to change.');
+      return;
+    }
+    const [ratioWidth, ratioHeight] = outpaintRatio.split(':').map(Number);
+    if (editMode === 'outpaint' && Math.abs(current.width / current.height - ratioWidth / ratioHeight) < 0.01) {
+      setError('The image already has this aspect ratio. Choose a different one to outpaint.');
+      return;
+    }
     setIsLoading(true);
     setError(null);
-    setEditedImageUrl(null);
 
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const imageBase64 = await fileToBase64(originalImage.file);
-
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: {
-          parts: [
-            {
-              inlineData: {
-                data: imageBase64,
-                mimeType: originalImage.file.type,
-              },
-            },
-            { text: prompt },
-          ],
-        },
-        config: {
-          responseModalities: [Modality.IMAGE],
-        },
+      const edited = await runEdit(current);
+      const { naturalWidth, naturalHeight } = await loadImage(toDataUrl(edited));
+      // The result becomes the input for the next edit.
+      history.push({ image: edited, width: naturalWidth, height: naturalHeight, prompt });
+      recordAsset({
+        kind: 'image',
+        mode: GeneratorMode.EDIT_IMAGE,
+        blob: base64ToBlob(edited.data, edited.mimeType),
+        mimeType: edited.mimeType,
+        prompt,
+        model: MODELS.imageEdit,
+        metadata: { editMode },
       });
-
-      const firstPart = response.candidates?.[0]?.content?.parts?.[0];
-      if (firstPart?.inlineData) {
-        const base64ImageBytes: string = firstPart.inlineData.data;
-        setEditedImageUrl(`data:image/png;base64,${base64ImageBytes}`);
-      } else {
-        throw new Error('No edited image data received from the API.');
-      }
     } catch (e) {
       console.error(e);
       setError('Failed to edit image. Please check your API key and try again.');
     } finally {
       setIsLoading(false);
     }
-  }, [prompt, originalImage]);
+  }, [prompt, current, editMode, outpaintRatio, history.push]);
 
   return (
     <div className="flex flex-col gap-6 animate-fade-in">
       <div>
         <h2 className="text-2xl font-bold text-brand-accent">Image Editor</h2>
-        <p className="text-neutral-400 mt-1">Upload an image and describe the changes you want to make.</p>
+        <p className="text-neutral-400 mt-1">Upload an image and describe the changes you want to make. Each edit builds on the last; paint a mask to limit where changes happen, or outpaint to a new aspect ratio.</p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {EDIT_MODES.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => setEditMode(value)}
+            disabled={isLoading}
+            className={`px-4 py-2 text-sm font-medium rounded-full transition-colors duration-300 ${editMode === value ? 'bg-brand-accent text-brand-dark' : 'bg-brand-gray text-brand-light hover:bg-neutral-700'}`}
+          >
+            {label}
+          </button>
+        ))}
+        {editMode === 'outpaint' && (
+          <select
+            value={outpaintRatio}
+            onChange={(e) => setOutpaintRatio(e.target.value as OutpaintAspectRatio)}
+            disabled={isLoading}
+            className="ml-auto px-3 py-2 text-sm bg-brand-gray border border-neutral-700 rounded-full text-brand-light focus:outline-none focus:ring-2 focus:ring-brand-accent"
+          >
+            {OUTPAINT_ASPECT_RATIOS.map(ratio => <option key={ratio} value={ratio}>Expand to {ratio}</option>)}
+          </select>
+        )}
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-        <div className="w-full aspect-square bg-brand-gray border-dashed border-2 border-neutral-700 rounded-lg flex items-center justify-center relative overflow-hidden">
-          {originalImage ? (
-            <img src={originalImage.url} alt="Original" className="w-full h-full object-contain" />
-          ) : (
-            <span className="text-neutral-500">Upload Original Image</span>
-          )}
-          <input type="file" accept="image/*" onChange={handleImageUpload} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer" disabled={isLoading} />
-        </div>
+        {editMode === 'mask' && current && currentUrl ? (
+          <div className="flex flex-col gap-2">
+            <MaskCanvas
+              imageUrl={currentUrl}
+              width={current.width}
+              height={current.height}
+              maskRef={maskRef}
+              onChange={setHasMask}
+              disabled={isLoading}
+            />
+            <label className="text-sm text-neutral-400 hover:text-brand-light cursor-pointer">
+              Upload a different image
+              <input type="file" accept="image/*" onChange={handleImageUpload} className="hidden" disabled={isLoading} />
+            </label>
+          </div>
+        ) : (
+          <div className="w-full aspect-square bg-brand-gray border-dashed border-2 border-neutral-700 rounded-lg flex items-center justify-center relative overflow-hidden">
+            {currentUrl ? (
+              <img src={currentUrl} alt="Current" className="w-full h-full object-contain" />
+            ) : (
+              <span className="text-neutral-500">Upload Original Image</span>
+            )}
+            <input type="file" accept="image/*" onChange={handleImageUpload} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer" disabled={isLoading} />
+          </div>
+        )}
         <div className="w-full aspect-square bg-brand-gray rounded-lg flex items-center justify-center border border-neutral-700 overflow-hidden">
           {isLoading && <div className="flex flex-col items-center gap-2 text-neutral-400"><Spinner /><p>Editing your image...</p></div>}
-          {!isLoading && editedImageUrl && <img src={editedImageUrl} alt="Edited" className="w-full h-full object-contain animate-fade-in" />}
-          {!isLoading && !editedImageUrl && <p className="text-neutral-500">Your edited image will appear here</p>}
+          {!isLoading && parent && currentUrl && (
+            <BeforeAfter beforeUrl={toDataUrl(parent.image)} afterUrl={currentUrl} mode={compareMode} />
+          )}
+          {!isLoading && !parent && <p className="text-neutral-500">Your edited image will appear here</p>}
         </div>
       </div>
-      
+
+      {current && (
+        <div className="flex flex-wrap items-center gap-2">
+          <button onClick={history.undo} disabled={isLoading || !history.canUndo} className="px-4 py-2 text-sm rounded-full bg-brand-gray text-brand-light hover:bg-neutral-700 disabled:text-neutral-500 disabled:cursor-not-allowed">
+            Undo
+          </button>
+          <button onClick={history.redo} disabled={isLoading || !history.canRedo} className="px-4 py-2 text-sm rounded-full bg-brand-gray text-brand-light hover:bg-neutral-700 disabled:text-neutral-500 disabled:cursor-not-allowed">
+            Redo
+          </button>
+          <SendToMenu
+            source={GeneratorMode.EDIT_IMAGE}
+            getImage={() => ({ blob: base64ToBlob(current.image.data, current.image.mimeType), mimeType: current.image.mimeType, prompt: current.prompt })}
+            disabled={isLoading}
+            className="px-3 py-2 text-sm rounded-full bg-brand-gray text-brand-light hover:bg-neutral-700"
+          />
+          <div className="ml-auto flex gap-2">
+            {COMPARE_MODES.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => setCompareMode(value)}
+                className={`px-4 py-2 text-sm font-medium rounded-full transition-colors duration-300 ${compareMode === value ? 'bg-brand-accent text-brand-dark' : 'bg-brand-gray text-brand-light hover:bg-neutral-700'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className="flex flex-col gap-4">
+        <PromptLibrary mode={GeneratorMode.EDIT_IMAGE} currentPrompt={prompt} onInsert={setPrompt} disabled={isLoading} />
         <textarea
           value={prompt}
           onChange={(e) => setPrompt(e.target.value)}
@@ -110,16 +260,38 @@ const ImageEditor: React.FC = () => {
         />
         <button
           onClick={handleGenerate}
-          disabled={isLoading || !prompt || !originalImage}
+          disabled={isLoading || !prompt || !current || (editMode === 'mask' && !hasMask)}
           className="w-full flex justify-center items-center gap-2 bg-brand-accent text-brand-dark font-semibold py-3 px-4 rounded-lg transition-all duration-300 hover:bg-neutral-300 disabled:bg-brand-gray disabled:text-neutral-500 disabled:cursor-not-allowed focus:outline-none focus-visible:ring-2 focus-visible:ring-brand-accent focus-visible:ring-offset-2 focus-visible:ring-offset-black"
         >
-          {isLoading ? <><Spinner /> Editing...</> : 'Edit Image'}
+          {isLoading ? <><Spinner /> Editing...</> : editMode === 'outpaint' ? 'Outpaint Image' : 'Edit Image'}
         </button>
       </div>
 
       {error && <p className="text-red-400 text-center">{error}</p>}
+
+      {historyRows.length > 1 && (
+        <div className="flex flex-col gap-2">
+          <h3 className="font-semibold text-brand-accent">History</h3>
+          <p className="text-sm text-neutral-500">Select any step to continue editing from it. New edits from an earlier step start a new branch.</p>
+          <ul className="flex flex-col gap-1">
+            {historyRows.map(({ step, depth }) => (
+              <li key={step.id} style={{ paddingLeft: `${depth * 1.25}rem` }}>
+                <button
+                  onClick={() => history.select(step.id)}
+                  disabled={isLoading}
+                  className={`w-full flex items-center gap-3 p-2 rounded-lg text-left text-sm transition-colors ${step.id === current?.id ? 'bg-neutral-700 text-brand-light' : 'text-neutral-300 hover:bg-brand-gray'}`}
+                >
+                  <img src={toDataUrl(step.image)} alt="" className="h-12 w-12 shrink-0 rounded object-cover" />
+                  <span className="truncate" title={step.prompt}>{step.prompt}</span>
+                  <span className="ml-auto shrink-0 text-xs text-neutral-500">{new Date(step.createdAt).toLocaleTimeString()}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
     </div>
   );
 };
 
-export default ImageEditor;
\ No newline at end of file
+export default ImageEditor;
@@ -1,54 +1,171 @@
 import React, { useState, useCallback } from 'react';
-import { GoogleGenAI } from '@google/genai';
 import Spinner from './Spinner';
+import PromptLibrary from './PromptLibrary';
+import SendToMenu from './SendToMenu';
+import { GeneratorMode } from '../types';
+import { usePersistentState } from '../hooks/usePersistentState';
+import { recordAsset } from '../services/assetStore';
+import {
+  generateImages,
+  generateVariation,
+  ImageAspectRatio as AspectRatio,
+  InlineData,
+  MAX_IMAGE_CANDIDATES,
+  MODELS,
+} from '../services/gemini';
+import { base64ToBlob, downloadBlob } from '../utils/media';
+import { createZip, ZipEntry } from '../utils/zip';
 
-type AspectRatio = "1:1" | "16:9" | "9:16" | "4:3" | "3:4";
 const ASPECT_RATIOS: AspectRatio[] = ["1:1", "16:9", "9:16", "4:3", "3:4"];
+const CANDIDATE_COUNTS = Array.from({ length: MAX_IMAGE_CANDIDATES }, (_, i) => i + 1);
+
+interface Candidate {
+  id: string;
+  image: InlineData;
+  isFavorite: boolean;
+}
+
+interface BatchItem {
+  id: string;
+  prompt: string;
+  aspectRatio: AspectRatio;
+  status: 'queued' | 'generating' | 'done' | 'error';
+  candidates: Candidate[];
+  // Set when the item holds variations of an earlier candidate.
+  isVariation?: boolean;
+}
+
+const toDataUrl = (image: InlineData) => `data:${image.mimeType};base64,${image.data}`;
+
+const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || 'image';
 
 const ImageGenerator: React.FC = () => {
-  const [prompt, setPrompt] = useState<string>('');
-  const [aspectRatio, setAspectRatio] = useState<AspectRatio>('1:1');
-  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [prompt, setPrompt] = usePersistentState<string>('image.prompt', '');
+  const [aspectRatio, setAspectRatio] = usePersistentState<AspectRatio>('image.aspectRatio', '1:1');
+  const [candidateCount, setCandidateCount] = usePersistentState<number>('image.candidateCount', 1);
+  const [queue, setQueue] = usePersistentState<string[]>('image.queue', []);
+  const [results, setResults] = useState<BatchItem[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
 
+  const updateItem = (id: string, changes: Partial<BatchItem>) => {
+    setResults(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+  };
+
+  const saveCandidates = (images: InlineData[], item: BatchItem, model: string): Candidate[] =>
+    images.map(image => {
+      recordAsset({
+        kind: 'image',
+        mode: GeneratorMode.IMAGE,
+        blob: base64ToBlob(image.data, image.mimeType),
+        mimeType: image.mimeType,
+        prompt: item.prompt,
+        model,
+        aspectRatio: item.aspectRatio,
+      });
+      return { id: crypto.randomUUID(), image, isFavorite: false };
+    });
+
+  const handleAddToQueue = () => {
+    if (!prompt.trim()) return;
+    setQueue(prev => [...prev, prompt.trim()]);
+    setPrompt('');
+  };
+
   const handleGenerate = useCallback(async () => {
-    if (!prompt.trim()) {
+    const prompts = queue.length > 0 ? queue : [prompt.trim()];
+    if (!prompts[0]) {
       setError('Please enter a prompt.');
       return;
     }
     setIsLoading(true);
     setError(null);
-    setImageUrl(null);
 
-    try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const response = await ai.models.generateImages({
-        model: 'imagen-4.0-generate-001',
-        prompt: prompt,
-        config: {
-          numberOfImages: 1,
-          outputMimeType: 'image/png',
-          aspectRatio: aspectRatio,
-        },
-      });
-      
-      const base64ImageBytes = response.generatedImages?.[0]?.image?.imageBytes;
-      if (base64ImageBytes) {
-        setImageUrl(`data:image/png;base64,${base64ImageBytes}`);
-      } else {
-        throw new Error('No image data received from the API.');
+    const items: BatchItem[] = prompts.map(p => ({
+      id: crypto.randomUUID(),
+      prompt: p,
+      aspectRatio,
+      status: 'queued',
+      candidates: [],
+    }));
+    setResults(prev => [...items, ...prev]);
+    setQueue([]);
+
+    let failures = 0;
+    for (const item of items) {
+      updateItem(item.id, { status: 'generating' });
+      try {
+        const images = await generateImages({ prompt: item.prompt, aspectRatio, numberOfImages: candidateCount });
+        updateItem(item.id, { status: 'done', candidates: saveCandidates(images, item, MODELS.image) });
+      } catch (e) {
+        console.error(e);
+        failures++;
+        updateItem(item.id, { status: 'error' });
       }
+    }
+
+    if (failures > 0) {
+      setError(`Failed to generate ${failures} of ${items.length} prompt${items.length > 1 ? 's' : ''}. Please check your API key and try again.`);
+    }
+    setIsLoading(false);
+  }, [prompt, queue, aspectRatio, candidateCount]);
+
+  const handleVary = useCallback(async (source: BatchItem, candidate: Candidate) => {
+    setIsLoading(true);
+    setError(null);
+    const item: BatchItem = {
+      id: crypto.randomUUID(),
+      prompt: source.prompt,
+      aspectRatio: source.aspectRatio,
+      status: 'generating',
+      candidates: [],
+      isVariation: true,
+    };
+    setResults(prev => [item, ...prev]);
+
+    try {
+      const images = await Promise.all(
+        Array.from({ length: candidateCount }, () => generateVariation(candidate.image, source.prompt)),
+      );
+      updateItem(item.id, { status: 'done', candidates: saveCandidates(images, item, MODELS.imageEdit) });
     } catch (e) {
       console.error(e);
-      setError('Failed to generate image. Please check your API key and try again.');
+      updateItem(item.id, { status: 'error' });
+      setError('Failed to generate variations. Please try again.');
     } finally {
       setIsLoading(false);
     }
-  }, [prompt, aspectRatio]);
-  
+  }, [candidateCount]);
+
+  const toggleFavorite = (itemId: string, candidateId: string) => {
+    setResults(prev => prev.map(item => item.id !== itemId ? item : {
+      ...item,
+      candidates: item.candidates.map(c => c.id === candidateId ? { ...c, isFavorite: !c.isFavorite } : c),
+    }));
+  };
+
+  const handleDownloadZip = async (favoritesOnly: boolean) => {
+    const entries: ZipEntry[] = [];
+    results.forEach((item, itemIndex) => {
+      item.candidates
+        .filter(candidate => !favoritesOnly || candidate.isFavorite)
+        .forEach((candidate, candidateIndex) => {
+          entries.push({
+            name: `${String(results.length - itemIndex).padStart(2, '0')}-${slugify(item.prompt)}${item.isVariation ? '-variation' : ''}/${candidateIndex + 1}.png`,
+            data: base64ToBlob(candidate.image.data, candidate.image.mimeType),
+          });
+        });
+    });
+    if (entries.length === 0) return;
+    downloadBlob(await createZip(entries), favoritesOnly ? 'favorite-images.zip' : 'generated-images.zip');
+  };
+
+  const totalCandidates = results.reduce((count, item) => count + item.candidates.length, 0);
+  const favoriteCount = results.reduce((count, item) => count + item.candidates.filter(c => c.isFavorite).length, 0);
+
   const AspectRatioButton: React.FC<{ratio: AspectRatio}> = ({ratio}) => (
-      <button 
+      <button
         onClick={() => setAspectRatio(ratio)}
         disabled={isLoading}
         className={`px-4 py-2 text-sm font-medium rounded-full transition-colors duration-300 focus:outline-none focus-visible:ring-2 focus-visible:ring-brand-accent focus-visible:ring-offset-2 focus-visible:ring-offset-brand-gray ${aspectRatio === ratio ? 'bg-brand-accent text-brand-dark' : 'bg-brand-gray text-brand-light hover:bg-neutral-700'}`}
@@ -61,10 +178,11 @@ const ImageGenerator: React.FC = () => {
     <div className="flex flex-col gap-6 animate-fade-in">
       <div>
         <h2 className="text-2xl font-bold text-brand-accent">Image Generation (Imagen 4)</h2>
-        <p className="text-neutral-400 mt-1">Describe the image you want to create with our most powerful model.</p>
+        <p className="text-neutral-400 mt-1">Describe the image you want to create with our most powerful model. Queue several prompts to run them as a batch.</p>
       </div>
 
       <div className="flex flex-col gap-4">
+        <PromptLibrary mode={GeneratorMode.IMAGE} currentPrompt={prompt} onInsert={setPrompt} disabled={isLoading} />
         <textarea
           value={prompt}
           onChange={(e) => setPrompt(e.target.value)}
@@ -73,49 +191,157 @@ const ImageGenerator: React.FC = () => {
           rows={3}
           disabled={isLoading}
         />
+        {queue.length > 0 && (
+          <div className="flex flex-col gap-2">
+            <label className="text-sm font-medium text-neutral-400">Batch Queue ({queue.length})</label>
+            <ul className="flex flex-col gap-2">
+              {queue.map((queued, index) => (
+                <li key={index} className="flex items-center gap-3 p-2 pl-3 bg-brand-gray border border-neutral-700 rounded-lg text-sm text-neutral-300">
+                  <span className="flex-grow truncate">{queued}</span>
+                  <button
+                    onClick={() => setQueue(prev => prev.filter((_, i) => i !== index))}
+                    disabled={isLoading}
+                    className="text-neutral-500 hover:text-red-400 px-2"
+                    aria-label="Remove from batch"
+                  >
+                    ✕
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
         <div className="flex flex-col gap-3">
             <label className="text-sm font-medium text-neutral-400">Aspect Ratio</label>
             <div className="flex flex-wrap gap-2">
                 {ASPECT_RATIOS.map(r => <AspectRatioButton key={r} ratio={r} />)}
             </div>
         </div>
-        <button
-          onClick={handleGenerate}
-          disabled={isLoading || !prompt}
-          className="w-full flex justify-center items-center gap-2 bg-brand-accent text-brand-dark font-semibold py-3 px-4 rounded-lg transition-all duration-300 hover:bg-neutral-300 disabled:bg-brand-gray disabled:text-neutral-500 disabled:cursor-not-allowed focus:outline-none focus-visible:ring-2 focus-visible:ring-brand-accent focus-visible:ring-offset-2 focus-visible:ring-offset-black"
-        >
-          {isLoading ? (
-            <>
-              <Spinner /> Generating...
-            </>
-          ) : (
-            'Generate Image'
-          )}
-        </button>
+        <div className="flex flex-col gap-3">
+            <label className="text-sm font-medium text-neutral-400">Candidates per Prompt</label>
+            <div className="flex flex-wrap gap-2">
+                {CANDIDATE_COUNTS.map(count => (
+                  <button
+                    key={count}
+                    onClick={() => setCandidateCount(count)}
+                    disabled={isLoading}
+                    className={`w-10 py-2 text-sm font-medium rounded-full transition-colors duration-300 ${candidateCount === count ? 'bg-brand-accent text-brand-dark' : 'bg-brand-gray text-brand-light hover:bg-neutral-700'}`}
+                  >
+                    {count}
+                  </button>
+                ))}
+            </div>
+        </div>
+        <div className="flex flex-col sm:flex-row gap-3">
+          <button
+            onClick={handleAddToQueue}
+            disabled={isLoading || !prompt.trim()}
+            className="sm:w-48 flex justify-center items-center gap-2 bg-brand-gray text-brand-light font-semibold py-3 px-4 rounded-lg border border-neutral-700 transition-colors duration-300 hover:bg-neutral-700 disabled:text-neutral-500 disabled:cursor-not-allowed"
+          >
+            Add to Batch
+          </button>
+          <button
+            onClick={handleGenerate}
+            disabled={isLoading || (!prompt.trim() && queue.length === 0)}
+            className="flex-grow flex justify-center items-center gap-2 bg-brand-accent text-brand-dark font-semibold py-3 px-4 rounded-lg transition-all duration-300 hover:bg-neutral-300 disabled:bg-brand-gray disabled:text-neutral-500 disabled:cursor-not-allowed focus:outline-none focus-visible:ring-2 focus-visible:ring-brand-accent focus-visible:ring-offset-2 focus-visible:ring-offset-black"
+          >
+            {isLoading ? (
+              <>
+                <Spinner /> Generating...
+              </>
+            ) : queue.length > 0 ? (
+              `Generate Batch (${queue.length})`
+            ) : (
+              'Generate Image'
+            )}
+          </button>
+        </div>
       </div>
 
       {error && <p className="text-red-400 text-center">{error}</p>}
 
-      <div className="w-full aspect-square bg-brand-gray rounded-lg flex items-center justify-center border border-neutral-700 overflow-hidden">
-        {isLoading && (
-          <div className="flex flex-col items-center gap-2 text-neutral-400">
-            <Spinner />
-            <p>Creating your vision...</p>
+      {results.length === 0 ? (
+        <div className="w-full aspect-square bg-brand-gray rounded-lg flex items-center justify-center border border-neutral-700 overflow-hidden">
+          <p className="text-neutral-500">Your generated images will appear here</p>
+        </div>
+      ) : (
+        <div className="flex flex-col gap-6">
+          <div className="flex flex-wrap justify-end gap-2">
+            <button
+              onClick={() => handleDownloadZip(true)}
+              disabled={favoriteCount === 0}
+              className="px-4 py-2 text-sm font-medium rounded-full bg-brand-gray text-brand-light hover:bg-neutral-700 disabled:text-neutral-500 disabled:cursor-not-allowed"
+            >
+              Download Favorites ({favoriteCount})
+            </button>
+            <button
+              onClick={() => handleDownloadZip(false)}
+              disabled={totalCandidates === 0}
+              className="px-4 py-2 text-sm font-medium rounded-full bg-brand-accent text-brand-dark hover:bg-neutral-300 disabled:bg-brand-gray disabled:text-neutral-500 disabled:cursor-not-allowed"
+            >
+              Download All as Zip
+            </button>
           </div>
-        )}
-        {!isLoading && imageUrl && (
-          <img
-            src={imageUrl}
-            alt="Generated AI"
-            className="w-full h-full object-contain animate-fade-in"
-          />
-        )}
-        {!isLoading && !imageUrl && (
-          <p className="text-neutral-500">Your generated image will appear here</p>
-        )}
-      </div>
+
+          {results.map(item => (
+            <div key={item.id} className="flex flex-col gap-3 animate-fade-in">
+              <p className="text-sm text-neutral-300">
+                {item.isVariation && <span className="text-brand-accent font-semibold">Variations · </span>}
+                {item.prompt} <span className="text-neutral-500">· {item.aspectRatio}</span>
+              </p>
+              <div className={`grid gap-3 ${item.aspectRatio === '16:9' || item.aspectRatio === '4:3' ? 'grid-cols-1 sm:grid-cols-2' : 'grid-cols-2 md:grid-cols-4'}`}>
+                {item.status !== 'done' && (
+                  <div
+                    style={{ aspectRatio: item.aspectRatio.replace(':', ' / ') }}
+                    className="bg-brand-gray rounded-lg flex items-center justify-center border border-neutral-700"
+                  >
+                    {item.status === 'generating' && <div className="flex flex-col items-center gap-2 text-neutral-400"><Spinner /><p className="text-sm">Creating your vision...</p></div>}
+                    {item.status === 'queued' && <p className="text-sm text-neutral-500">Queued</p>}
+                    {item.status === 'error' && <p className="text-sm text-red-400">Generation failed</p>}
+                  </div>
+                )}
+                {item.candidates.map(candidate => (
+                  <div
+                    key={candidate.id}
+                    style={{ aspectRatio: item.aspectRatio.replace(':', ' / ') }}
+                    className={`group relative bg-brand-gray rounded-lg overflow-hidden border ${candidate.isFavorite ? 'border-yellow-400' : 'border-neutral-700'}`}
+                  >
+                    <img src={toDataUrl(candidate.image)} alt={item.prompt} className="w-full h-full object-contain animate-fade-in" />
+                    <button
+                      onClick={() => toggleFavorite(item.id, candidate.id)}
+                      className={`absolute top-2 right-2 w-8 h-8 rounded-full bg-black/60 text-lg leading-none ${candidate.isFavorite ? 'text-yellow-400' : 'text-neutral-300 hover:text-yellow-400'}`}
+                      aria-label={candidate.isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+                    >
+                      {candidate.isFavorite ? '★' : '☆'}
+                    </button>
+                    <div className="absolute inset-x-0 bottom-0 p-2 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity bg-gradient-to-t from-black/80">
+                      <button
+                        onClick={() => handleVary(item, candidate)}
+                        disabled={isLoading}
+                        className="flex-grow text-xs font-semibold py-1.5 rounded-md bg-brand-accent text-brand-dark hover:bg-neutral-300 disabled:bg-brand-gray disabled:text-neutral-500"
+                      >
+                        Variations
+                      </button>
+                      <button
+                        onClick={() => downloadBlob(base64ToBlob(candidate.image.data, candidate.image.mimeType), `${slugify(item.prompt)}.png`)}
+                        className="text-xs font-semibold py-1.5 px-3 rounded-md bg-neutral-700 text-brand-light hover:bg-neutral-600"
+                      >
+                        Download
+                      </button>
+                      <SendToMenu
+                        source={GeneratorMode.IMAGE}
+                        getImage={() => ({ blob: base64ToBlob(candidate.image.data, candidate.image.mimeType), mimeType: candidate.image.mimeType, prompt: item.prompt })}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
 
-export default ImageGenerator;
\ No newline at end of file
+export default ImageGenerator;
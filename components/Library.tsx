@@ -0,0 +1,181 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { Asset, AssetKind, GeneratorMode } from '../types';
+import { deleteAsset, listAssets, subscribeToAssets } from '../services/assetStore';
+import { downloadBlob, extensionForMimeType } from '../utils/media';
+import Spinner from './Spinner';
+import ProjectPanel from './ProjectPanel';
+import SendToMenu from './SendToMenu';
+
+type KindFilter = AssetKind | 'all';
+const KIND_FILTERS: { value: KindFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'image', label: 'Images' },
+  { value: 'video', label: 'Videos' },
+  { value: 'audio', label: 'Audio' },
+];
+
+const MODE_LABELS: Partial<Record<GeneratorMode, string>> = {
+  [GeneratorMode.IMAGE]: 'Generate Image',
+  [GeneratorMode.EDIT_IMAGE]: 'Edit Image',
+  [GeneratorMode.VIDEO]: 'Generate Video',
+  [GeneratorMode.CHARACTER]: 'Character Studio',
+  [GeneratorMode.TTS]: 'Text-to-Speech',
+  [GeneratorMode.LIVE_CHAT]: 'Live Chat',
+};
+
+const assetFilename = (asset: Asset) =>
+  `${asset.kind}-${new Date(asset.createdAt).toISOString().replace(/[:.]/g, '-')}.${extensionForMimeType(asset.mimeType)}`;
+
+const Library: React.FC = () => {
+  const [assets, setAssets] = useState<Asset[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [kindFilter, setKindFilter] = useState<KindFilter>('all');
+  const [modeFilter, setModeFilter] = useState<GeneratorMode | 'all'>('all');
+  const [search, setSearch] = useState<string>('');
+
+  const loadAssets = useCallback(async () => {
+    try {
+      setAssets(await listAssets());
+      setError(null);
+    } catch (e) {
+      console.error(e);
+      setError('Failed to load the asset library.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAssets();
+    return subscribeToAssets(loadAssets);
+  }, [loadAssets]);
+
+  const filteredAssets = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return assets.filter(asset =>
+      (kindFilter === 'all' || asset.kind === kindFilter) &&
+      (modeFilter === 'all' || asset.mode === modeFilter) &&
+      (!query || asset.prompt.toLowerCase().includes(query) || asset.model.toLowerCase().includes(query))
+    );
+  }, [assets, kindFilter, modeFilter, search]);
+
+  // Object URLs are created per render of the list and released when it changes.
+  const assetUrls = useMemo(() => {
+    const urls = new Map<string, string>();
+    filteredAssets.forEach(asset => urls.set(asset.id, URL.createObjectURL(asset.blob)));
+    return urls;
+  }, [filteredAssets]);
+
+  useEffect(() => {
+    return () => assetUrls.forEach(url => URL.revokeObjectURL(url));
+  }, [assetUrls]);
+
+  const handleDelete = async (asset: Asset) => {
+    if (!window.confirm('Delete this asset from your library?')) return;
+    try {
+      await deleteAsset(asset.id);
+    } catch (e) {
+      console.error(e);
+      setError('Failed to delete the asset.');
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-6 animate-fade-in">
+      <div>
+        <h2 className="text-2xl font-bold text-brand-accent">Library</h2>
+        <p className="text-neutral-400 mt-1">Every image, video and audio clip you generate is saved here on this device.</p>
+      </div>
+
+      <ProjectPanel />
+
+      <div className="flex flex-col gap-3">
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search by prompt or model..."
+          className="w-full p-3 bg-brand-gray border border-neutral-700 rounded-lg text-brand-light placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-brand-accent transition-shadow duration-300"
+        />
+        <div className="flex flex-wrap items-center gap-2">
+          {KIND_FILTERS.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => setKindFilter(value)}
+              className={`px-4 py-2 text-sm font-medium rounded-full transition-colors duration-300 ${kindFilter === value ? 'bg-brand-accent text-brand-dark' : 'bg-brand-gray text-brand-light hover:bg-neutral-700'}`}
+            >
+              {label}
+            </button>
+          ))}
+          <select
+            value={modeFilter}
+            onChange={(e) => setModeFilter(e.target.value as GeneratorMode | 'all')}
+            className="ml-auto px-3 py-2 text-sm bg-brand-gray border border-neutral-700 rounded-full text-brand-light focus:outline-none focus:ring-2 focus:ring-brand-accent"
+          >
+            <option value="all">All modes</option>
+            {Object.entries(MODE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && <p className="text-red-400 text-center">{error}</p>}
+
+      {isLoading && <div className="flex justify-center text-neutral-400"><Spinner /></div>}
+      {!isLoading && filteredAssets.length === 0 && (
+        <div className="w-full p-8 bg-brand-gray rounded-lg border border-neutral-700 text-center">
+          <p className="text-neutral-500">{assets.length === 0 ? 'Nothing generated yet. Your creations will appear here.' : 'No assets match your filters.'}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {filteredAssets.map(asset => {
+          const url = assetUrls.get(asset.id);
+          return (
+            <div key={asset.id} className="bg-brand-gray rounded-lg border border-neutral-700 overflow-hidden flex flex-col">
+              <div className="aspect-video bg-black flex items-center justify-center">
+                {asset.kind === 'image' && <img src={url} alt={asset.prompt} className="w-full h-full object-contain" />}
+                {asset.kind === 'video' && <video src={url} controls className="w-full h-full object-contain" />}
+                {asset.kind === 'audio' && <audio src={url} controls className="w-11/12" />}
+              </div>
+              <div className="p-3 flex flex-col gap-2 flex-grow">
+                <p className="text-sm text-neutral-300 line-clamp-3" title={asset.prompt}>{asset.prompt || <span className="text-neutral-500">No prompt</span>}</p>
+                <p className="text-xs text-neutral-500">
+                  {MODE_LABELS[asset.mode] ?? asset.mode} · {asset.model}
+                  {asset.aspectRatio && ` · ${asset.aspectRatio}`}
+                  {asset.metadata?.voice && ` · ${asset.metadata.voice}`}
+                </p>
+                <p className="text-xs text-neutral-500">{new Date(asset.createdAt).toLocaleString()}</p>
+                <div className="flex gap-2 mt-auto pt-2">
+                  <button
+                    onClick={() => downloadBlob(asset.blob, assetFilename(asset))}
+                    className="flex-grow bg-brand-accent text-brand-dark text-sm font-semibold py-2 px-3 rounded-lg transition-colors hover:bg-neutral-300"
+                  >
+                    Download
+                  </button>
+                  {asset.kind === 'image' && (
+                    <SendToMenu
+                      source={GeneratorMode.LIBRARY}
+                      getImage={() => ({ blob: asset.blob, mimeType: asset.mimeType, prompt: asset.prompt })}
+                      className="text-sm font-semibold py-2 px-2 rounded-lg bg-neutral-700 text-brand-light transition-colors hover:bg-neutral-600"
+                    />
+                  )}
+                  <button
+                    onClick={() => handleDelete(asset)}
+                    className="text-sm font-semibold py-2 px-3 rounded-lg bg-neutral-700 text-brand-light transition-colors hover:bg-red-500 hover:text-brand-dark"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default Library;
@@ -1,83 +1,170 @@
 import React, { useState, useRef, useCallback, useEffect } from 'react';
-// FIX: Removed LiveSession as it is not an exported member.
-import { GoogleGenAI, LiveServerMessage, Modality, Blob as GenAIBlob } from '@google/genai';
+import { FunctionCall, LiveServerMessage, Modality, Session } from '@google/genai';
 import Spinner from './Spinner';
+import LiveChatSettings from './LiveChatSettings';
+import LiveSessionList from './LiveSessionList';
+import LiveTurnView from './LiveTurnView';
+import MicrophoneControls from './MicrophoneControls';
+import { GeneratorMode, LiveSession, LiveTurn } from '../types';
+import { usePersistentState } from '../hooks/usePersistentState';
+import { saveAsset } from '../services/assetStore';
+import { connectLive, MODELS, VoiceName } from '../services/gemini';
+import { listLiveSessions, saveLiveSession, subscribeToLiveSessions } from '../services/liveSessionStore';
+import { LIVE_FUNCTION_DECLARATIONS, runLiveTool } from '../services/liveTools';
+import { decode, decodeAudioData } from '../utils/audio';
+import { AudioCapture, startAudioCapture } from '../utils/audioCapture';
+import { MediaStreamRecording, recordMediaStream } from '../utils/media';
 
-// Helper functions for audio processing, embedded directly
-function encode(bytes: Uint8Array) {
-  let binary = '';
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  return btoa(binary);
-}
-function decode(base64: string) {
-    const binaryString = atob(base64);
-    const len = binaryString.length;
-    const bytes = new Uint8Array(len);
-    for (let i = 0; i < len; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
-    }
-    return bytes;
-}
-async function decodeAudioData(data: Uint8Array, ctx: AudioContext, sampleRate: number, numChannels: number): Promise<AudioBuffer> {
-    const dataInt16 = new Int16Array(data.buffer);
-    const frameCount = dataInt16.length / numChannels;
-    const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-    for (let channel = 0; channel < numChannels; channel++) {
-        const channelData = buffer.getChannelData(channel);
-        for (let i = 0; i < frameCount; i++) {
-            channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-        }
-    }
-    return buffer;
-}
-function createBlob(data: Float32Array): GenAIBlob {
-    const l = data.length;
-    const int16 = new Int16Array(l);
-    for (let i = 0; i < l; i++) {
-        int16[i] = data[i] * 32768;
-    }
-    return {
-        data: encode(new Uint8Array(int16.buffer)),
-        mimeType: 'audio/pcm;rate=16000',
-    };
+// A turn that is still being transcribed. `at` is when its first words arrived.
+interface PendingTurn {
+  text: string;
+  at: number;
 }
 
+const RECORDING_MIME_TYPE = 'audio/webm;codecs=opus';
+const TITLE_LENGTH = 60;
+
+const sessionTitle = (turns: LiveTurn[], startedAt: number): string => {
+  const firstLine = turns.find(turn => turn.role === 'user')?.text.trim();
+  if (!firstLine) return `Live session, ${new Date(startedAt).toLocaleString()}`;
+  return firstLine.length > TITLE_LENGTH ? `${firstLine.slice(0, TITLE_LENGTH)}…` : firstLine;
+};
 
 const LiveChat: React.FC = () => {
   const [isSessionActive, setIsSessionActive] = useState<boolean>(false);
+  const [isRecordingEnabled, setIsRecordingEnabled] = usePersistentState<boolean>('liveChat.record', false);
+  const [voice, setVoice] = usePersistentState<VoiceName>('liveChat.voice', 'Zephyr');
+  const [systemInstruction, setSystemInstruction] = usePersistentState<string>('liveChat.systemInstruction', '');
+  const [toolsEnabled, setToolsEnabled] = usePersistentState<boolean>('liveChat.tools', true);
+  const [deviceId, setDeviceId] = usePersistentState<string>('audioInput.deviceId', '');
+  const [skipSilence, setSkipSilence] = usePersistentState<boolean>('audioInput.skipSilence', true);
+  const [inputLevel, setInputLevel] = useState<number>(0);
+  const [isSpeaking, setIsSpeaking] = useState<boolean>(false);
+  const [showSettings, setShowSettings] = useState<boolean>(false);
+  const [runningTools, setRunningTools] = useState<number>(0);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
-  const [transcripts, setTranscripts] = useState<{user: string, model: string}[]>([]);
+  const [turns, setTurns] = useState<LiveTurn[]>([]);
   const [currentInput, setCurrentInput] = useState<string>('');
   const [currentOutput, setCurrentOutput] = useState<string>('');
-  
-  // FIX: Using `any` for session promise as `LiveSession` type is not exported.
-  const sessionPromiseRef = useRef<Promise<any> | null>(null);
-  const mediaStreamRef = useRef<MediaStream | null>(null);
-  const inputAudioContextRef = useRef<AudioContext | null>(null);
+  const [sessions, setSessions] = useState<LiveSession[]>([]);
+
+  const sessionPromiseRef = useRef<Promise<Session> | null>(null);
+  const captureRef = useRef<AudioCapture | null>(null);
   const outputAudioContextRef = useRef<AudioContext | null>(null);
-  const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
-  const mediaStreamSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
   const nextStartTimeRef = useRef<number>(0);
   const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
+  // Transcript state lives in refs as well, since the socket callbacks and
+  // the save on stop outlive any one render.
+  const startedAtRef = useRef<number>(0);
+  const turnsRef = useRef<LiveTurn[]>([]);
+  const pendingInputRef = useRef<PendingTurn | null>(null);
+  const pendingOutputRef = useRef<PendingTurn | null>(null);
+  const recordingRef = useRef<MediaStreamRecording | null>(null);
+  const recordingDestinationRef = useRef<MediaStreamAudioDestinationNode | null>(null);
+  const sessionSettingsRef = useRef<Pick<LiveSession, 'voice' | 'systemInstruction'>>({});
+  // Tool calls still running, which the save on stop waits for.
+  const toolCallsRef = useRef<Set<Promise<void>>>(new Set());
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setSessions(await listLiveSessions());
+    } catch (e) {
+      console.error(e);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+    return subscribeToLiveSessions(loadSessions);
+  }, [loadSessions]);
+
+  const elapsed = () => Date.now() - startedAtRef.current;
+
+  const appendTurns = (added: LiveTurn[]) => {
+    if (added.length === 0) return;
+    turnsRef.current = [...turnsRef.current, ...added];
+    setTurns(turnsRef.current);
+  };
+
+  // Moves the transcribed input and output into the finished turns.
+  const commitPendingTurns = () => {
+    const completed: LiveTurn[] = [];
+    if (pendingInputRef.current?.text.trim()) completed.push({ role: 'user', ...pendingInputRef.current });
+    if (pendingOutputRef.current?.text.trim()) completed.push({ role: 'model', ...pendingOutputRef.current });
+    pendingInputRef.current = null;
+    pendingOutputRef.current = null;
+    setCurrentInput('');
+    setCurrentOutput('');
+    appendTurns(completed);
+  };
+
+  // Runs the app actions the model asked for, shows their results in the
+  // transcript and hands the outcome back to the model.
+  const handleToolCall = (functionCalls: FunctionCall[]) => {
+    const sessionPromise = sessionPromiseRef.current;
+    commitPendingTurns();
+    setRunningTools(count => count + functionCalls.length);
+    const toolCall = (async () => {
+      const outcomes = await Promise.all(functionCalls.map(async call => {
+        const outcome = await runLiveTool(call);
+        setRunningTools(count => count - 1);
+        return outcome;
+      }));
+      appendTurns(outcomes.map(({ text, assetId }) => ({ role: 'model', text, assetId, at: elapsed() })));
+      // Results that arrive after the session stopped are still saved with it,
+      // but there is no model left to hear them.
+      if (sessionPromise !== sessionPromiseRef.current) return;
+      sessionPromise?.then(session => {
+        session.sendToolResponse({ functionResponses: outcomes.map(outcome => outcome.response) });
+      });
+    })();
+    toolCallsRef.current.add(toolCall);
+    toolCall.finally(() => toolCallsRef.current.delete(toolCall));
+  };
+
+  // Saves the finished session. The recording goes to the library as an asset.
+  const persistSession = async (audioPromise: Promise<Blob> | undefined, durationMs: number) => {
+    await Promise.allSettled(toolCallsRef.current);
+    const sessionTurns = turnsRef.current;
+    const audio = await audioPromise;
+    if (sessionTurns.length === 0 && !audio?.size) return;
+    const id = crypto.randomUUID();
+    const title = sessionTitle(sessionTurns, startedAtRef.current);
+    const asset = audio?.size
+      ? await saveAsset({
+          kind: 'audio',
+          mode: GeneratorMode.LIVE_CHAT,
+          blob: audio,
+          mimeType: audio.type,
+          prompt: title,
+          model: MODELS.live,
+          metadata: { sessionId: id },
+        })
+      : undefined;
+    await saveLiveSession({
+      id,
+      title,
+      turns: sessionTurns,
+      durationMs,
+      ...sessionSettingsRef.current,
+      audioAssetId: asset?.id,
+      createdAt: startedAtRef.current,
+    });
+  };
 
   const stopSession = useCallback(() => {
+    const wasActive = sessionPromiseRef.current !== null;
+    // Stop the recorder before its audio graph is torn down.
+    const audioPromise = recordingRef.current?.stop();
+    recordingRef.current = null;
+    recordingDestinationRef.current = null;
+
     sessionPromiseRef.current?.then(session => session.close());
     sessionPromiseRef.current = null;
     
-    mediaStreamRef.current?.getTracks().forEach(track => track.stop());
-    mediaStreamRef.current = null;
-    
-    scriptProcessorRef.current?.disconnect();
-    scriptProcessorRef.current = null;
-
-    mediaStreamSourceRef.current?.disconnect();
-    mediaStreamSourceRef.current = null;
-    
-    inputAudioContextRef.current?.close();
-    inputAudioContextRef.current = null;
+    captureRef.current?.stop();
+    captureRef.current = null;
     
     outputAudioContextRef.current?.close();
     outputAudioContextRef.current = null;
@@ -85,52 +172,76 @@ const LiveChat: React.FC = () => {
     sourcesRef.current.forEach(source => source.stop());
     sourcesRef.current.clear();
     nextStartTimeRef.current = 0;
+
+    if (wasActive) {
+      commitPendingTurns();
+      setIsSaving(true);
+      persistSession(audioPromise, elapsed())
+        .catch(e => {
+          console.error(e);
+          setError('Failed to save the session.');
+        })
+        .finally(() => setIsSaving(false));
+    }
     
     setIsSessionActive(false);
+    setInputLevel(0);
+    setIsSpeaking(false);
   }, []);
   
   const startSession = useCallback(async () => {
     setError(null);
-    setTranscripts([]);
+    setTurns([]);
     setCurrentInput('');
     setCurrentOutput('');
+    turnsRef.current = [];
+    pendingInputRef.current = null;
+    pendingOutputRef.current = null;
+    startedAtRef.current = Date.now();
+    sessionSettingsRef.current = { voice, systemInstruction: systemInstruction.trim() || undefined };
     setIsSessionActive(true);
 
     try {
-        const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-        mediaStreamRef.current = stream;
-
-        // FIX: Added type assertion to handle vendor-prefixed webkitAudioContext.
-        inputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
+        const capture = await startAudioCapture({
+            deviceId,
+            skipSilence,
+            onAudio: (chunk) => {
+                sessionPromiseRef.current?.then((session) => {
+                    session.sendRealtimeInput({ media: chunk });
+                });
+            },
+            onLevel: setInputLevel,
+            onSpeakingChange: (speaking) => {
+                setIsSpeaking(speaking);
+                // Lets the server finish the utterance while no audio is sent.
+                if (!speaking) sessionPromiseRef.current?.then(session => session.sendRealtimeInput({ audioStreamEnd: true }));
+            },
+        });
+        captureRef.current = capture;
         // FIX: Added type assertion to handle vendor-prefixed webkitAudioContext.
         outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
 
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        sessionPromiseRef.current = ai.live.connect({
-            model: 'gemini-2.5-flash-native-audio-preview-09-2025',
+        // Both sides are mixed in the output context: the microphone feeds the
+        // recording only, and model audio is routed to it as it plays.
+        if (isRecordingEnabled) {
+            const destination = outputAudioContextRef.current.createMediaStreamDestination();
+            outputAudioContextRef.current.createMediaStreamSource(capture.stream).connect(destination);
+            recordingDestinationRef.current = destination;
+            recordingRef.current = recordMediaStream(destination.stream, RECORDING_MIME_TYPE);
+        }
+
+        sessionPromiseRef.current = connectLive({
             config: {
                 responseModalities: [Modality.AUDIO],
                 inputAudioTranscription: {},
                 outputAudioTranscription: {},
+                speechConfig: {
+                    voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } },
+                },
+                ...(systemInstruction.trim() ? { systemInstruction } : {}),
+                ...(toolsEnabled ? { tools: [{ functionDeclarations: LIVE_FUNCTION_DECLARATIONS }] } : {}),
             },
             callbacks: {
-                onopen: () => {
-                    const source = inputAudioContextRef.current!.createMediaStreamSource(stream);
-                    mediaStreamSourceRef.current = source;
-
-                    const scriptProcessor = inputAudioContextRef.current!.createScriptProcessor(4096, 1, 1);
-                    scriptProcessorRef.current = scriptProcessor;
-                    
-                    scriptProcessor.onaudioprocess = (audioProcessingEvent) => {
-                        const inputData = audioProcessingEvent.inputBuffer.getChannelData(0);
-                        const pcmBlob = createBlob(inputData);
-                        sessionPromiseRef.current?.then((session) => {
-                            session.sendRealtimeInput({ media: pcmBlob });
-                        });
-                    };
-                    source.connect(scriptProcessor);
-                    scriptProcessor.connect(inputAudioContextRef.current!.destination);
-                },
                 onmessage: async (message: LiveServerMessage) => {
                     // Handle audio playback
                     const audioData = message.serverContent?.modelTurn?.parts[0]?.inlineData.data;
@@ -141,6 +252,7 @@ const LiveChat: React.FC = () => {
                         const source = outCtx.createBufferSource();
                         source.buffer = audioBuffer;
                         source.connect(outCtx.destination);
+                        if (recordingDestinationRef.current) source.connect(recordingDestinationRef.current);
                         source.addEventListener('ended', () => { sourcesRef.current.delete(source); });
                         source.start(nextStartTimeRef.current);
                         nextStartTimeRef.current += audioBuffer.duration;
@@ -153,16 +265,23 @@ const LiveChat: React.FC = () => {
                     }
 
                     // Handle transcriptions
-                    if(message.serverContent?.inputTranscription) {
-                        setCurrentInput(prev => prev + message.serverContent.inputTranscription.text);
+                    const inputText = message.serverContent?.inputTranscription?.text;
+                    if (inputText) {
+                        const pending = pendingInputRef.current;
+                        pendingInputRef.current = { text: (pending?.text ?? '') + inputText, at: pending?.at ?? elapsed() };
+                        setCurrentInput(pendingInputRef.current.text);
                     }
-                    if(message.serverContent?.outputTranscription) {
-                        setCurrentOutput(prev => prev + message.serverContent.outputTranscription.text);
+                    const outputText = message.serverContent?.outputTranscription?.text;
+                    if (outputText) {
+                        const pending = pendingOutputRef.current;
+                        pendingOutputRef.current = { text: (pending?.text ?? '') + outputText, at: pending?.at ?? elapsed() };
+                        setCurrentOutput(pendingOutputRef.current.text);
                     }
-                    if(message.serverContent?.turnComplete) {
-                        setTranscripts(prev => [...prev, {user: currentInput, model: currentOutput}]);
-                        setCurrentInput('');
-                        setCurrentOutput('');
+                    if (message.serverContent?.turnComplete) {
+                        commitPendingTurns();
+                    }
+                    if (message.toolCall?.functionCalls?.length) {
+                        handleToolCall(message.toolCall.functionCalls);
                     }
                 },
                 onerror: (e: ErrorEvent) => { setError(`Session error: ${e.message}`); stopSession(); },
@@ -171,9 +290,9 @@ const LiveChat: React.FC = () => {
         });
     } catch (e: any) {
         setError(`Failed to start session: ${e.message}`);
-        setIsSessionActive(false);
+        stopSession();
     }
-  }, [stopSession, currentInput, currentOutput]);
+  }, [stopSession, isRecordingEnabled, voice, systemInstruction, toolsEnabled, deviceId, skipSilence]);
 
   useEffect(() => {
     return () => {
@@ -186,38 +305,79 @@ const LiveChat: React.FC = () => {
     <div className="flex flex-col gap-6 animate-fade-in">
       <div>
         <h2 className="text-2xl font-bold text-brand-accent">Live Chat</h2>
-        <p className="text-neutral-400 mt-1">Have a real-time voice conversation with Gemini.</p>
+        <p className="text-neutral-400 mt-1">Have a real-time voice conversation with Gemini. Transcripts are saved when you stop, and you can record the audio too.</p>
       </div>
 
       <div className="flex flex-col items-center gap-4">
         <button
           onClick={isSessionActive ? stopSession : startSession}
-          className={`w-full max-w-sm flex justify-center items-center gap-2 font-semibold py-3 px-4 rounded-lg transition-all duration-300 ${isSessionActive ? 'bg-red-500 hover:bg-red-600' : 'bg-brand-accent hover:bg-neutral-300'} text-brand-dark focus:outline-none focus-visible:ring-2 focus-visible:ring-brand-accent focus-visible:ring-offset-2 focus-visible:ring-offset-black`}
+          disabled={isSaving}
+          className={`w-full max-w-sm flex justify-center items-center gap-2 font-semibold py-3 px-4 rounded-lg transition-all duration-300 ${isSessionActive ? 'bg-red-500 hover:bg-red-600' : 'bg-brand-accent hover:bg-neutral-300'} text-brand-dark disabled:bg-brand-gray disabled:text-neutral-500 disabled:cursor-not-allowed focus:outline-none focus-visible:ring-2 focus-visible:ring-brand-accent focus-visible:ring-offset-2 focus-visible:ring-offset-black`}
+        >
+          {isSaving ? <><Spinner /> Saving Session...</> : isSessionActive ? 'Stop Session' : 'Start Conversation'}
+        </button>
+        <label className="flex items-center gap-2 text-sm text-neutral-400">
+          <input
+            type="checkbox"
+            checked={isRecordingEnabled}
+            onChange={(e) => setIsRecordingEnabled(e.target.checked)}
+            disabled={isSessionActive}
+            className="accent-white"
+          />
+          Record audio of both sides
+        </label>
+        <MicrophoneControls
+          deviceId={deviceId}
+          onDeviceChange={setDeviceId}
+          skipSilence={skipSilence}
+          onSkipSilenceChange={setSkipSilence}
+          level={inputLevel}
+          isCapturing={isSessionActive}
+          isSpeaking={isSpeaking}
+        />
+        <button
+          onClick={() => setShowSettings(show => !show)}
+          className="px-3 py-1 text-sm rounded-full bg-brand-gray text-neutral-300 hover:bg-neutral-700"
         >
-          {isSessionActive ? 'Stop Session' : 'Start Conversation'}
+          {showSettings ? 'Hide Settings' : `Settings · ${voice}`}
         </button>
-        {isSessionActive && <div className="flex items-center gap-2 text-green-400"><Spinner/> Listening...</div>}
+        {isSessionActive && (
+          <div className="flex items-center gap-2 text-green-400">
+            <Spinner/> Listening...
+            {isRecordingEnabled && <span className="flex items-center gap-1 text-red-400"><span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" /> Recording</span>}
+          </div>
+        )}
       </div>
 
+      {showSettings && (
+        <LiveChatSettings
+          voice={voice}
+          onVoiceChange={setVoice}
+          systemInstruction={systemInstruction}
+          onSystemInstructionChange={setSystemInstruction}
+          toolsEnabled={toolsEnabled}
+          onToolsEnabledChange={setToolsEnabled}
+          disabled={isSessionActive}
+        />
+      )}
+
       {error && <p className="text-red-400 text-center">{error}</p>}
       
-      <div className="w-full p-4 bg-brand-gray rounded-lg border border-neutral-700 min-h-[300px] flex flex-col gap-4">
-        {transcripts.map((t, i) => (
-            <div key={i} className="flex flex-col gap-2">
-                <p><strong className="text-brand-accent">You:</strong> {t.user}</p>
-                <p><strong className="text-brand-light">Gemini:</strong> {t.model}</p>
-            </div>
-        ))}
+      <div className="w-full p-4 bg-brand-gray rounded-lg border border-neutral-700 min-h-[300px] flex flex-col gap-2">
+        {turns.map((turn, i) => <LiveTurnView key={i} turn={turn} />)}
+        {runningTools > 0 && <p className="flex items-center gap-2 text-neutral-400"><Spinner /> Generating image...</p>}
         {isSessionActive && (
             <div className="flex flex-col gap-2">
                 {currentInput && <p className="text-neutral-400"><strong className="text-brand-accent">You:</strong> {currentInput}</p>}
                 {currentOutput && <p className="text-neutral-400"><strong className="text-brand-light">Gemini:</strong> {currentOutput}</p>}
             </div>
         )}
-        {!isSessionActive && transcripts.length === 0 && <p className="text-neutral-500 m-auto">Conversation will appear here</p>}
+        {!isSessionActive && turns.length === 0 && <p className="text-neutral-500 m-auto">Conversation will appear here</p>}
       </div>
+
+      <LiveSessionList sessions={sessions} />
     </div>
   );
 };
 
-export default LiveChat;
\ No newline at end of file
+export default LiveChat;
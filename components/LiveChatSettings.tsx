@@ -0,0 +1,132 @@
+import React from 'react';
+import PromptLibrary from './PromptLibrary';
+import { GeneratorMode } from '../types';
+import { usePersistentState } from '../hooks/usePersistentState';
+import { VoiceName, VOICES } from '../services/gemini';
+
+interface Persona {
+  id: string;
+  name: string;
+  systemInstruction: string;
+}
+
+const BUILT_IN_PERSONAS: Persona[] = [
+  { id: 'assistant', name: 'Helpful assistant', systemInstruction: '' },
+  { id: 'tutor', name: 'Language tutor', systemInstruction: 'You are a patient language tutor. Speak slowly and clearly, correct mistakes gently, and ask a follow-up question after each answer.' },
+  { id: 'interviewer', name: 'Mock interviewer', systemInstruction: 'You are a friendly but rigorous job interviewer. Ask one question at a time, listen to the answer, then give brief feedback before the next question.' },
+  { id: 'art-director', name: 'Art director', systemInstruction: 'You are a creative art director. Help the user develop visual ideas and generate images to try them out. Keep spoken replies short.' },
+];
+
+interface LiveChatSettingsProps {
+  voice: VoiceName;
+  onVoiceChange: (voice: VoiceName) => void;
+  systemInstruction: string;
+  onSystemInstructionChange: (systemInstruction: string) => void;
+  toolsEnabled: boolean;
+  onToolsEnabledChange: (enabled: boolean) => void;
+  disabled: boolean;
+}
+
+// Voice, persona and tool options for the next Live Chat session. Personas the
+// user saves are kept alongside the built-in ones.
+const LiveChatSettings: React.FC<LiveChatSettingsProps> = ({
+  voice,
+  onVoiceChange,
+  systemInstruction,
+  onSystemInstructionChange,
+  toolsEnabled,
+  onToolsEnabledChange,
+  disabled,
+}) => {
+  const [savedPersonas, setSavedPersonas] = usePersistentState<Persona[]>('liveChat.personas', []);
+  const personas = [...BUILT_IN_PERSONAS, ...savedPersonas];
+  const activePersona = personas.find(persona => persona.systemInstruction === systemInstruction);
+  const isSaved = savedPersonas.some(persona => persona.id === activePersona?.id);
+
+  const handleSavePersona = () => {
+    const name = window.prompt('Name this persona:')?.trim();
+    if (!name) return;
+    setSavedPersonas([...savedPersonas, { id: crypto.randomUUID(), name, systemInstruction }]);
+  };
+
+  const handleDeletePersona = () => {
+    if (!activePersona || !window.confirm(`Delete the "${activePersona.name}" persona?`)) return;
+    setSavedPersonas(savedPersonas.filter(persona => persona.id !== activePersona.id));
+  };
+
+  return (
+    <div className="flex flex-col gap-3 p-3 bg-brand-gray rounded-lg border border-neutral-700">
+      <div className="flex flex-col gap-2 text-sm text-neutral-300">
+        Voice
+        <div className="flex flex-wrap gap-2">
+          {VOICES.map(name => (
+            <button
+              key={name}
+              onClick={() => onVoiceChange(name)}
+              disabled={disabled}
+              className={`px-4 py-2 text-sm font-medium rounded-full transition-colors duration-300 disabled:cursor-not-allowed ${voice === name ? 'bg-brand-accent text-brand-dark' : 'bg-brand-dark text-brand-light hover:bg-neutral-700'}`}
+            >
+              {name}
+            </button>
+          ))}
+        </div>
+      </div>
+      <label className="flex items-center gap-3 text-sm text-neutral-300">
+        Persona
+        <select
+          value={activePersona?.id ?? ''}
+          onChange={(e) => {
+            const persona = personas.find(item => item.id === e.target.value);
+            if (persona) onSystemInstructionChange(persona.systemInstruction);
+          }}
+          disabled={disabled}
+          className="flex-grow p-2 bg-brand-dark border border-neutral-700 rounded-lg text-brand-light focus:outline-none focus:ring-2 focus:ring-brand-accent"
+        >
+          {!activePersona && <option value="">Custom</option>}
+          {personas.map(persona => <option key={persona.id} value={persona.id}>{persona.name}</option>)}
+        </select>
+        {activePersona ? (
+          isSaved && (
+            <button onClick={handleDeletePersona} disabled={disabled} className="px-3 py-1 text-sm rounded-full bg-brand-dark text-neutral-300 hover:bg-red-600">
+              Delete
+            </button>
+          )
+        ) : (
+          <button onClick={handleSavePersona} disabled={disabled || !systemInstruction.trim()} className="px-3 py-1 text-sm rounded-full bg-brand-dark text-neutral-300 hover:bg-neutral-700 disabled:opacity-50">
+            Save as Persona
+          </button>
+        )}
+      </label>
+      <PromptLibrary
+        mode={GeneratorMode.LIVE_CHAT}
+        currentPrompt={systemInstruction}
+        onInsert={onSystemInstructionChange}
+        disabled={disabled}
+      />
+      <label className="flex flex-col gap-2 text-sm text-neutral-300">
+        System instructions
+        <textarea
+          value={systemInstruction}
+          onChange={(e) => onSystemInstructionChange(e.target.value)}
+          disabled={disabled}
+          placeholder="e.g., You are a cheerful travel guide who answers in two sentences or fewer."
+          rows={3}
+          className="w-full p-2 bg-brand-dark border border-neutral-700 rounded-lg text-brand-light placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-brand-accent"
+        />
+      </label>
+      <label className="flex items-center gap-2 text-sm text-neutral-300">
+        <input
+          type="checkbox"
+          checked={toolsEnabled}
+          onChange={(e) => onToolsEnabledChange(e.target.checked)}
+          disabled={disabled}
+          className="accent-white"
+        />
+        Let Gemini generate images during the conversation
+      </label>
+      {disabled && <p className="text-xs text-neutral-500">Changes apply to the next session.</p>}
+    </div>
+  );
+};
+
+export default LiveChatSettings;
@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import LiveTurnView from './LiveTurnView';
+import WaveformPlayer from './WaveformPlayer';
+import { LiveSession } from '../types';
+import { getAsset } from '../services/assetStore';
+import { deleteLiveSession } from '../services/liveSessionStore';
+import { downloadBlob, extensionForMimeType } from '../utils/media';
+import { formatClockTime } from '../utils/subtitles';
+
+const formatOffset = (ms: number) => formatClockTime(ms / 1000);
+
+const toPlainTranscript = (session: LiveSession) =>
+  session.turns.map(turn => `[${formatOffset(turn.at)}] ${turn.role === 'user' ? 'You' : 'Gemini'}: ${turn.text}`).join('\n') + '\n';
+
+const exportName = (session: LiveSession) =>
+  `live-session-${new Date(session.createdAt).toISOString().slice(0, 19).replace(/[T:]/g, '-')}`;
+
+const smallButton = 'px-3 py-1 text-xs rounded-full bg-neutral-700 text-brand-light hover:bg-neutral-600 disabled:opacity-50 disabled:cursor-not-allowed';
+
+// Saved Live Chat sessions: replay the recording next to the timed transcript
+// and export either.
+const LiveSessionList: React.FC<{ sessions: LiveSession[] }> = ({ sessions }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [audio, setAudio] = useState<Blob | null>(null);
+  const [isAudioMissing, setIsAudioMissing] = useState<boolean>(false);
+  const selected = sessions.find(session => session.id === selectedId);
+
+  useEffect(() => {
+    setAudio(null);
+    setIsAudioMissing(false);
+    if (!selected?.audioAssetId) return;
+    let cancelled = false;
+    getAsset(selected.audioAssetId)
+      .then(asset => {
+        if (cancelled) return;
+        if (asset) setAudio(asset.blob);
+        else setIsAudioMissing(true);
+      })
+      .catch(e => console.error('Failed to load the session recording.', e));
+    return () => { cancelled = true; };
+  }, [selected?.audioAssetId]);
+
+  const handleExport = (session: LiveSession, format: 'txt' | 'json') => {
+    const name = exportName(session);
+    if (format === 'txt') {
+      downloadBlob(new Blob([toPlainTranscript(session)], { type: 'text/plain' }), `${name}.txt`);
+    } else {
+      downloadBlob(new Blob([JSON.stringify(session, null, 2)], { type: 'application/json' }), `${name}.json`);
+    }
+  };
+
+  const handleDelete = (session: LiveSession) => {
+    if (!window.confirm('Delete this session and its recording?')) return;
+    if (session.id === selectedId) setSelectedId(null);
+    deleteLiveSession(session).catch(e => console.error('Failed to delete the session.', e));
+  };
+
+  if (sessions.length === 0) return null;
+
+  return (
+    <div className="w-full p-4 bg-brand-gray rounded-lg border border-neutral-700 flex flex-col gap-4">
+      <h3 className="font-semibold text-brand-accent">Saved Sessions</h3>
+      <ul className="flex flex-col gap-1">
+        {sessions.map(session => (
+          <li
+            key={session.id}
+            className={`flex flex-wrap items-center gap-2 rounded-lg px-3 py-2 text-sm ${session.id === selectedId ? 'bg-neutral-700' : 'hover:bg-neutral-800'}`}
+          >
+            <button onClick={() => setSelectedId(session.id === selectedId ? null : session.id)} className="flex-grow min-w-0 text-left">
+              <span className="block truncate text-brand-light">{session.title}</span>
+              <span className="text-xs text-neutral-500">
+                {new Date(session.createdAt).toLocaleString()} · {formatOffset(session.durationMs)} · {session.turns.length} turns{session.audioAssetId ? ' · recorded' : ''}
+              </span>
+            </button>
+            <button onClick={() => handleExport(session, 'txt')} className={smallButton}>TXT</button>
+            <button onClick={() => handleExport(session, 'json')} className={smallButton}>JSON</button>
+            <button onClick={() => handleDelete(session)} className={`${smallButton} hover:bg-red-600`}>Delete</button>
+          </li>
+        ))}
+      </ul>
+
+      {selected && (
+        <div className="flex flex-col gap-3 border-t border-neutral-700 pt-4 animate-fade-in">
+          {audio && (
+            <div className="flex flex-col gap-2">
+              <WaveformPlayer src={audio} />
+              <button
+                onClick={() => downloadBlob(audio, `${exportName(selected)}.${extensionForMimeType(audio.type)}`)}
+                className={`${smallButton} self-end`}
+              >
+                Download Recording
+              </button>
+            </div>
+          )}
+          {isAudioMissing && <p className="text-sm text-neutral-500">The recording for this session was deleted from the library.</p>}
+          <div className="flex flex-col gap-2 max-h-80 overflow-y-auto text-sm text-neutral-300">
+            {selected.turns.map((turn, index) => <LiveTurnView key={index} turn={turn} />)}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LiveSessionList;
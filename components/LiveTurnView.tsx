@@ -0,0 +1,22 @@
+import React from 'react';
+import { LiveTurn } from '../types';
+import { useAssetUrl } from '../hooks/useAssetUrl';
+import { formatClockTime } from '../utils/subtitles';
+
+// One line of a Live Chat transcript, with any image the turn produced.
+const LiveTurnView: React.FC<{ turn: LiveTurn }> = ({ turn }) => {
+  const imageUrl = useAssetUrl(turn.assetId);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <p>
+        <span className="text-xs text-neutral-500 tabular-nums mr-2">{formatClockTime(turn.at / 1000)}</span>
+        <strong className={turn.role === 'user' ? 'text-brand-accent' : 'text-brand-light'}>{turn.role === 'user' ? 'You' : 'Gemini'}:</strong>{' '}
+        <span className={turn.assetId ? 'text-neutral-400 italic' : ''}>{turn.text}</span>
+      </p>
+      {imageUrl && <img src={imageUrl} alt={turn.text} className="max-w-xs rounded-lg border border-neutral-700 animate-fade-in" />}
+    </div>
+  );
+};
+
+export default LiveTurnView;
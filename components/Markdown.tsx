@@ -0,0 +1,79 @@
+import React, { useRef, useState } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+
+// Gemini often writes LaTeX with \( \) and \[ \] delimiters, which remark-math
+// does not recognise. Rewrite them to $ / $$ outside of code.
+const normalizeMath = (markdown: string): string =>
+  markdown
+    .split(/(```[\s\S]*?```|`[^`\n]*`)/g)
+    .map((segment, index) => index % 2 === 1
+      ? segment
+      : segment
+          .replace(/\\\[([\s\S]+?)\\\]/g, (_, math) => `\n$$\n${math.trim()}\n$$\n`)
+          .replace(/\\\(([\s\S]+?)\\\)/g, (_, math) => `$${math.trim()}$`))
+    .join('');
+
+const CodeBlock: React.FC<React.HTMLAttributes<HTMLPreElement>> = ({ children, ...props }) => {
+  const preRef = useRef<HTMLPreElement | null>(null);
+  const [copied, setCopied] = useState<boolean>(false);
+
+  const codeElement = React.Children.toArray(children).find(React.isValidElement) as React.ReactElement<{ className?: string }> | undefined;
+  const language = codeElement?.props.className?.match(/language-(\S+)/)?.[1];
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(preRef.current?.innerText ?? '');
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (e) {
+      console.error('Failed to copy code.', e);
+    }
+  };
+
+  return (
+    <div className="not-prose my-4 rounded-lg border border-neutral-700 overflow-hidden bg-[#0d1117]">
+      <div className="flex items-center justify-between px-3 py-1.5 bg-neutral-800 text-xs text-neutral-400">
+        <span>{language ?? 'code'}</span>
+        <button onClick={handleCopy} className="px-2 py-0.5 rounded hover:bg-neutral-700 hover:text-brand-light transition-colors">
+          {copied ? 'Copied!' : 'Copy'}
+        </button>
+      </div>
+      <pre ref={preRef} {...props} className="p-3 overflow-x-auto text-sm">{children}</pre>
+    </div>
+  );
+};
+
+const components: Components = {
+  pre: ({ node, ...props }) => <CodeBlock {...props} />,
+  a: ({ node, ...props }) => <a {...props} target="_blank" rel="noopener noreferrer" />,
+  table: ({ node, ...props }) => (
+    <div className="overflow-x-auto">
+      <table {...props} />
+    </div>
+  ),
+};
+
+interface MarkdownProps {
+  children: string;
+  className?: string;
+}
+
+// Renders model output as Markdown with GFM tables, KaTeX math and highlighted
+// code. Raw HTML in the source is not rendered.
+const Markdown: React.FC<MarkdownProps> = ({ children, className = '' }) => (
+  <div className={`prose prose-invert prose-neutral max-w-none prose-pre:bg-transparent prose-pre:p-0 ${className}`}>
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm, remarkMath]}
+      rehypePlugins={[rehypeKatex, [rehypeHighlight, { detect: true }]]}
+      components={components}
+    >
+      {normalizeMath(children)}
+    </ReactMarkdown>
+  </div>
+);
+
+export default Markdown;
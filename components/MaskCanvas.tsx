@@ -0,0 +1,170 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+export type MaskTool = 'brush' | 'lasso' | 'erase';
+
+const TOOLS: { value: MaskTool; label: string }[] = [
+  { value: 'brush', label: 'Brush' },
+  { value: 'lasso', label: 'Lasso' },
+  { value: 'erase', label: 'Erase' },
+];
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface MaskCanvasProps {
+  imageUrl: string;
+  width: number;
+  height: number;
+  // The canvas itself is the mask: painted pixels are opaque, the rest transparent.
+  maskRef: React.RefObject<HTMLCanvasElement | null>;
+  onChange: (hasMask: boolean) => void;
+  disabled?: boolean;
+}
+
+// Paints a selection over an image with a brush or a freehand lasso. The mask
+// canvas has the image's natural size and is scaled to fit on screen.
+const MaskCanvas: React.FC<MaskCanvasProps> = ({ imageUrl, width, height, maskRef, onChange, disabled }) => {
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState<number>(40);
+  const [lasso, setLasso] = useState<Point[]>([]);
+  const lastPointRef = useRef<Point | null>(null);
+  const isDrawingRef = useRef<boolean>(false);
+
+  // Start with an empty mask whenever the image changes.
+  useEffect(() => {
+    maskRef.current?.getContext('2d')?.clearRect(0, 0, width, height);
+    onChange(false);
+  }, [imageUrl, width, height]);
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * width / rect.width,
+      y: (e.clientY - rect.top) * height / rect.height,
+    };
+  };
+
+  // Brush size is in screen pixels, so it feels the same at any image size.
+  const scaledBrushSize = (e: React.PointerEvent<HTMLCanvasElement>) =>
+    brushSize * width / e.currentTarget.getBoundingClientRect().width;
+
+  const stroke = (from: Point, to: Point, size: number) => {
+    const ctx = maskRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.globalCompositeOperation = tool === 'erase' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = '#ef4444';
+    ctx.lineWidth = size;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+  };
+
+  const fillLasso = (points: Point[]) => {
+    const ctx = maskRef.current?.getContext('2d');
+    if (!ctx || points.length < 3) return;
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.fillStyle = '#ef4444';
+    ctx.beginPath();
+    ctx.moveTo(points[0].x, points[0].y);
+    points.slice(1).forEach(point => ctx.lineTo(point.x, point.y));
+    ctx.closePath();
+    ctx.fill();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    isDrawingRef.current = true;
+    const point = toCanvasPoint(e);
+    if (tool === 'lasso') {
+      setLasso([point]);
+    } else {
+      stroke(point, point, scaledBrushSize(e));
+      lastPointRef.current = point;
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawingRef.current) return;
+    const point = toCanvasPoint(e);
+    if (tool === 'lasso') {
+      setLasso(points => [...points, point]);
+    } else if (lastPointRef.current) {
+      stroke(lastPointRef.current, point, scaledBrushSize(e));
+      lastPointRef.current = point;
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!isDrawingRef.current) return;
+    isDrawingRef.current = false;
+    lastPointRef.current = null;
+    if (tool === 'lasso') {
+      fillLasso(lasso);
+      setLasso([]);
+    }
+    onChange(true);
+  };
+
+  const handleClear = () => {
+    maskRef.current?.getContext('2d')?.clearRect(0, 0, width, height);
+    onChange(false);
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="relative w-full bg-brand-gray rounded-lg border border-neutral-700 overflow-hidden">
+        <img src={imageUrl} alt="Original" className="block w-full h-auto select-none" draggable={false} />
+        <canvas
+          ref={maskRef}
+          width={width}
+          height={height}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          className={`absolute inset-0 w-full h-full opacity-50 touch-none ${disabled ? 'cursor-not-allowed' : 'cursor-crosshair'}`}
+        />
+        {lasso.length > 1 && (
+          <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none" className="absolute inset-0 w-full h-full pointer-events-none">
+            <polyline
+              points={lasso.map(point => `${point.x},${point.y}`).join(' ')}
+              fill="rgba(239, 68, 68, 0.25)"
+              stroke="#ef4444"
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+          </svg>
+        )}
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        {TOOLS.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => setTool(value)}
+            disabled={disabled}
+            className={`px-4 py-2 text-sm font-medium rounded-full transition-colors duration-300 ${tool === value ? 'bg-brand-accent text-brand-dark' : 'bg-brand-gray text-brand-light hover:bg-neutral-700'}`}
+          >
+            {label}
+          </button>
+        ))}
+        {tool !== 'lasso' && (
+          <label className="flex items-center gap-2 text-sm text-neutral-400">
+            Size
+            <input type="range" min={5} max={120} value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} disabled={disabled} />
+          </label>
+        )}
+        <button onClick={handleClear} disabled={disabled} className="ml-auto px-4 py-2 text-sm rounded-full bg-brand-gray text-neutral-300 hover:bg-neutral-700">
+          Clear Mask
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MaskCanvas;
@@ -0,0 +1,88 @@
+import React, { useEffect, useState } from 'react';
+import { listAudioInputs } from '../utils/audioCapture';
+
+interface MicrophoneControlsProps {
+  deviceId: string;
+  onDeviceChange: (deviceId: string) => void;
+  skipSilence: boolean;
+  onSkipSilenceChange: (skipSilence: boolean) => void;
+  // RMS level of the latest captured frame while capturing.
+  level: number;
+  isCapturing: boolean;
+  isSpeaking: boolean;
+}
+
+// Maps an RMS level onto a -60 to 0 dBFS meter.
+const meterFill = (level: number) =>
+  level > 0 ? Math.min(100, Math.max(0, ((20 * Math.log10(level) + 60) / 60) * 100)) : 0;
+
+// Microphone picker, silence skipping and a live input level meter.
+const MicrophoneControls: React.FC<MicrophoneControlsProps> = ({
+  deviceId,
+  onDeviceChange,
+  skipSilence,
+  onSkipSilenceChange,
+  level,
+  isCapturing,
+  isSpeaking,
+}) => {
+  const [inputs, setInputs] = useState<MediaDeviceInfo[]>([]);
+
+  // Device labels only become available once microphone access is granted, so
+  // the list is refreshed when capture starts as well as when devices change.
+  useEffect(() => {
+    const refresh = () => listAudioInputs().then(setInputs).catch(e => console.error('Failed to list microphones.', e));
+    refresh();
+    navigator.mediaDevices.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refresh);
+  }, [isCapturing]);
+
+  return (
+    <div className="w-full max-w-sm flex flex-col gap-2 text-sm text-neutral-400">
+      <label className="flex items-center gap-3">
+        Microphone
+        <select
+          value={inputs.some(input => input.deviceId === deviceId) ? deviceId : ''}
+          onChange={(e) => onDeviceChange(e.target.value)}
+          disabled={isCapturing}
+          className="flex-grow min-w-0 p-2 bg-brand-gray border border-neutral-700 rounded-lg text-brand-light focus:outline-none focus:ring-2 focus:ring-brand-accent disabled:opacity-50"
+        >
+          <option value="">System default</option>
+          {inputs.filter(input => input.deviceId && input.deviceId !== 'default').map((input, index) => (
+            <option key={input.deviceId} value={input.deviceId}>{input.label || `Microphone ${index + 1}`}</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={skipSilence}
+          onChange={(e) => onSkipSilenceChange(e.target.checked)}
+          disabled={isCapturing}
+          className="accent-white"
+        />
+        Only send audio while you are speaking
+      </label>
+      {isCapturing && (
+        <div className="flex items-center gap-2">
+          <div
+            role="meter"
+            aria-label="Input level"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(meterFill(level))}
+            className="flex-grow h-2 bg-brand-gray rounded-full overflow-hidden"
+          >
+            <div
+              className={`h-full transition-[width] duration-100 ${skipSilence && !isSpeaking ? 'bg-neutral-500' : 'bg-green-400'}`}
+              style={{ width: `${meterFill(level)}%` }}
+            />
+          </div>
+          {skipSilence && <span className="w-16 text-xs">{isSpeaking ? 'Sending' : 'Silence'}</span>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MicrophoneControls;
@@ -1,23 +1,36 @@
-import React, { useState, useCallback } from 'react';
-// FIX: Removed GenerateContentRequest as it is not an exported member.
-import { GoogleGenAI } from '@google/genai';
+import React, { useState, useCallback, useRef, useEffect } from 'react';
 import Spinner from './Spinner';
+import PromptLibrary from './PromptLibrary';
+import Markdown from './Markdown';
+import { GeneratorMode } from '../types';
+import { usePersistentState } from '../hooks/usePersistentState';
+import { GroundingSource, MAX_THINKING_BUDGET, MODELS, streamContent } from '../services/gemini';
+import { getLatestResult, recordResult } from '../services/resultStore';
 
-// FIX: Made title optional to match the type from the Gemini API response.
-interface GroundingChunk {
-  web: {
-    uri: string;
-    title?: string;
-  };
-}
+const SYSTEM_INSTRUCTION = "You are an expert research assistant for a PhD student in nanophysics. Provide detailed, accurate, and insightful responses suitable for advanced academic research. When sources are available, cite them implicitly in your response.";
 
 const NanoResearchAssistant: React.FC = () => {
-  const [prompt, setPrompt] = useState<string>('');
+  const [prompt, setPrompt] = usePersistentState<string>('research.prompt', '');
   const [result, setResult] = useState<string | null>(null);
-  const [sources, setSources] = useState<GroundingChunk[]>([]);
-  const [useWebSearch, setUseWebSearch] = useState<boolean>(true);
+  const [sources, setSources] = useState<GroundingSource[]>([]);
+  const [useWebSearch, setUseWebSearch] = usePersistentState<boolean>('research.useWebSearch', true);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [isStopped, setIsStopped] = useState<boolean>(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Show the last saved answer when returning to this mode.
+  useEffect(() => {
+    getLatestResult(GeneratorMode.NANO_RESEARCH)
+      .then(saved => {
+        if (!saved) return;
+        setResult(current => current ?? saved.text);
+        setSources(current => current.length > 0 ? current : saved.sources);
+      })
+      .catch(e => console.error('Failed to load the last result.', e));
+  }, []);
 
   const handleGenerate = useCallback(async () => {
     if (!prompt.trim()) {
@@ -28,42 +41,42 @@ const NanoResearchAssistant: React.FC = () => {
     setError(null);
     setResult(null);
     setSources([]);
+    setIsStopped(false);
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      
-      // FIX: Used `any` type for request to allow conditional addition of `tools` property.
-      const request: any = {
-        model: 'gemini-2.5-pro',
-        contents: prompt,
-        config: {
-            systemInstruction: "You are an expert research assistant for a PhD student in nanophysics. Provide detailed, accurate, and insightful responses suitable for advanced academic research. When sources are available, cite them implicitly in your response.",
-            thinkingConfig: { thinkingBudget: 32768 },
-        }
-      };
+      const response = await streamContent({
+        model: MODELS.pro,
+        prompt,
+        systemInstruction: SYSTEM_INSTRUCTION,
+        thinkingBudget: MAX_THINKING_BUDGET,
+        useWebSearch,
+      }, partial => {
+        setResult(partial.text);
+        setSources(partial.sources);
+      }, controller.signal);
 
-      if (useWebSearch) {
-        request.config.tools = [{googleSearch: {}}];
-      }
-      
-      const response = await ai.models.generateContent(request);
-      
       setResult(response.text);
-
-      const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
-      if (groundingChunks) {
-        // FIX: Added type assertion to fix type mismatch after filtering.
-        setSources(groundingChunks.filter((chunk: any) => chunk.web?.uri) as GroundingChunk[]);
+      setSources(response.sources);
+      setIsStopped(!!response.stopped);
+      if (response.text) {
+        recordResult({ mode: GeneratorMode.NANO_RESEARCH, prompt, model: MODELS.pro, text: response.text, sources: response.sources });
       }
 
     } catch (e) {
       console.error(e);
       setError('Failed to generate response. Please check your API key and try again.');
     } finally {
+      abortRef.current = null;
       setIsLoading(false);
     }
   }, [prompt, useWebSearch]);
 
+  const handleStop = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
   return (
     <div className="flex flex-col gap-6 animate-fade-in">
       <div>
@@ -72,6 +85,7 @@ const NanoResearchAssistant: React.FC = () => {
       </div>
 
       <div className="flex flex-col gap-4">
+        <PromptLibrary mode={GeneratorMode.NANO_RESEARCH} currentPrompt={prompt} onInsert={setPrompt} disabled={isLoading} />
         <textarea
           value={prompt}
           onChange={(e) => setPrompt(e.target.value)}
@@ -93,13 +107,22 @@ const NanoResearchAssistant: React.FC = () => {
             Include latest web search results (Recommended)
           </label>
         </div>
-        <button
-          onClick={handleGenerate}
-          disabled={isLoading || !prompt}
-          className="w-full flex justify-center items-center gap-2 bg-brand-accent text-brand-dark font-semibold py-3 px-4 rounded-lg transition-all duration-300 hover:bg-neutral-300 disabled:bg-brand-gray disabled:text-neutral-500 disabled:cursor-not-allowed focus:outline-none focus-visible:ring-2 focus-visible:ring-brand-accent focus-visible:ring-offset-2 focus-visible:ring-offset-black"
-        >
-          {isLoading ? <><Spinner /> Researching...</> : 'Generate Response'}
-        </button>
+        {isLoading ? (
+          <button
+            onClick={handleStop}
+            className="w-full flex justify-center items-center gap-2 bg-brand-gray text-brand-light font-semibold py-3 px-4 rounded-lg border border-neutral-700 transition-all duration-300 hover:bg-neutral-700 focus:outline-none focus-visible:ring-2 focus-visible:ring-brand-accent focus-visible:ring-offset-2 focus-visible:ring-offset-black"
+          >
+            <Spinner /> Stop
+          </button>
+        ) : (
+          <button
+            onClick={handleGenerate}
+            disabled={!prompt}
+            className="w-full flex justify-center items-center gap-2 bg-brand-accent text-brand-dark font-semibold py-3 px-4 rounded-lg transition-all duration-300 hover:bg-neutral-300 disabled:bg-brand-gray disabled:text-neutral-500 disabled:cursor-not-allowed focus:outline-none focus-visible:ring-2 focus-visible:ring-brand-accent focus-visible:ring-offset-2 focus-visible:ring-offset-black"
+          >
+            Generate Response
+          </button>
+        )}
       </div>
 
       {error && <p className="text-red-400 text-center">{error}</p>}
@@ -107,16 +130,17 @@ const NanoResearchAssistant: React.FC = () => {
       { (isLoading || result) &&
         <div className="w-full p-4 bg-brand-gray rounded-lg border border-neutral-700 min-h-[200px]">
           <h3 className="font-semibold text-brand-accent mb-2">Research Output</h3>
-          {isLoading && <div className="flex items-center gap-2 text-neutral-400"><Spinner /> <p>Gemini is processing your request...</p></div>}
-          {result && <pre className="text-neutral-300 whitespace-pre-wrap font-sans">{result}</pre>}
+          {isLoading && !result && <div className="flex items-center gap-2 text-neutral-400"><Spinner /> <p>Gemini is researching...</p></div>}
+          {result && <Markdown className="text-neutral-300">{result}</Markdown>}
+          {isStopped && <p className="mt-3 text-sm text-neutral-500">Stopped before the response was complete.</p>}
           {sources.length > 0 && (
             <div className="mt-6">
                 <h4 className="font-semibold text-brand-accent mb-3 border-t border-neutral-700 pt-4">Sources</h4>
                 <ul className="flex flex-col gap-2">
                     {sources.map((source, index) => (
                         <li key={index} className="text-sm">
-                            <a href={source.web.uri} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline underline-offset-2 break-all">
-                                {source.web.title || source.web.uri}
+                            <a href={source.uri} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline underline-offset-2 break-all">
+                                {source.title || source.uri}
                             </a>
                         </li>
                     ))}
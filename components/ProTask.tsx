@@ -1,12 +1,28 @@
-import React, { useState, useCallback } from 'react';
-import { GoogleGenAI } from '@google/genai';
+import React, { useState, useCallback, useRef, useEffect } from 'react';
 import Spinner from './Spinner';
+import PromptLibrary from './PromptLibrary';
+import Markdown from './Markdown';
+import { GeneratorMode } from '../types';
+import { usePersistentState } from '../hooks/usePersistentState';
+import { MAX_THINKING_BUDGET, MODELS, streamContent } from '../services/gemini';
+import { getLatestResult, recordResult } from '../services/resultStore';
 
 const ProTask: React.FC = () => {
-  const [prompt, setPrompt] = useState<string>('');
+  const [prompt, setPrompt] = usePersistentState<string>('proTask.prompt', '');
   const [result, setResult] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [isStopped, setIsStopped] = useState<boolean>(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Show the last saved answer when returning to this mode.
+  useEffect(() => {
+    getLatestResult(GeneratorMode.PRO_TASK)
+      .then(saved => saved && setResult(current => current ?? saved.text))
+      .catch(e => console.error('Failed to load the last result.', e));
+  }, []);
 
   const handleGenerate = useCallback(async () => {
     if (!prompt.trim()) {
@@ -16,28 +32,36 @@ const ProTask: React.FC = () => {
     setIsLoading(true);
     setError(null);
     setResult(null);
+    setIsStopped(false);
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-pro',
-        contents: prompt,
-        config: {
-            thinkingConfig: { thinkingBudget: 32768 },
-        }
-      });
-      
+      const response = await streamContent({
+        model: MODELS.pro,
+        prompt,
+        thinkingBudget: MAX_THINKING_BUDGET,
+      }, partial => setResult(partial.text), controller.signal);
+
       setResult(response.text);
+      setIsStopped(!!response.stopped);
+      if (response.text) {
+        recordResult({ mode: GeneratorMode.PRO_TASK, prompt, model: MODELS.pro, text: response.text, sources: response.sources });
+      }
 
     } catch (e) {
       console.error(e);
       setError('Failed to generate response. Please check your API key and try again.');
     } finally {
+      abortRef.current = null;
       setIsLoading(false);
     }
   }, [prompt]);
 
+  const handleStop = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
   return (
     <div className="flex flex-col gap-6 animate-fade-in">
       <div>
@@ -46,6 +70,7 @@ const ProTask: React.FC = () => {
       </div>
 
       <div className="flex flex-col gap-4">
+        <PromptLibrary mode={GeneratorMode.PRO_TASK} currentPrompt={prompt} onInsert={setPrompt} disabled={isLoading} />
         <textarea
           value={prompt}
           onChange={(e) => setPrompt(e.target.value)}
@@ -54,13 +79,22 @@ const ProTask: React.FC = () => {
           rows={8}
           disabled={isLoading}
         />
-        <button
-          onClick={handleGenerate}
-          disabled={isLoading || !prompt}
-          className="w-full flex justify-center items-center gap-2 bg-brand-accent text-brand-dark font-semibold py-3 px-4 rounded-lg transition-all duration-300 hover:bg-neutral-300 disabled:bg-brand-gray disabled:text-neutral-500 disabled:cursor-not-allowed focus:outline-none focus-visible:ring-2 focus-visible:ring-brand-accent focus-visible:ring-offset-2 focus-visible:ring-offset-black"
-        >
-          {isLoading ? <><Spinner /> Thinking...</> : 'Generate Response'}
-        </button>
+        {isLoading ? (
+          <button
+            onClick={handleStop}
+            className="w-full flex justify-center items-center gap-2 bg-brand-gray text-brand-light font-semibold py-3 px-4 rounded-lg border border-neutral-700 transition-all duration-300 hover:bg-neutral-700 focus:outline-none focus-visible:ring-2 focus-visible:ring-brand-accent focus-visible:ring-offset-2 focus-visible:ring-offset-black"
+          >
+            <Spinner /> Stop
+          </button>
+        ) : (
+          <button
+            onClick={handleGenerate}
+            disabled={!prompt}
+            className="w-full flex justify-center items-center gap-2 bg-brand-accent text-brand-dark font-semibold py-3 px-4 rounded-lg transition-all duration-300 hover:bg-neutral-300 disabled:bg-brand-gray disabled:text-neutral-500 disabled:cursor-not-allowed focus:outline-none focus-visible:ring-2 focus-visible:ring-brand-accent focus-visible:ring-offset-2 focus-visible:ring-offset-black"
+          >
+            Generate Response
+          </button>
+        )}
       </div>
 
       {error && <p className="text-red-400 text-center">{error}</p>}
@@ -68,8 +102,9 @@ const ProTask: React.FC = () => {
       { (isLoading || result) &&
         <div className="w-full p-4 bg-brand-gray rounded-lg border border-neutral-700 min-h-[200px]">
           <h3 className="font-semibold text-brand-accent mb-2">Result</h3>
-          {isLoading && <div className="flex items-center gap-2 text-neutral-400"><Spinner /> <p>Gemini is processing your request...</p></div>}
-          {result && <pre className="text-neutral-300 whitespace-pre-wrap font-sans">{result}</pre>}
+          {isLoading && !result && <div className="flex items-center gap-2 text-neutral-400"><Spinner /> <p>Gemini is thinking...</p></div>}
+          {result && <Markdown className="text-neutral-300">{result}</Markdown>}
+          {isStopped && <p className="mt-3 text-sm text-neutral-500">Stopped before the response was complete.</p>}
         </div>
       }
     </div>
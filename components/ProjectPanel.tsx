@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import Spinner from './Spinner';
+import { exportProject, importProject } from '../services/project';
+import { downloadBlob } from '../utils/media';
+
+// Export and import of the whole workspace: prompts and settings, chats, saved
+// text results and every library asset.
+const ProjectPanel: React.FC = () => {
+  const [isBusy, setIsBusy] = useState<boolean>(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setIsBusy(true);
+    setError(null);
+    setStatus(null);
+    try {
+      const bundle = await exportProject();
+      downloadBlob(bundle, `your-creator-gen-project-${new Date().toISOString().slice(0, 10)}.zip`);
+      setStatus('Project exported.');
+    } catch (e) {
+      console.error(e);
+      setError('Failed to export the project.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (!window.confirm('Import this project? Its items are added to your workspace and replace any with the same id. Saved prompts and settings are overwritten.')) return;
+
+    setIsBusy(true);
+    setError(null);
+    setStatus(null);
+    try {
+      const summary = await importProject(file);
+      setStatus(`Imported ${summary.assets} assets, ${summary.conversations} chats, ${summary.results} results, ${summary.liveSessions} live sessions, ${summary.characters} characters, ${summary.prompts} prompts and ${summary.settings} settings.`);
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : 'Failed to import the project.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 p-3 bg-brand-gray rounded-lg border border-neutral-700">
+      <div className="flex-grow min-w-0">
+        <h3 className="font-semibold text-brand-light">Project</h3>
+        <p className="text-sm text-neutral-400">Move your whole workspace to another browser as a single .zip file.</p>
+      </div>
+      {isBusy && <Spinner />}
+      <button
+        onClick={handleExport}
+        disabled={isBusy}
+        className="px-4 py-2 text-sm font-semibold rounded-lg bg-brand-accent text-brand-dark hover:bg-neutral-300 disabled:bg-neutral-700 disabled:text-neutral-500 disabled:cursor-not-allowed"
+      >
+        Export Project
+      </button>
+      <label className={`px-4 py-2 text-sm font-semibold rounded-lg bg-neutral-700 text-brand-light ${isBusy ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:bg-neutral-600'}`}>
+        Import Project
+        <input type="file" accept=".zip,application/zip" onChange={handleImport} disabled={isBusy} className="hidden" />
+      </label>
+      {status && <p className="w-full text-sm text-green-400">{status}</p>}
+      {error && <p className="w-full text-sm text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default ProjectPanel;
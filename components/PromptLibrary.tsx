@@ -0,0 +1,259 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { GeneratorMode, PromptTemplate } from '../types';
+import { usePersistentState } from '../hooks/usePersistentState';
+import { currentPromptText, deletePrompt, listPrompts, savePrompt, subscribeToPrompts, updatePrompt } from '../services/promptStore';
+import { fillTemplate, templateVariables } from '../utils/promptTemplate';
+
+// Modes with a text input a template can be inserted into.
+const PROMPT_MODES: { mode: GeneratorMode; label: string }[] = [
+  { mode: GeneratorMode.IMAGE, label: 'Image' },
+  { mode: GeneratorMode.EDIT_IMAGE, label: 'Edit' },
+  { mode: GeneratorMode.ANALYZE_IMAGE, label: 'Analyze' },
+  { mode: GeneratorMode.VIDEO, label: 'Video' },
+  { mode: GeneratorMode.CHARACTER, label: 'Character' },
+  { mode: GeneratorMode.LIVE_CHAT, label: 'Live Chat' },
+  { mode: GeneratorMode.CHATBOT, label: 'Chat Bot' },
+  { mode: GeneratorMode.TTS, label: 'Speech' },
+  { mode: GeneratorMode.PRO_TASK, label: 'Complex Tasks' },
+  { mode: GeneratorMode.NANO_RESEARCH, label: 'Research' },
+];
+
+interface PromptDraft {
+  name: string;
+  text: string;
+  modes: GeneratorMode[];
+}
+
+interface PromptLibraryProps {
+  mode: GeneratorMode;
+  // The mode's current input, offered as the text of a new template.
+  currentPrompt: string;
+  onInsert: (text: string) => void;
+  disabled?: boolean;
+}
+
+// A toggle that opens the shared prompt library next to a mode's input.
+// Templates are filtered to the ones tagged for `mode` unless "All modes" is on.
+const PromptLibrary: React.FC<PromptLibraryProps> = ({ mode, currentPrompt, onInsert, disabled }) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [showAll, setShowAll] = usePersistentState<boolean>('promptLibrary.showAll', false);
+  const [prompts, setPrompts] = useState<PromptTemplate[]>([]);
+  const [selectedId, setSelectedId] = useState<string>('');
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [draft, setDraft] = useState<PromptDraft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPrompts = useCallback(async () => {
+    try {
+      setPrompts(await listPrompts());
+    } catch (e) {
+      console.error(e);
+      setError('Failed to load the prompt library.');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    loadPrompts();
+    return subscribeToPrompts(loadPrompts);
+  }, [isOpen, loadPrompts]);
+
+  const visiblePrompts = showAll ? prompts : prompts.filter(prompt => prompt.modes.includes(mode));
+  const selected = visiblePrompts.find(prompt => prompt.id === selectedId);
+  const text = selected ? currentPromptText(selected) : '';
+  const variables = templateVariables(text);
+  const missing = variables.filter(name => !values[name]?.trim());
+
+  const selectPrompt = (id: string) => {
+    setSelectedId(id);
+    setValues({});
+    setDraft(null);
+  };
+
+  const handleCreate = async () => {
+    const name = window.prompt('Name this template:')?.trim();
+    if (!name) return;
+    const now = Date.now();
+    const prompt: PromptTemplate = {
+      id: crypto.randomUUID(),
+      name,
+      modes: [mode],
+      versions: [{ text: currentPrompt, savedAt: now }],
+      createdAt: now,
+      updatedAt: now,
+    };
+    try {
+      await savePrompt(prompt);
+      selectPrompt(prompt.id);
+      setDraft({ name, text: currentPrompt, modes: [mode] });
+    } catch (e) {
+      console.error(e);
+      setError('Failed to save the template.');
+    }
+  };
+
+  const handleSaveDraft = async () => {
+    if (!selected || !draft) return;
+    try {
+      await updatePrompt(selected, { ...draft, name: draft.name.trim() || selected.name });
+      setDraft(null);
+      setValues({});
+    } catch (e) {
+      console.error(e);
+      setError('Failed to save the template.');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected || !window.confirm(`Delete the "${selected.name}" template and its history?`)) return;
+    try {
+      await deletePrompt(selected.id);
+      selectPrompt('');
+    } catch (e) {
+      console.error(e);
+      setError('Failed to delete the template.');
+    }
+  };
+
+  const handleInsert = () => {
+    onInsert(fillTemplate(text, values));
+    setIsOpen(false);
+  };
+
+  const toggleDraftMode = (tag: GeneratorMode) => {
+    if (!draft) return;
+    const modes = draft.modes.includes(tag) ? draft.modes.filter(item => item !== tag) : [...draft.modes, tag];
+    setDraft({ ...draft, modes });
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        disabled={disabled}
+        className="self-start px-3 py-1 text-sm rounded-full bg-brand-gray text-neutral-300 hover:bg-neutral-700 disabled:opacity-50"
+      >
+        Prompt Library
+      </button>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-3 p-3 bg-brand-gray rounded-lg border border-neutral-700">
+      <div className="flex flex-wrap items-center gap-3 text-sm text-neutral-300">
+        <select
+          value={selected?.id ?? ''}
+          onChange={(e) => selectPrompt(e.target.value)}
+          className="flex-grow p-2 bg-brand-dark border border-neutral-700 rounded-lg text-brand-light focus:outline-none focus:ring-2 focus:ring-brand-accent"
+        >
+          <option value="">{visiblePrompts.length ? 'Choose a template' : 'No templates yet'}</option>
+          {visiblePrompts.map(prompt => <option key={prompt.id} value={prompt.id}>{prompt.name}</option>)}
+        </select>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} className="accent-white" />
+          All modes
+        </label>
+        <button onClick={handleCreate} disabled={!currentPrompt.trim()} className="px-3 py-1 text-sm rounded-full bg-brand-dark text-neutral-300 hover:bg-neutral-700 disabled:opacity-50">
+          Save Current Prompt
+        </button>
+        <button onClick={() => setIsOpen(false)} className="px-3 py-1 text-sm rounded-full bg-brand-dark text-neutral-300 hover:bg-neutral-700">
+          Close
+        </button>
+      </div>
+      <p className="text-xs text-neutral-500">Write {'{{variable}}'} in a template to fill it in when inserting.</p>
+
+      {selected && draft && (
+        <div className="flex flex-col gap-3">
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="Template name"
+            className="w-full p-2 bg-brand-dark border border-neutral-700 rounded-lg text-brand-light placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-brand-accent"
+          />
+          <div className="flex flex-wrap gap-2">
+            {PROMPT_MODES.map(({ mode: tag, label }) => (
+              <button
+                key={tag}
+                onClick={() => toggleDraftMode(tag)}
+                className={`px-3 py-1 text-xs font-medium rounded-full transition-colors duration-300 ${draft.modes.includes(tag) ? 'bg-brand-accent text-brand-dark' : 'bg-brand-dark text-brand-light hover:bg-neutral-700'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <textarea
+            value={draft.text}
+            onChange={(e) => setDraft({ ...draft, text: e.target.value })}
+            placeholder="e.g., A {{style}} portrait of {{subject}}, soft window light"
+            rows={4}
+            className="w-full p-2 bg-brand-dark border border-neutral-700 rounded-lg text-brand-light placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-brand-accent"
+          />
+          <div className="flex flex-col gap-1">
+            <p className="text-sm font-medium text-neutral-400">History</p>
+            {[...selected.versions].reverse().map((version, index) => (
+              <div key={index} className="flex items-center gap-3 text-xs text-neutral-400">
+                <span className="whitespace-nowrap">v{selected.versions.length - index} · {new Date(version.savedAt).toLocaleString()}</span>
+                <span className="flex-grow truncate" title={version.text}>{version.text}</span>
+                <button onClick={() => setDraft({ ...draft, text: version.text })} disabled={version.text === draft.text} className="text-neutral-300 hover:text-brand-light disabled:opacity-50">
+                  Restore
+                </button>
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <button onClick={handleSaveDraft} disabled={!draft.text.trim() || !draft.modes.length} className="px-3 py-1 text-sm rounded-full bg-brand-accent text-brand-dark font-semibold hover:bg-neutral-300 disabled:opacity-50">
+              Save
+            </button>
+            <button onClick={() => setDraft(null)} className="px-3 py-1 text-sm rounded-full bg-brand-dark text-neutral-300 hover:bg-neutral-700">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {selected && !draft && (
+        <div className="flex flex-col gap-3">
+          <p className="text-sm text-neutral-300 whitespace-pre-wrap">{text}</p>
+          {variables.length > 0 && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {variables.map(name => (
+                <label key={name} className="flex flex-col gap-1 text-xs text-neutral-400">
+                  {name}
+                  <input
+                    type="text"
+                    value={values[name] ?? ''}
+                    onChange={(e) => setValues({ ...values, [name]: e.target.value })}
+                    className="p-2 bg-brand-dark border border-neutral-700 rounded-lg text-sm text-brand-light focus:outline-none focus:ring-2 focus:ring-brand-accent"
+                  />
+                </label>
+              ))}
+            </div>
+          )}
+          <div className="flex flex-wrap items-center gap-2">
+            <button onClick={handleInsert} disabled={disabled || missing.length > 0} className="px-3 py-1 text-sm rounded-full bg-brand-accent text-brand-dark font-semibold hover:bg-neutral-300 disabled:opacity-50">
+              Insert
+            </button>
+            <button
+              onClick={() => setDraft({ name: selected.name, text, modes: selected.modes })}
+              className="px-3 py-1 text-sm rounded-full bg-brand-dark text-neutral-300 hover:bg-neutral-700"
+            >
+              Edit
+            </button>
+            <button onClick={handleDelete} className="px-3 py-1 text-sm rounded-full bg-brand-dark text-neutral-300 hover:bg-red-600">
+              Delete
+            </button>
+            <span className="text-xs text-neutral-500">
+              {selected.versions.length} {selected.versions.length === 1 ? 'version' : 'versions'}
+              {missing.length > 0 && ` · Fill in ${missing.join(', ')} to insert`}
+            </span>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+    </div>
+  );
+};
+
+export default PromptLibrary;
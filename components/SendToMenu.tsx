@@ -0,0 +1,47 @@
+import React from 'react';
+import { GeneratorMode } from '../types';
+import { sendToMode } from '../services/handoff';
+
+const IMAGE_TARGETS: { mode: GeneratorMode; label: string }[] = [
+  { mode: GeneratorMode.EDIT_IMAGE, label: 'Edit Image' },
+  { mode: GeneratorMode.ANALYZE_IMAGE, label: 'Analyze Image' },
+  { mode: GeneratorMode.VIDEO, label: 'Video start frame' },
+  { mode: GeneratorMode.CHARACTER, label: 'Character reference' },
+];
+
+const DEFAULT_CLASS_NAME = 'text-xs font-semibold py-1.5 px-2 rounded-md bg-neutral-700 text-brand-light hover:bg-neutral-600';
+
+interface SendToMenuProps {
+  source: GeneratorMode;
+  getImage: () => { blob: Blob; mimeType: string; prompt?: string };
+  // Replaces the default compact styling.
+  className?: string;
+  disabled?: boolean;
+}
+
+// A compact "Send to" picker for image outputs. A native select is used so the
+// list is never clipped by the card it sits in.
+const SendToMenu: React.FC<SendToMenuProps> = ({ source, getImage, className = DEFAULT_CLASS_NAME, disabled }) => {
+  const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const target = e.target.value as GeneratorMode;
+    e.target.value = '';
+    if (target) sendToMode({ ...getImage(), source, target });
+  };
+
+  return (
+    <select
+      value=""
+      onChange={handleChange}
+      disabled={disabled}
+      aria-label="Send to another mode"
+      className={`${className} focus:outline-none focus:ring-2 focus:ring-brand-accent`}
+    >
+      <option value="" disabled>Send to…</option>
+      {IMAGE_TARGETS.filter(target => target.mode !== source).map(target => (
+        <option key={target.mode} value={target.mode}>{target.label}</option>
+      ))}
+    </select>
+  );
+};
+
+export default SendToMenu;
@@ -0,0 +1,80 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { getAsset } from '../services/assetStore';
+
+interface SequencePlayerProps {
+  assetIds: string[];
+  className?: string;
+}
+
+// Plays a list of video assets back to back as one continuous sequence.
+const SequencePlayer: React.FC<SequencePlayerProps> = ({ assetIds, className = '' }) => {
+  const [urls, setUrls] = useState<string[]>([]);
+  const [index, setIndex] = useState<number>(0);
+  const [isPlaying, setIsPlaying] = useState<boolean>(false);
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  // Reload only when the clips change, not on every new array.
+  const key = assetIds.join(',');
+
+  useEffect(() => {
+    let objectUrls: string[] = [];
+    let cancelled = false;
+    setIndex(0);
+    setIsPlaying(false);
+    Promise.all(key.split(',').filter(Boolean).map(getAsset))
+      .then(assets => {
+        if (cancelled) return;
+        objectUrls = assets.flatMap(asset => asset ? [URL.createObjectURL(asset.blob)] : []);
+        setUrls(objectUrls);
+      })
+      .catch(e => console.error('Failed to load the sequence.', e));
+    return () => {
+      cancelled = true;
+      objectUrls.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [key]);
+
+  // Carry on playing when the next clip loads.
+  useEffect(() => {
+    if (isPlaying) videoRef.current?.play().catch(() => setIsPlaying(false));
+  }, [index, isPlaying]);
+
+  const handleEnded = () => {
+    if (index < urls.length - 1) {
+      setIndex(index + 1);
+    } else {
+      setIsPlaying(false);
+      setIndex(0);
+    }
+  };
+
+  if (urls.length === 0) return null;
+
+  return (
+    <div className="flex flex-col gap-2">
+      <video
+        ref={videoRef}
+        src={urls[index]}
+        controls
+        onPlay={() => setIsPlaying(true)}
+        onPause={(e) => { if (!e.currentTarget.ended) setIsPlaying(false); }}
+        onEnded={handleEnded}
+        className={`w-full bg-black rounded-lg ${className}`}
+      />
+      <div className="flex items-center gap-2 text-sm text-neutral-400">
+        <span className="flex-grow">Shot {index + 1} of {urls.length}</span>
+        {urls.map((url, i) => (
+          <button
+            key={url}
+            onClick={() => setIndex(i)}
+            className={`w-7 h-7 text-xs rounded-full ${i === index ? 'bg-brand-accent text-brand-dark' : 'bg-neutral-700 text-brand-light hover:bg-neutral-600'}`}
+            aria-label={`Play shot ${i + 1}`}
+          >
+            {i + 1}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SequencePlayer;
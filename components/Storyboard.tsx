@@ -0,0 +1,332 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import SequencePlayer from './SequencePlayer';
+import Spinner from './Spinner';
+import { GeneratorMode } from '../types';
+import { useAssetUrl } from '../hooks/useAssetUrl';
+import { usePersistentState } from '../hooks/usePersistentState';
+import { useVideoJobs } from '../hooks/useVideoJobs';
+import { getAsset } from '../services/assetStore';
+import { InlineData, MODELS, VideoAspectRatio as AspectRatio } from '../services/gemini';
+import { isJobActive, submitVideoJob, VideoJob } from '../services/videoJobs';
+import { blobToBase64 } from '../utils/media';
+import { captureVideoFrame } from '../utils/video';
+
+// A finished clip, kept with the storyboard so it outlives its video job.
+interface ShotClip {
+  assetId: string;
+  // The previous shot's clip this one starts from.
+  startFrameAssetId?: string;
+  // When the job that made it was started, to tell newer takes apart.
+  createdAt: number;
+}
+
+interface StoryboardShot {
+  id: string;
+  prompt: string;
+  clip?: ShotClip;
+}
+
+interface StoryboardState {
+  aspectRatio: AspectRatio;
+  shots: StoryboardShot[];
+}
+
+const newShot = (): StoryboardShot => ({ id: crypto.randomUUID(), prompt: '' });
+
+const STATUS_LABELS: Record<VideoJob['status'], string> = {
+  pending: 'Starting...',
+  running: 'Generating...',
+  succeeded: 'Ready',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const smallButton = 'px-3 py-1 text-xs rounded-full bg-neutral-700 text-brand-light hover:bg-neutral-600 disabled:opacity-50 disabled:cursor-not-allowed';
+
+interface ShotCardProps {
+  index: number;
+  count: number;
+  shot: StoryboardShot;
+  clip?: ShotClip;
+  // A take started after the current clip, while it runs or if it failed.
+  job?: VideoJob;
+  aspectRatio: AspectRatio;
+  // Set when the clip was generated from a different take of the previous shot.
+  isOutOfSequence: boolean;
+  canGenerate: boolean;
+  startFrame?: { file: File; url: string } | null;
+  onStartFrameChange?: (file: File) => void;
+  onPromptChange: (prompt: string) => void;
+  onMove: (offset: number) => void;
+  onRemove: () => void;
+  onGenerate: () => void;
+}
+
+const ShotCard: React.FC<ShotCardProps> = ({
+  index,
+  count,
+  shot,
+  clip,
+  job,
+  aspectRatio,
+  isOutOfSequence,
+  canGenerate,
+  startFrame,
+  onStartFrameChange,
+  onPromptChange,
+  onMove,
+  onRemove,
+  onGenerate,
+}) => {
+  const isBusy = !!job && isJobActive(job);
+  const videoUrl = useAssetUrl(isBusy ? undefined : clip?.assetId);
+
+  return (
+    <li className="flex flex-col sm:flex-row gap-4 p-3 bg-brand-gray rounded-lg border border-neutral-700">
+      <div className={`sm:w-56 shrink-0 ${aspectRatio === '16:9' ? 'aspect-video' : 'aspect-[9/16] max-h-72'} bg-brand-dark rounded-lg flex items-center justify-center overflow-hidden relative`}>
+        {videoUrl ? (
+          <video src={videoUrl} controls muted className="w-full h-full object-contain" />
+        ) : isBusy ? (
+          <Spinner />
+        ) : onStartFrameChange ? (
+          <>
+            {startFrame ? (
+              <img src={startFrame.url} alt="Starting frame" className="w-full h-full object-cover" />
+            ) : (
+              <span className="text-neutral-500 text-xs text-center p-2">Starting image (optional)</span>
+            )}
+            <input type="file" accept="image/*" onChange={(e) => e.target.files?.[0] && onStartFrameChange(e.target.files[0])} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer" />
+          </>
+        ) : (
+          <span className="text-neutral-500 text-xs text-center p-2">Starts from the last frame of shot {index}</span>
+        )}
+      </div>
+      <div className="flex flex-col gap-2 flex-grow min-w-0">
+        <div className="flex items-center gap-2">
+          <h4 className="font-semibold text-brand-light flex-grow">Shot {index + 1}</h4>
+          {job ? (
+            <span className={`text-xs ${job.status === 'failed' ? 'text-red-400' : 'text-neutral-400'}`}>{STATUS_LABELS[job.status]}</span>
+          ) : clip && <span className="text-xs text-neutral-400">{STATUS_LABELS.succeeded}</span>}
+        </div>
+        <textarea
+          value={shot.prompt}
+          onChange={(e) => onPromptChange(e.target.value)}
+          placeholder={index === 0 ? 'e.g., A lighthouse on a cliff at dawn, waves crashing below' : 'What happens next in this shot?'}
+          rows={3}
+          disabled={isBusy}
+          className="w-full p-2 bg-brand-dark border border-neutral-700 rounded-lg text-brand-light placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-brand-accent"
+        />
+        {job?.status === 'failed' && job.error && <p className="text-xs text-red-400">{job.error}</p>}
+        {isOutOfSequence && (
+          <p className="text-xs text-yellow-400">The previous shot has changed since this clip was made. Regenerate it to keep the sequence continuous.</p>
+        )}
+        <div className="flex flex-wrap gap-2">
+          <button onClick={onGenerate} disabled={!canGenerate || isBusy || !shot.prompt.trim()} className={smallButton}>
+            {job || clip ? 'Regenerate' : 'Generate'}
+          </button>
+          <button onClick={() => onMove(-1)} disabled={index === 0} className={smallButton} aria-label="Move shot earlier">Up</button>
+          <button onClick={() => onMove(1)} disabled={index === count - 1} className={smallButton} aria-label="Move shot later">Down</button>
+          <button onClick={onRemove} disabled={count === 1} className={`${smallButton} hover:bg-red-600`}>Remove</button>
+        </div>
+      </div>
+    </li>
+  );
+};
+
+// A sequence of Veo shots where each clip starts from the last frame of the
+// one before it. Shots and their finished clips are saved with the page, so
+// dismissing a job from the tray does not drop its clip; jobs are only used
+// to follow takes still in progress.
+const Storyboard: React.FC = () => {
+  const [storyboard, setStoryboard] = usePersistentState<StoryboardState>('video.storyboard', { aspectRatio: '16:9', shots: [newShot()] });
+  const [startFrame, setStartFrame] = useState<{ file: File; url: string } | null>(null);
+  const [isChaining, setIsChaining] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const submittingRef = useRef<Set<string>>(new Set());
+  const chainedJobsRef = useRef<Set<string>>(new Set());
+  const { aspectRatio, shots } = storyboard;
+
+  const jobs = useVideoJobs();
+  // The newest clip for the shot, including a take that finished since the
+  // storyboard was last saved.
+  const clipFor = (shot: StoryboardShot): ShotClip | undefined => {
+    const job = jobs.find(item => item.shot?.shotId === shot.id && item.status === 'succeeded' && item.assetId);
+    if (job && (!shot.clip || job.createdAt > shot.clip.createdAt)) {
+      return { assetId: job.assetId!, startFrameAssetId: job.shot?.startFrameAssetId, createdAt: job.createdAt };
+    }
+    return shot.clip;
+  };
+  const pendingJobFor = (shot: StoryboardShot): VideoJob | undefined => {
+    const job = jobs.find(item => item.shot?.shotId === shot.id);
+    return job && job.createdAt > (clipFor(shot)?.createdAt ?? 0) ? job : undefined;
+  };
+  const clipIds = shots.flatMap(shot => clipFor(shot)?.assetId ?? []);
+
+  // Save clips as their jobs finish.
+  useEffect(() => {
+    setStoryboard(current => {
+      let changed = false;
+      const next = current.shots.map(shot => {
+        const clip = clipFor(shot);
+        if (clip === shot.clip) return shot;
+        changed = true;
+        return { ...shot, clip };
+      });
+      return changed ? { ...current, shots: next } : current;
+    });
+  }, [jobs]);
+
+  useEffect(() => () => { if (startFrame) URL.revokeObjectURL(startFrame.url); }, [startFrame]);
+
+  const updateShots = (update: (shots: StoryboardShot[]) => StoryboardShot[]) =>
+    setStoryboard(current => ({ ...current, shots: update(current.shots) }));
+
+  const moveShot = (index: number, offset: number) => updateShots(current => {
+    const next = [...current];
+    const [shot] = next.splice(index, 1);
+    next.splice(index + offset, 0, shot);
+    return next;
+  });
+
+  const removeShot = (shot: StoryboardShot) => {
+    if (shot.prompt.trim() && !window.confirm('Remove this shot? Its clip stays in the library.')) return;
+    updateShots(current => current.filter(item => item.id !== shot.id));
+  };
+
+  const generateShot = useCallback(async (index: number): Promise<VideoJob | undefined> => {
+    const shot = shots[index];
+    if (submittingRef.current.has(shot.id)) return undefined;
+    submittingRef.current.add(shot.id);
+    setError(null);
+
+    try {
+      let image: InlineData | undefined;
+      let startFrameAssetId: string | undefined;
+      if (index === 0) {
+        if (startFrame) image = { data: await blobToBase64(startFrame.file), mimeType: startFrame.file.type };
+      } else {
+        const previous = clipFor(shots[index - 1]);
+        const asset = previous ? await getAsset(previous.assetId) : undefined;
+        if (!previous || !asset) throw new Error(`Shot ${index} has no clip to continue from.`);
+        image = await captureVideoFrame(asset.blob);
+        startFrameAssetId = previous.assetId;
+      }
+      return await submitVideoJob(
+        GeneratorMode.VIDEO,
+        { model: MODELS.video, prompt: shot.prompt, aspectRatio, image },
+        { shot: { shotId: shot.id, startFrameAssetId } },
+      );
+    } catch (e: any) {
+      console.error(e);
+      setError(`Failed to start shot ${index + 1}. ${e.message || 'An unknown error occurred.'}`);
+      setIsChaining(false);
+      return undefined;
+    } finally {
+      submittingRef.current.delete(shot.id);
+    }
+  }, [shots, jobs, startFrame, aspectRatio]);
+
+  // While chaining, generate the first shot without a finished clip once the
+  // shot before it is ready, until the sequence is complete or a shot fails.
+  useEffect(() => {
+    if (!isChaining) return;
+    const index = shots.findIndex(shot => !clipFor(shot));
+    if (index === -1) {
+      setIsChaining(false);
+      return;
+    }
+    const job = pendingJobFor(shots[index]);
+    if (job && isJobActive(job)) return;
+    if (job && chainedJobsRef.current.has(job.id)) {
+      setError(`Shot ${index + 1} did not finish, so the sequence stopped there.`);
+      setIsChaining(false);
+      return;
+    }
+    if (!shots[index].prompt.trim()) {
+      setError(`Shot ${index + 1} needs a prompt.`);
+      setIsChaining(false);
+      return;
+    }
+    generateShot(index).then(started => { if (started) chainedJobsRef.current.add(started.id); });
+  }, [isChaining, shots, jobs, generateShot]);
+
+  const startChain = () => {
+    chainedJobsRef.current.clear();
+    setError(null);
+    setIsChaining(true);
+  };
+
+  const remaining = shots.filter(shot => !clipFor(shot)).length;
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-sm font-medium text-neutral-400">Aspect Ratio</span>
+        {(['16:9', '9:16'] as AspectRatio[]).map(ratio => (
+          <button
+            key={ratio}
+            onClick={() => setStoryboard(current => ({ ...current, aspectRatio: ratio }))}
+            disabled={isChaining}
+            className={`px-4 py-2 text-sm font-medium rounded-full transition-colors duration-300 ${aspectRatio === ratio ? 'bg-brand-accent text-brand-dark' : 'bg-brand-gray text-brand-light hover:bg-neutral-700'}`}
+          >
+            {ratio === '16:9' ? 'Landscape' : 'Portrait'}
+          </button>
+        ))}
+      </div>
+
+      <ol className="flex flex-col gap-3">
+        {shots.map((shot, index) => {
+          const clip = clipFor(shot);
+          const previousClip = index > 0 ? clipFor(shots[index - 1]) : undefined;
+          return (
+            <ShotCard
+              key={shot.id}
+              index={index}
+              count={shots.length}
+              shot={shot}
+              clip={clip}
+              job={pendingJobFor(shot)}
+              aspectRatio={aspectRatio}
+              isOutOfSequence={index > 0 && !!clip && clip.startFrameAssetId !== previousClip?.assetId}
+              canGenerate={!isChaining && (index === 0 || !!previousClip)}
+              startFrame={index === 0 ? startFrame : undefined}
+              onStartFrameChange={index === 0 ? (file) => setStartFrame({ file, url: URL.createObjectURL(file) }) : undefined}
+              onPromptChange={(prompt) => updateShots(current => current.map(item => item.id === shot.id ? { ...item, prompt } : item))}
+              onMove={(offset) => moveShot(index, offset)}
+              onRemove={() => removeShot(shot)}
+              onGenerate={() => generateShot(index)}
+            />
+          );
+        })}
+      </ol>
+
+      <div className="flex flex-col sm:flex-row gap-3">
+        <button
+          onClick={() => updateShots(current => [...current, newShot()])}
+          className="flex-1 py-3 px-4 rounded-lg border border-dashed border-neutral-700 text-neutral-300 hover:bg-brand-gray"
+        >
+          Add Shot
+        </button>
+        <button
+          onClick={isChaining ? () => setIsChaining(false) : startChain}
+          disabled={!isChaining && remaining === 0}
+          className="flex-1 flex justify-center items-center gap-2 bg-brand-accent text-brand-dark font-semibold py-3 px-4 rounded-lg transition-all duration-300 hover:bg-neutral-300 disabled:bg-brand-gray disabled:text-neutral-500 disabled:cursor-not-allowed focus:outline-none focus-visible:ring-2 focus-visible:ring-brand-accent focus-visible:ring-offset-2 focus-visible:ring-offset-black"
+        >
+          {isChaining ? <><Spinner /> Stop After Current Shot</> : `Generate ${remaining === shots.length ? 'All Shots' : `Remaining ${remaining} Shot${remaining === 1 ? '' : 's'}`}`}
+        </button>
+      </div>
+      <p className="text-xs text-neutral-500 text-center">Each shot takes a few minutes and starts from the last frame of the one before it. Jobs keep running in the background; stay on this page to chain the next shot automatically.</p>
+
+      {error && <p className="text-red-400 text-center">{error}</p>}
+
+      {clipIds.length > 0 && (
+        <div className="flex flex-col gap-2">
+          <h3 className="font-semibold text-brand-accent">Sequence Preview</h3>
+          <SequencePlayer assetIds={clipIds} className={aspectRatio === '16:9' ? 'aspect-video' : 'aspect-[9/16] max-h-[70vh]'} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Storyboard;
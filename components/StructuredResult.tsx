@@ -0,0 +1,56 @@
+import React, { useMemo } from 'react';
+import { CsvRow } from '../utils/csv';
+
+const HEX_COLOR = /^#[0-9a-f]{3,8}$/i;
+
+const Cell: React.FC<{ value: CsvRow[string] }> = ({ value }) => {
+  if (typeof value === 'string' && HEX_COLOR.test(value)) {
+    return (
+      <span className="flex items-center gap-2">
+        <span className="inline-block h-4 w-4 rounded border border-neutral-600" style={{ backgroundColor: value }} />
+        {value}
+      </span>
+    );
+  }
+  if (typeof value === 'boolean') return <>{value ? 'Yes' : 'No'}</>;
+  return <>{value ?? ''}</>;
+};
+
+interface StructuredResultProps {
+  rows: CsvRow[];
+  data: unknown;
+}
+
+// Shows a structured analysis as a table, with the raw JSON underneath.
+const StructuredResult: React.FC<StructuredResultProps> = ({ rows, data }) => {
+  const columns = useMemo(() => [...new Set(rows.flatMap(row => Object.keys(row)))], [rows]);
+
+  return (
+    <div className="flex flex-col gap-3">
+      {rows.length === 0 ? (
+        <p className="text-neutral-500">Nothing found.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="text-neutral-400 border-b border-neutral-700">
+              <tr>{columns.map(column => <th key={column} className="py-2 pr-4 font-medium">{column}</th>)}</tr>
+            </thead>
+            <tbody className="text-neutral-300">
+              {rows.map((row, index) => (
+                <tr key={index} className="border-b border-neutral-800 align-top">
+                  {columns.map(column => <td key={column} className="py-2 pr-4"><Cell value={row[column]} /></td>)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      <details className="text-sm">
+        <summary className="cursor-pointer text-neutral-400 hover:text-brand-light">Raw JSON</summary>
+        <pre className="mt-2 p-3 bg-brand-dark rounded-lg overflow-x-auto text-neutral-300">{JSON.stringify(data, null, 2)}</pre>
+      </details>
+    </div>
+  );
+};
+
+export default StructuredResult;
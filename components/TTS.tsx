@@ -1,62 +1,33 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { GoogleGenAI, Modality } from '@google/genai';
+import React, { useState, useCallback, useMemo } from 'react';
 import Spinner from './Spinner';
+import PromptLibrary from './PromptLibrary';
+import WaveformPlayer from './WaveformPlayer';
+import { GeneratorMode } from '../types';
+import { usePersistentState } from '../hooks/usePersistentState';
+import { recordAsset } from '../services/assetStore';
+import { MODELS, OUTPUT_SAMPLE_RATE, synthesizeSpeech, VoiceName, VOICES } from '../services/gemini';
+import { concatPcm, pcmToWav } from '../utils/audio';
+import { downloadBlob } from '../utils/media';
+import { chunkScript, detectSpeakers } from '../utils/speechScript';
 
-// Helper function to decode base64 audio data
-function decode(base64: string) {
-  const binaryString = atob(base64);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes;
-}
-
-// Helper function to convert raw PCM data to an AudioBuffer
-async function decodeAudioData(
-  data: Uint8Array,
-  ctx: AudioContext,
-  sampleRate: number,
-  numChannels: number,
-): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-    }
-  }
-  return buffer;
-}
-
-
-type VoiceName = 'Kore' | 'Puck' | 'Charon' | 'Fenrir' | 'Zephyr';
-const VOICES: VoiceName[] = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Zephyr'];
+const voiceButtonClass = (isSelected: boolean) =>
+  `px-4 py-2 text-sm font-medium rounded-full transition-colors duration-300 focus:outline-none focus-visible:ring-2 focus-visible:ring-brand-accent focus-visible:ring-offset-2 focus-visible:ring-offset-brand-gray ${isSelected ? 'bg-brand-accent text-brand-dark' : 'bg-brand-gray text-brand-light hover:bg-neutral-700'}`;
 
 const TTS: React.FC = () => {
-  const [prompt, setPrompt] = useState<string>('');
-  const [selectedVoice, setSelectedVoice] = useState<VoiceName>('Zephyr');
+  const [prompt, setPrompt] = usePersistentState<string>('tts.prompt', '');
+  const [selectedVoice, setSelectedVoice] = usePersistentState<VoiceName>('tts.voice', 'Zephyr');
+  const [speakerVoices, setSpeakerVoices] = usePersistentState<Record<string, VoiceName>>('tts.speakerVoices', {});
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [audio, setAudio] = useState<Blob | null>(null);
   const [error, setError] = useState<string | null>(null);
-  
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
 
-  useEffect(() => {
-    // Initialize AudioContext on first interaction (or component mount)
-    // and handle vendor prefixes for cross-browser compatibility.
-    audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({sampleRate: 24000});
-    
-    return () => {
-        // Cleanup audio resources on unmount
-        audioSourceRef.current?.stop();
-        audioContextRef.current?.close();
-    }
-  }, []);
+  // "Speaker: line" scripts with two or more speakers are read as a dialogue.
+  const speakers = useMemo(() => detectSpeakers(prompt), [prompt]);
+  const voiceFor = useCallback(
+    (speaker: string) => speakerVoices[speaker] ?? VOICES[Math.max(speakers.indexOf(speaker), 0) % VOICES.length],
+    [speakerVoices, speakers],
+  );
 
   const handleGenerate = useCallback(async () => {
     if (!prompt.trim()) {
@@ -65,83 +36,97 @@ const TTS: React.FC = () => {
     }
     setIsLoading(true);
     setError(null);
-
-    // Stop any currently playing audio
-    if (audioSourceRef.current) {
-        audioSourceRef.current.stop();
-    }
+    setAudio(null);
 
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash-preview-tts",
-        contents: [{ parts: [{ text: prompt }] }],
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-              voiceConfig: {
-                prebuiltVoiceConfig: { voiceName: selectedVoice },
-              },
-          },
-        },
-      });
-      
-      const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-      if (base64Audio) {
-        const audioBuffer = await decodeAudioData(
-            decode(base64Audio),
-            audioContextRef.current!,
-            24000,
-            1,
-        );
-        const source = audioContextRef.current!.createBufferSource();
-        source.buffer = audioBuffer;
-        source.connect(audioContextRef.current!.destination);
-        source.start();
-        audioSourceRef.current = source;
-      } else {
-        throw new Error("No audio data received from the API.");
+      const chunks = chunkScript(prompt);
+      const parts: Uint8Array[] = [];
+      for (const [index, chunk] of chunks.entries()) {
+        setProgress({ done: index, total: chunks.length });
+        parts.push(await synthesizeSpeech({
+          text: chunk.text,
+          voice: chunk.speakers.length === 1 ? voiceFor(chunk.speakers[0]) : selectedVoice,
+          speakers: chunk.speakers.length === 2
+            ? chunk.speakers.map(speaker => ({ speaker, voice: voiceFor(speaker) }))
+            : undefined,
+        }));
       }
+      const wav = pcmToWav(concatPcm(parts), OUTPUT_SAMPLE_RATE, 1);
+      setAudio(wav);
+      recordAsset({
+        kind: 'audio',
+        mode: GeneratorMode.TTS,
+        blob: wav,
+        mimeType: 'audio/wav',
+        prompt,
+        model: MODELS.tts,
+        metadata: speakers.length > 0
+          ? { speakers: speakers.map(speaker => `${speaker}: ${voiceFor(speaker)}`).join(', ') }
+          : { voice: selectedVoice },
+      });
 
     } catch (e) {
       console.error(e);
       setError('Failed to generate speech. Please check your API key and try again.');
     } finally {
       setIsLoading(false);
+      setProgress(null);
     }
-  }, [prompt, selectedVoice]);
+  }, [prompt, selectedVoice, speakers, voiceFor]);
 
   return (
     <div className="flex flex-col gap-6 animate-fade-in">
       <div>
         <h2 className="text-2xl font-bold text-brand-accent">Text-to-Speech</h2>
-        <p className="text-neutral-400 mt-1">Convert text into natural-sounding speech with a choice of voices.</p>
+        <p className="text-neutral-400 mt-1">Convert text into natural-sounding speech with a choice of voices. Long scripts are split up and stitched back together, and "Speaker: line" scripts are read as a dialogue.</p>
       </div>
 
       <div className="flex flex-col gap-4">
+        <PromptLibrary mode={GeneratorMode.TTS} currentPrompt={prompt} onInsert={setPrompt} disabled={isLoading} />
         <textarea
           value={prompt}
           onChange={(e) => setPrompt(e.target.value)}
-          placeholder="e.g., Say cheerfully: Have a wonderful day!"
+          placeholder={'e.g., Say cheerfully: Have a wonderful day!\n\nOr a dialogue:\nJoe: How\'s it going today, Jane?\nJane: Not too bad, how about you?'}
           className="w-full p-3 bg-brand-gray border border-neutral-700 rounded-lg text-brand-light placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-brand-accent transition-shadow duration-300 min-h-[150px]"
           rows={5}
           disabled={isLoading}
         />
-        <div className="flex flex-col gap-3">
-            <label className="text-sm font-medium text-neutral-400">Select a Voice</label>
-            <div className="flex flex-wrap gap-2">
+        {speakers.length > 0 ? (
+          <div className="flex flex-col gap-3">
+            <label className="text-sm font-medium text-neutral-400">Speaker Voices</label>
+            {speakers.map(speaker => (
+              <div key={speaker} className="flex flex-wrap items-center gap-2">
+                <span className="w-28 truncate text-sm text-brand-light" title={speaker}>{speaker}</span>
                 {VOICES.map(voice => (
-                    <button 
-                        key={voice}
-                        onClick={() => setSelectedVoice(voice)}
-                        disabled={isLoading}
-                        className={`px-4 py-2 text-sm font-medium rounded-full transition-colors duration-300 focus:outline-none focus-visible:ring-2 focus-visible:ring-brand-accent focus-visible:ring-offset-2 focus-visible:ring-offset-brand-gray ${selectedVoice === voice ? 'bg-brand-accent text-brand-dark' : 'bg-brand-gray text-brand-light hover:bg-neutral-700'}`}
-                    >
-                        {voice}
-                    </button>
+                  <button
+                    key={voice}
+                    onClick={() => setSpeakerVoices({ ...speakerVoices, [speaker]: voice })}
+                    disabled={isLoading}
+                    className={voiceButtonClass(voiceFor(speaker) === voice)}
+                  >
+                    {voice}
+                  </button>
                 ))}
-            </div>
-        </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="flex flex-col gap-3">
+              <label className="text-sm font-medium text-neutral-400">Select a Voice</label>
+              <div className="flex flex-wrap gap-2">
+                  {VOICES.map(voice => (
+                      <button
+                          key={voice}
+                          onClick={() => setSelectedVoice(voice)}
+                          disabled={isLoading}
+                          className={voiceButtonClass(selectedVoice === voice)}
+                      >
+                          {voice}
+                      </button>
+                  ))}
+              </div>
+          </div>
+        )}
         <button
           onClick={handleGenerate}
           disabled={isLoading || !prompt}
@@ -149,7 +134,7 @@ const TTS: React.FC = () => {
         >
           {isLoading ? (
             <>
-              <Spinner /> Generating Audio...
+              <Spinner /> {progress && progress.total > 1 ? `Generating Part ${progress.done + 1} of ${progress.total}...` : 'Generating Audio...'}
             </>
           ) : (
             'Generate & Play'
@@ -158,6 +143,18 @@ const TTS: React.FC = () => {
       </div>
 
       {error && <p className="text-red-400 text-center">{error}</p>}
+
+      {audio && (
+        <div className="flex flex-col gap-3 p-4 bg-brand-gray rounded-lg border border-neutral-700 animate-fade-in">
+          <WaveformPlayer src={audio} autoPlay />
+          <button
+            onClick={() => downloadBlob(audio, 'speech.wav')}
+            className="self-end px-3 py-1 text-sm rounded-full bg-neutral-700 text-brand-light hover:bg-neutral-600"
+          >
+            Download WAV
+          </button>
+        </div>
+      )}
     </div>
   );
 };
@@ -1,56 +1,41 @@
 import React, { useState, useRef, useCallback, useEffect } from 'react';
-// FIX: Removed LiveSession as it is not an exported member.
-import { GoogleGenAI, LiveServerMessage, Modality, Blob as GenAIBlob } from '@google/genai';
+import { LiveServerMessage, Session } from '@google/genai';
+import FileTranscriber from './FileTranscriber';
+import MicrophoneControls from './MicrophoneControls';
+import { usePersistentState } from '../hooks/usePersistentState';
+import { connectLive } from '../services/gemini';
+import { AudioCapture, startAudioCapture } from '../utils/audioCapture';
 
-// Helper functions for audio processing, embedded directly
-function encode(bytes: Uint8Array) {
-  let binary = '';
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  return btoa(binary);
-}
-function createBlob(data: Float32Array): GenAIBlob {
-    const l = data.length;
-    const int16 = new Int16Array(l);
-    for (let i = 0; i < l; i++) {
-        int16[i] = data[i] * 32768;
-    }
-    return {
-        data: encode(new Uint8Array(int16.buffer)),
-        mimeType: 'audio/pcm;rate=16000',
-    };
-}
+type TranscriptionSource = 'microphone' | 'file';
 
+const SOURCES: { value: TranscriptionSource; label: string }[] = [
+  { value: 'microphone', label: 'Live Microphone' },
+  { value: 'file', label: 'Upload File' },
+];
 
 const Transcriber: React.FC = () => {
+  const [source, setSource] = usePersistentState<TranscriptionSource>('transcriber.source', 'microphone');
   const [isRecording, setIsRecording] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [transcription, setTranscription] = useState<string>('');
+  const [deviceId, setDeviceId] = usePersistentState<string>('audioInput.deviceId', '');
+  const [skipSilence, setSkipSilence] = usePersistentState<boolean>('audioInput.skipSilence', true);
+  const [inputLevel, setInputLevel] = useState<number>(0);
+  const [isSpeaking, setIsSpeaking] = useState<boolean>(false);
   
-  // FIX: Using `any` for session promise as `LiveSession` type is not exported.
-  const sessionPromiseRef = useRef<Promise<any> | null>(null);
-  const mediaStreamRef = useRef<MediaStream | null>(null);
-  const inputAudioContextRef = useRef<AudioContext | null>(null);
-  const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
-  const mediaStreamSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
+  const sessionPromiseRef = useRef<Promise<Session> | null>(null);
+  const captureRef = useRef<AudioCapture | null>(null);
 
   const stopRecording = useCallback(() => {
     sessionPromiseRef.current?.then(session => session.close());
     sessionPromiseRef.current = null;
     
-    mediaStreamRef.current?.getTracks().forEach(track => track.stop());
-    mediaStreamRef.current = null;
-    
-    scriptProcessorRef.current?.disconnect();
-    scriptProcessorRef.current = null;
-    mediaStreamSourceRef.current?.disconnect();
-    mediaStreamSourceRef.current = null;
-    inputAudioContextRef.current?.close();
-    inputAudioContextRef.current = null;
+    captureRef.current?.stop();
+    captureRef.current = null;
     
     setIsRecording(false);
+    setInputLevel(0);
+    setIsSpeaking(false);
   }, []);
   
   const startRecording = useCallback(async () => {
@@ -59,35 +44,27 @@ const Transcriber: React.FC = () => {
     setIsRecording(true);
 
     try {
-        const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-        mediaStreamRef.current = stream;
-
-        // FIX: Added type assertion to handle vendor-prefixed webkitAudioContext.
-        inputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
+        captureRef.current = await startAudioCapture({
+            deviceId,
+            skipSilence,
+            onAudio: (chunk) => {
+                sessionPromiseRef.current?.then((session) => {
+                    session.sendRealtimeInput({ media: chunk });
+                });
+            },
+            onLevel: setInputLevel,
+            onSpeakingChange: (speaking) => {
+                setIsSpeaking(speaking);
+                // Lets the server finish the utterance while no audio is sent.
+                if (!speaking) sessionPromiseRef.current?.then(session => session.sendRealtimeInput({ audioStreamEnd: true }));
+            },
+        });
 
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        sessionPromiseRef.current = ai.live.connect({
-            model: 'gemini-2.5-flash-native-audio-preview-09-2025',
+        sessionPromiseRef.current = connectLive({
             config: {
                 inputAudioTranscription: {},
             },
             callbacks: {
-                onopen: () => {
-                    const source = inputAudioContextRef.current!.createMediaStreamSource(stream);
-                    mediaStreamSourceRef.current = source;
-                    const scriptProcessor = inputAudioContextRef.current!.createScriptProcessor(4096, 1, 1);
-                    scriptProcessorRef.current = scriptProcessor;
-                    
-                    scriptProcessor.onaudioprocess = (audioProcessingEvent) => {
-                        const inputData = audioProcessingEvent.inputBuffer.getChannelData(0);
-                        const pcmBlob = createBlob(inputData);
-                        sessionPromiseRef.current?.then((session) => {
-                            session.sendRealtimeInput({ media: pcmBlob });
-                        });
-                    };
-                    source.connect(scriptProcessor);
-                    scriptProcessor.connect(inputAudioContextRef.current!.destination);
-                },
                 onmessage: async (message: LiveServerMessage) => {
                     if(message.serverContent?.inputTranscription) {
                         setTranscription(prev => prev + message.serverContent.inputTranscription.text);
@@ -99,9 +76,9 @@ const Transcriber: React.FC = () => {
         });
     } catch (e: any) {
         setError(`Failed to start transcription: ${e.message}`);
-        setIsRecording(false);
+        stopRecording();
     }
-  }, [stopRecording]);
+  }, [stopRecording, deviceId, skipSilence]);
 
   useEffect(() => {
     return () => {
@@ -114,25 +91,53 @@ const Transcriber: React.FC = () => {
     <div className="flex flex-col gap-6 animate-fade-in">
       <div>
         <h2 className="text-2xl font-bold text-brand-accent">Transcribe Audio</h2>
-        <p className="text-neutral-400 mt-1">Record audio from your microphone for a live transcription.</p>
+        <p className="text-neutral-400 mt-1">Record audio from your microphone for a live transcription, or upload a recording for a timed transcript with speaker labels.</p>
       </div>
 
-      <div className="flex flex-col items-center gap-4">
-        <button
-          onClick={isRecording ? stopRecording : startRecording}
-          className={`w-full max-w-sm flex justify-center items-center gap-2 font-semibold py-3 px-4 rounded-lg transition-all duration-300 ${isRecording ? 'bg-red-500 hover:bg-red-600' : 'bg-brand-accent hover:bg-neutral-300'} text-brand-dark focus:outline-none focus-visible:ring-2 focus-visible:ring-brand-accent focus-visible:ring-offset-2 focus-visible:ring-offset-black`}
-        >
-          {isRecording ? 'Stop Recording' : 'Start Recording'}
-        </button>
+      <div className="flex flex-wrap gap-2">
+        {SOURCES.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => setSource(value)}
+            disabled={isRecording}
+            className={`px-4 py-2 text-sm font-medium rounded-full transition-colors duration-300 disabled:cursor-not-allowed ${source === value ? 'bg-brand-accent text-brand-dark' : 'bg-brand-gray text-brand-light hover:bg-neutral-700'}`}
+          >
+            {label}
+          </button>
+        ))}
       </div>
 
-      {error && <p className="text-red-400 text-center">{error}</p>}
-      
-      <div className="w-full p-4 bg-brand-gray rounded-lg border border-neutral-700 min-h-[300px]">
-        <p className="text-neutral-300 whitespace-pre-wrap">
-            {transcription || <span className="text-neutral-500">Transcription will appear here...</span>}
-        </p>
-      </div>
+      {source === 'file' ? (
+        <FileTranscriber />
+      ) : (
+        <>
+          <div className="flex flex-col items-center gap-4">
+            <button
+              onClick={isRecording ? stopRecording : startRecording}
+              className={`w-full max-w-sm flex justify-center items-center gap-2 font-semibold py-3 px-4 rounded-lg transition-all duration-300 ${isRecording ? 'bg-red-500 hover:bg-red-600' : 'bg-brand-accent hover:bg-neutral-300'} text-brand-dark focus:outline-none focus-visible:ring-2 focus-visible:ring-brand-accent focus-visible:ring-offset-2 focus-visible:ring-offset-black`}
+            >
+              {isRecording ? 'Stop Recording' : 'Start Recording'}
+            </button>
+            <MicrophoneControls
+              deviceId={deviceId}
+              onDeviceChange={setDeviceId}
+              skipSilence={skipSilence}
+              onSkipSilenceChange={setSkipSilence}
+              level={inputLevel}
+              isCapturing={isRecording}
+              isSpeaking={isSpeaking}
+            />
+          </div>
+
+          {error && <p className="text-red-400 text-center">{error}</p>}
+
+          <div className="w-full p-4 bg-brand-gray rounded-lg border border-neutral-700 min-h-[300px]">
+            <p className="text-neutral-300 whitespace-pre-wrap">
+                {transcription || <span className="text-neutral-500">Transcription will appear here...</span>}
+            </p>
+          </div>
+        </>
+      )}
     </div>
   );
 };
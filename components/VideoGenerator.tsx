@@ -1,7 +1,29 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-// FIX: Removed GenerateVideosRequest as it is not an exported member.
-import { GoogleGenAI } from '@google/genai';
 import Spinner from './Spinner';
+import PromptLibrary from './PromptLibrary';
+import Storyboard from './Storyboard';
+import VideoTimeline from './VideoTimeline';
+import { GeneratorMode } from '../types';
+import { useAssetUrl } from '../hooks/useAssetUrl';
+import { useVideoJobs } from '../hooks/useVideoJobs';
+import { useHandoff } from '../hooks/useHandoff';
+import { usePersistentState } from '../hooks/usePersistentState';
+import {
+  canSelectApiKey,
+  GenerateVideoRequest,
+  getVideoModel,
+  hasSelectedApiKey,
+  InlineData,
+  MODELS,
+  openSelectKey,
+  validateVideoRequest,
+  VIDEO_MODELS,
+  VideoAspectRatio as AspectRatio,
+  VideoResolution,
+} from '../services/gemini';
+import { handoffToFile } from '../services/handoff';
+import { canExtendJob, isJobActive, submitVideoJob } from '../services/videoJobs';
+import { blobToBase64 } from '../utils/media';
 
 const LOADING_MESSAGES = [
   "Warming up the digital canvas...",
@@ -12,41 +34,77 @@ const LOADING_MESSAGES = [
   "Finalizing your masterpiece...",
 ];
 
-type AspectRatio = '16:9' | '9:16';
-
-const fileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.readAsDataURL(file);
-      reader.onload = () => {
-        const result = reader.result as string;
-        const base64 = result.split(',')[1];
-        resolve(base64);
-      };
-      reader.onerror = (error) => reject(error);
-    });
-};
+type VideoLayout = 'single' | 'storyboard' | 'timeline';
+
+const LAYOUTS: { value: VideoLayout; label: string }[] = [
+  { value: 'single', label: 'Single Clip' },
+  { value: 'storyboard', label: 'Storyboard' },
+  { value: 'timeline', label: 'Timeline' },
+];
+
+const fileToInlineData = async (file: File): Promise<InlineData> => ({
+  data: await blobToBase64(file),
+  mimeType: file.type,
+});
+
+// Stands in for an uploaded frame while validating, before it is encoded.
+const framePlaceholder = (file: File | null): InlineData | undefined =>
+  file ? { data: '', mimeType: file.type } : undefined;
 
 const VideoGenerator: React.FC = () => {
-  const [prompt, setPrompt] = useState<string>('');
-  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [layout, setLayout] = usePersistentState<VideoLayout>('video.layout', 'single');
+  const [prompt, setPrompt] = usePersistentState<string>('video.prompt', '');
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [apiKeySelected, setApiKeySelected] = useState<boolean>(false);
   const [loadingMessage, setLoadingMessage] = useState<string>(LOADING_MESSAGES[0]);
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
-  const [aspectRatio, setAspectRatio] = useState<AspectRatio>('16:9');
+  const [endFile, setEndFile] = useState<File | null>(null);
+  const [endPreview, setEndPreview] = useState<string | null>(null);
+  const [aspectRatio, setAspectRatio] = usePersistentState<AspectRatio>('video.aspectRatio', '16:9');
+  const [model, setModel] = usePersistentState<string>('video.model', MODELS.video);
+  const [resolution, setResolution] = usePersistentState<VideoResolution>('video.resolution', '720p');
+  const [negativePrompt, setNegativePrompt] = usePersistentState<string>('video.negativePrompt', '');
+  const [extendJobId, setExtendJobId] = useState<string>('');
   const intervalRef = useRef<number | null>(null);
 
+  // The preview follows the most recent job started from this mode, which keeps
+  // running in the background if the user switches tabs or reloads. Storyboard
+  // shots are shown by the storyboard instead.
+  const jobs = useVideoJobs();
+  const latestJob = jobs.find(job => job.mode === GeneratorMode.VIDEO && !job.shot);
+  const isGenerating = !!latestJob && isJobActive(latestJob);
+  const videoUrl = useAssetUrl(latestJob?.status === 'succeeded' ? latestJob.assetId : undefined);
+  const jobError = latestJob?.status === 'failed' ? latestJob.error : undefined;
+
+  // Only 720p Veo videos the API still holds can be extended. The extension
+  // keeps the source video's aspect ratio.
+  const extendableJobs = jobs.filter(job =>
+    job.mode === GeneratorMode.VIDEO && canExtendJob(job) && (job.request.resolution ?? '720p') === '720p');
+  const extendJob = extendableJobs.find(job => job.id === extendJobId);
+  const modelOption = getVideoModel(model);
+  const effectiveAspectRatio = extendJob?.request.aspectRatio ?? aspectRatio;
+  // Frames hidden by the current choices are kept but not sent.
+  const startFile = extendJob ? null : imageFile;
+  const lastFrameFile = extendJob || !modelOption?.lastFrame ? null : endFile;
+
+  const draftRequest: GenerateVideoRequest = {
+    model,
+    prompt,
+    aspectRatio: effectiveAspectRatio,
+    resolution,
+    negativePrompt,
+    extendVideoUri: extendJob?.videoUri,
+  };
+  const validationError = validateVideoRequest({
+    ...draftRequest,
+    image: framePlaceholder(startFile),
+    lastFrame: framePlaceholder(lastFrameFile),
+  });
+
   const checkApiKey = useCallback(async () => {
-    if (window.aistudio && typeof window.aistudio.hasSelectedApiKey === 'function') {
-      const hasKey = await window.aistudio.hasSelectedApiKey();
-      setApiKeySelected(hasKey);
-    } else {
-        console.warn('window.aistudio not found. Assuming API key is set in environment.');
-        setApiKeySelected(!!process.env.API_KEY);
-    }
+    setApiKeySelected(await hasSelectedApiKey());
   }, []);
 
   useEffect(() => {
@@ -54,7 +112,14 @@ const VideoGenerator: React.FC = () => {
   }, [checkApiKey]);
   
   useEffect(() => {
-    if (isLoading) {
+    if (jobError?.includes("Requested entity was not found")) {
+      setApiKeySelected(false);
+      setError("API key is invalid or not found. Please select a valid key.");
+    }
+  }, [jobError]);
+
+  useEffect(() => {
+    if (isGenerating) {
       intervalRef.current = window.setInterval(() => {
         setLoadingMessage(prev => {
           const currentIndex = LOADING_MESSAGES.indexOf(prev);
@@ -69,92 +134,71 @@ const VideoGenerator: React.FC = () => {
     return () => {
       if (intervalRef.current) clearInterval(intervalRef.current);
     };
-  }, [isLoading]);
+  }, [isGenerating]);
   
+  const setStartFrame = (file: File) => {
+    setImageFile(file);
+    setImagePreview(URL.createObjectURL(file));
+  };
+
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) setStartFrame(file);
+  };
+
+  const handleEndImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
-      setImageFile(file);
-      setImagePreview(URL.createObjectURL(file));
+      setEndFile(file);
+      setEndPreview(URL.createObjectURL(file));
     }
   };
 
+  const clearFrames = () => {
+    setImageFile(null);
+    setImagePreview(null);
+    setEndFile(null);
+    setEndPreview(null);
+  };
+
+  useHandoff(GeneratorMode.VIDEO, handoff => {
+    setLayout('single');
+    setExtendJobId('');
+    setStartFrame(handoffToFile(handoff));
+    if (handoff.prompt) setPrompt(current => current || handoff.prompt!);
+  });
+
   const handleSelectKey = async () => {
-    if (window.aistudio && typeof window.aistudio.openSelectKey === 'function') {
-      await window.aistudio.openSelectKey();
+    if (canSelectApiKey()) {
+      await openSelectKey();
       setApiKeySelected(true);
     } else {
         setError("API key selection is not available in this environment.");
     }
   };
 
-  const pollOperation = async (operation: any, ai: GoogleGenAI): Promise<any> => {
-    let currentOperation = operation;
-    while (!currentOperation.done) {
-      await new Promise(resolve => setTimeout(resolve, 10000));
-      try {
-        currentOperation = await ai.operations.getVideosOperation({ operation: currentOperation });
-      } catch (e) {
-        throw new Error('Failed while polling for video status.');
-      }
-    }
-    return currentOperation;
-  };
-  
   const handleGenerate = useCallback(async () => {
-    if (!prompt.trim() && !imageFile) {
-      setError('Please enter a prompt or upload an image.');
+    if (validationError) {
+      setError(validationError);
       return;
     }
     setIsLoading(true);
     setError(null);
-    setVideoUrl(null);
   
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      
-      // FIX: Used `any` type for payload to allow conditional addition of `image` property.
-      const payload: any = {
-        model: 'veo-3.1-fast-generate-preview',
-        prompt: prompt,
-        config: {
-          numberOfVideos: 1,
-          resolution: '720p',
-          aspectRatio: aspectRatio
-        }
-      };
-
-      if (imageFile) {
-        payload.image = {
-          imageBytes: await fileToBase64(imageFile),
-          mimeType: imageFile.type,
-        }
-      }
-
-      let operation = await ai.models.generateVideos(payload);
-      const completedOperation = await pollOperation(operation, ai);
-      
-      const downloadLink = completedOperation.response?.generatedVideos?.[0]?.video?.uri;
-      if (!downloadLink) throw new Error('Video generation succeeded, but no download link was found.');
-      
-      const videoResponse = await fetch(`${downloadLink}&key=${process.env.API_KEY}`);
-      if (!videoResponse.ok) throw new Error(`Failed to download the generated video. Status: ${videoResponse.status}`);
-      
-      const videoBlob = await videoResponse.blob();
-      setVideoUrl(URL.createObjectURL(videoBlob));
+      const request: GenerateVideoRequest = { ...draftRequest };
+      if (startFile) request.image = await fileToInlineData(startFile);
+      if (lastFrameFile) request.lastFrame = await fileToInlineData(lastFrameFile);
+
+      await submitVideoJob(GeneratorMode.VIDEO, request);
   
     } catch (e: any) {
       console.error(e);
-      const errorMessage = e.message || 'An unknown error occurred.';
-      setError(`Failed to generate video. ${errorMessage}`);
-      if (errorMessage.includes("Requested entity was not found")) {
-        setApiKeySelected(false);
-        setError("API key is invalid or not found. Please select a valid key.");
-      }
+      setError(`Failed to start video generation. ${e.message || 'An unknown error occurred.'}`);
     } finally {
       setIsLoading(false);
     }
-  }, [prompt, imageFile, aspectRatio]);
+  }, [validationError, draftRequest, startFile, lastFrameFile]);
 
   if (!apiKeySelected) {
     return (
@@ -172,49 +216,142 @@ const VideoGenerator: React.FC = () => {
     <div className="flex flex-col gap-6 animate-fade-in">
       <div>
         <h2 className="text-2xl font-bold text-brand-accent">Video Generation (Veo)</h2>
-        <p className="text-neutral-400 mt-1">Describe a video, upload a starting image, or both.</p>
+        <p className="text-neutral-400 mt-1">Describe a video, upload starting and ending frames, or extend a video you generated earlier. Use the storyboard to chain several shots into one sequence, and the timeline to trim, join and narrate clips.</p>
       </div>
-      
-      <div className="aspect-video w-full bg-brand-gray border-dashed border-2 border-neutral-700 rounded-lg flex items-center justify-center relative overflow-hidden">
-            {imagePreview ? (
-              <img src={imagePreview} alt="Uploaded preview" className="w-full h-full object-cover"/>
-            ) : (
-              <span className="text-neutral-500 text-sm">Upload a Starting Image (Optional)</span>
-            )}
-            <input type="file" accept="image/*" onChange={handleImageUpload} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer" disabled={isLoading} />
+
+      <div className="flex flex-wrap gap-2">
+        {LAYOUTS.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => setLayout(value)}
+            className={`px-4 py-2 text-sm font-medium rounded-full transition-colors duration-300 ${layout === value ? 'bg-brand-accent text-brand-dark' : 'bg-brand-gray text-brand-light hover:bg-neutral-700'}`}
+          >
+            {label}
+          </button>
+        ))}
       </div>
 
-      <div className="flex flex-col gap-4">
-        <textarea
-          value={prompt}
-          onChange={(e) => setPrompt(e.target.value)}
-          placeholder="e.g., A majestic white horse galloping across a black sand beach at sunset"
-          className="w-full p-3 bg-brand-gray border border-neutral-700 rounded-lg text-brand-light placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-brand-accent transition-shadow duration-300 min-h-[100px]"
-          rows={3}
-          disabled={isLoading}
-        />
-        <div className="flex flex-col gap-3">
-          <label className="text-sm font-medium text-neutral-400">Aspect Ratio</label>
-          <div className="flex gap-2">
-            {(['16:9', '9:16'] as AspectRatio[]).map(ratio => (
-              <button key={ratio} onClick={() => setAspectRatio(ratio)} disabled={isLoading} className={`px-4 py-2 text-sm font-medium rounded-full transition-colors duration-300 ${aspectRatio === ratio ? 'bg-brand-accent text-brand-dark' : 'bg-brand-gray text-brand-light hover:bg-neutral-700'}`}>
-                {ratio === '16:9' ? 'Landscape' : 'Portrait'}
-              </button>
-            ))}
+      {layout === 'storyboard' ? (
+        <Storyboard />
+      ) : layout === 'timeline' ? (
+        <VideoTimeline />
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="flex flex-col gap-2">
+              <label className="text-sm font-medium text-neutral-400">Model</label>
+              <select
+                value={model}
+                onChange={(e) => setModel(e.target.value)}
+                disabled={isLoading}
+                className="p-2 bg-brand-gray border border-neutral-700 rounded-lg text-brand-light focus:outline-none focus:ring-2 focus:ring-brand-accent"
+              >
+                {VIDEO_MODELS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+              </select>
+            </div>
+            <div className="flex flex-col gap-2">
+              <label className="text-sm font-medium text-neutral-400">Extend a Previous Video</label>
+              <select
+                value={extendJob?.id ?? ''}
+                onChange={(e) => setExtendJobId(e.target.value)}
+                disabled={isLoading || !extendableJobs.length}
+                className="p-2 bg-brand-gray border border-neutral-700 rounded-lg text-brand-light focus:outline-none focus:ring-2 focus:ring-brand-accent disabled:text-neutral-500"
+              >
+                <option value="">{extendableJobs.length ? 'No, start a new video' : 'No videos from the last two days'}</option>
+                {extendableJobs.map(job => (
+                  <option key={job.id} value={job.id}>
+                    {(job.request.prompt || 'Untitled video').slice(0, 60)} · {new Date(job.createdAt).toLocaleString()}
+                  </option>
+                ))}
+              </select>
+            </div>
           </div>
-        </div>
-        <button onClick={handleGenerate} disabled={isLoading || (!prompt && !imageFile)} className="w-full flex justify-center items-center gap-2 bg-brand-accent text-brand-dark font-semibold py-3 px-4 rounded-lg transition-all duration-300 hover:bg-neutral-300 disabled:bg-brand-gray disabled:text-neutral-500 disabled:cursor-not-allowed focus:outline-none focus-visible:ring-2 focus-visible:ring-brand-accent focus-visible:ring-offset-2 focus-visible:ring-offset-black">
-          {isLoading ? <><Spinner /> Generating Video...</> : 'Generate Video'}
-        </button>
-      </div>
 
-      {error && <p className="text-red-400 text-center">{error}</p>}
+          {extendJob ? (
+            <p className="text-sm text-neutral-500">The prompt describes what happens next. Extensions keep the original video's {extendJob.request.aspectRatio === '16:9' ? 'landscape' : 'portrait'} framing at 720p.</p>
+          ) : (
+            <div className={`grid gap-4 ${modelOption?.lastFrame ? 'grid-cols-2' : 'grid-cols-1'}`}>
+              <div className="aspect-video w-full bg-brand-gray border-dashed border-2 border-neutral-700 rounded-lg flex items-center justify-center relative overflow-hidden">
+                    {imagePreview ? (
+                      <img src={imagePreview} alt="Uploaded preview" className="w-full h-full object-cover"/>
+                    ) : (
+                      <span className="text-neutral-500 text-sm">Upload a Starting Image (Optional)</span>
+                    )}
+                    <input type="file" accept="image/*" onChange={handleImageUpload} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer" disabled={isLoading} />
+              </div>
+              {modelOption?.lastFrame && (
+                <div className="aspect-video w-full bg-brand-gray border-dashed border-2 border-neutral-700 rounded-lg flex items-center justify-center relative overflow-hidden">
+                      {endPreview ? (
+                        <img src={endPreview} alt="Ending frame preview" className="w-full h-full object-cover"/>
+                      ) : (
+                        <span className="text-neutral-500 text-sm text-center px-2">Upload an Ending Image (Optional)</span>
+                      )}
+                      <input type="file" accept="image/*" onChange={handleEndImageUpload} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer" disabled={isLoading} />
+                </div>
+              )}
+            </div>
+          )}
+          {!extendJob && (imageFile || endFile) && (
+            <button onClick={clearFrames} disabled={isLoading} className="self-start text-xs text-neutral-500 hover:text-brand-light">Clear frames</button>
+          )}
 
-      <div className={`w-full ${aspectRatio === '16:9' ? 'aspect-video' : 'aspect-[9/16]'} bg-brand-gray rounded-lg flex items-center justify-center border border-neutral-700 overflow-hidden`}>
-        {isLoading && (<div className="flex flex-col items-center gap-4 text-neutral-400 text-center p-4"><Spinner /><p className="font-medium">{loadingMessage}</p><p className="text-sm text-neutral-500">Video generation may take several minutes. Please be patient.</p></div>)}
-        {!isLoading && videoUrl && (<video src={videoUrl} controls autoPlay loop className="w-full h-full object-contain animate-fade-in" />)}
-        {!isLoading && !videoUrl && (<p className="text-neutral-500">Your generated video will appear here</p>)}
-      </div>
+          <div className="flex flex-col gap-4">
+            <PromptLibrary mode={GeneratorMode.VIDEO} currentPrompt={prompt} onInsert={setPrompt} disabled={isLoading} />
+            <textarea
+              value={prompt}
+              onChange={(e) => setPrompt(e.target.value)}
+              placeholder="e.g., A majestic white horse galloping across a black sand beach at sunset"
+              className="w-full p-3 bg-brand-gray border border-neutral-700 rounded-lg text-brand-light placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-brand-accent transition-shadow duration-300 min-h-[100px]"
+              rows={3}
+              disabled={isLoading}
+            />
+            <input
+              type="text"
+              value={negativePrompt}
+              onChange={(e) => setNegativePrompt(e.target.value)}
+              placeholder="Negative prompt (optional), e.g., blurry, text overlays, cartoon style"
+              className="w-full p-3 bg-brand-gray border border-neutral-700 rounded-lg text-brand-light placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-brand-accent transition-shadow duration-300"
+              disabled={isLoading}
+            />
+            <div className="flex flex-wrap gap-6">
+              <div className="flex flex-col gap-3">
+                <label className="text-sm font-medium text-neutral-400">Aspect Ratio</label>
+                <div className="flex gap-2">
+                  {(['16:9', '9:16'] as AspectRatio[]).map(ratio => (
+                    <button key={ratio} onClick={() => setAspectRatio(ratio)} disabled={isLoading || !!extendJob} className={`px-4 py-2 text-sm font-medium rounded-full transition-colors duration-300 disabled:cursor-not-allowed ${effectiveAspectRatio === ratio ? 'bg-brand-accent text-brand-dark' : 'bg-brand-gray text-brand-light hover:bg-neutral-700'}`}>
+                      {ratio === '16:9' ? 'Landscape' : 'Portrait'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="flex flex-col gap-3">
+                <label className="text-sm font-medium text-neutral-400">Resolution</label>
+                <div className="flex gap-2">
+                  {(['720p', '1080p'] as VideoResolution[]).map(option => (
+                    <button key={option} onClick={() => setResolution(option)} disabled={isLoading || !modelOption?.resolutions.includes(option)} className={`px-4 py-2 text-sm font-medium rounded-full transition-colors duration-300 disabled:opacity-50 disabled:cursor-not-allowed ${resolution === option ? 'bg-brand-accent text-brand-dark' : 'bg-brand-gray text-brand-light hover:bg-neutral-700'}`}>
+                      {option}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+            {validationError && (prompt.trim() || startFile || extendJob) && <p className="text-sm text-yellow-400">{validationError}</p>}
+            <button onClick={handleGenerate} disabled={isLoading || !!validationError} className="w-full flex justify-center items-center gap-2 bg-brand-accent text-brand-dark font-semibold py-3 px-4 rounded-lg transition-all duration-300 hover:bg-neutral-300 disabled:bg-brand-gray disabled:text-neutral-500 disabled:cursor-not-allowed focus:outline-none focus-visible:ring-2 focus-visible:ring-brand-accent focus-visible:ring-offset-2 focus-visible:ring-offset-black">
+              {isLoading ? <><Spinner /> Starting...</> : isGenerating ? 'Generate Another Video' : 'Generate Video'}
+            </button>
+            {isGenerating && <p className="text-xs text-neutral-500 text-center">Jobs keep running in the background. Track them in the Video Jobs tray above.</p>}
+          </div>
+
+          {error && <p className="text-red-400 text-center">{error}</p>}
+          {!error && jobError && <p className="text-red-400 text-center">Failed to generate video. {jobError}</p>}
+
+          <div className={`w-full ${effectiveAspectRatio === '16:9' ? 'aspect-video' : 'aspect-[9/16]'} bg-brand-gray rounded-lg flex items-center justify-center border border-neutral-700 overflow-hidden`}>
+            {isGenerating && (<div className="flex flex-col items-center gap-4 text-neutral-400 text-center p-4"><Spinner /><p className="font-medium">{loadingMessage}</p><p className="text-sm text-neutral-500">Video generation may take several minutes. You can switch tabs or reload; the job keeps going.</p></div>)}
+            {!isGenerating && videoUrl && (<video src={videoUrl} controls autoPlay loop className="w-full h-full object-contain animate-fade-in" />)}
+            {!isGenerating && !videoUrl && (<p className="text-neutral-500">Your generated video will appear here</p>)}
+          </div>
+        </>
+      )}
     </div>
   );
 };
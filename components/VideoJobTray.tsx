@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import { GeneratorMode } from '../types';
+import { useVideoJobs } from '../hooks/useVideoJobs';
+import { getAsset } from '../services/assetStore';
+import { cancelVideoJob, isJobActive, removeVideoJob, retryVideoJob, VideoJob, VideoJobStatus } from '../services/videoJobs';
+import { downloadBlob, extensionForMimeType } from '../utils/media';
+import Spinner from './Spinner';
+
+const STATUS_STYLES: Record<VideoJobStatus, string> = {
+  pending: 'text-neutral-400',
+  running: 'text-blue-400',
+  succeeded: 'text-green-400',
+  failed: 'text-red-400',
+  cancelled: 'text-neutral-500',
+};
+
+const STATUS_LABELS: Record<VideoJobStatus, string> = {
+  pending: 'Starting',
+  running: 'Generating',
+  succeeded: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const formatElapsed = (job: VideoJob) => {
+  const end = isJobActive(job) ? Date.now() : job.updatedAt;
+  const seconds = Math.max(0, Math.round((end - job.createdAt) / 1000));
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const handleDownload = async (job: VideoJob) => {
+  const asset = job.assetId ? await getAsset(job.assetId) : undefined;
+  if (asset) downloadBlob(asset.blob, `video-${job.id.slice(0, 8)}.${extensionForMimeType(asset.mimeType)}`);
+};
+
+// Lists every Veo job across modes so long generations keep running, and stay
+// visible, while the user works elsewhere in the app.
+const VideoJobTray: React.FC = () => {
+  const jobs = useVideoJobs();
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [, setTick] = useState<number>(0);
+  const activeCount = jobs.filter(isJobActive).length;
+
+  // Keep elapsed times ticking while the tray is open.
+  useEffect(() => {
+    if (!isOpen || activeCount === 0) return;
+    const interval = window.setInterval(() => setTick(tick => tick + 1), 1000);
+    return () => clearInterval(interval);
+  }, [isOpen, activeCount]);
+
+  if (jobs.length === 0) return null;
+
+  return (
+    <div className="border-b border-brand-gray bg-brand-dark">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full flex items-center gap-3 px-4 py-2 text-sm text-neutral-300 hover:bg-brand-gray transition-colors"
+      >
+        {activeCount > 0 && <span className="scale-75"><Spinner /></span>}
+        <span className="font-medium">Video Jobs</span>
+        <span className="text-neutral-500">
+          {activeCount > 0 ? `${activeCount} running` : 'All finished'} · {jobs.length} total
+        </span>
+        <span className="ml-auto text-neutral-500">{isOpen ? 'Hide' : 'Show'}</span>
+      </button>
+      {isOpen && (
+        <ul className="flex flex-col divide-y divide-brand-gray max-h-64 overflow-y-auto">
+          {jobs.map(job => (
+            <li key={job.id} className="flex items-center gap-3 px-4 py-2 text-sm">
+              <span className={`w-24 shrink-0 font-medium ${STATUS_STYLES[job.status]}`}>{STATUS_LABELS[job.status]}</span>
+              <div className="flex-grow min-w-0">
+                <p className="truncate text-neutral-300" title={job.request.prompt}>{job.request.prompt || 'Untitled video'}</p>
+                <p className="text-xs text-neutral-500 truncate" title={job.error}>
+                  {job.mode === GeneratorMode.CHARACTER ? 'Character Studio' : job.shot ? 'Storyboard' : job.request.extendVideoUri ? 'Extension' : 'Generate Video'} · {formatElapsed(job)}
+                  {job.error && ` · ${job.error}`}
+                </p>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                {isJobActive(job) && (
+                  <button onClick={() => cancelVideoJob(job.id)} className="px-3 py-1 rounded-full bg-brand-gray text-brand-light hover:bg-neutral-700">Cancel</button>
+                )}
+                {(job.status === 'failed' || job.status === 'cancelled') && (
+                  <button onClick={() => retryVideoJob(job.id)} className="px-3 py-1 rounded-full bg-brand-accent text-brand-dark hover:bg-neutral-300">Retry</button>
+                )}
+                {job.status === 'succeeded' && (
+                  <button onClick={() => handleDownload(job)} className="px-3 py-1 rounded-full bg-brand-accent text-brand-dark hover:bg-neutral-300">Download</button>
+                )}
+                {!isJobActive(job) && (
+                  <button onClick={() => removeVideoJob(job.id)} className="px-3 py-1 rounded-full text-neutral-500 hover:text-brand-light" aria-label="Dismiss job">✕</button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default VideoJobTray;
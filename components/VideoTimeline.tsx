@@ -0,0 +1,355 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import Spinner from './Spinner';
+import { Asset, GeneratorMode } from '../types';
+import { useAssetUrl } from '../hooks/useAssetUrl';
+import { usePersistentState } from '../hooks/usePersistentState';
+import { getAsset, listAssets, saveAsset, subscribeToAssets } from '../services/assetStore';
+import { downloadBlob } from '../utils/media';
+import { formatClockTime } from '../utils/subtitles';
+import { getVideoDuration } from '../utils/video';
+import { EXPORT_FORMATS, renderTimeline, supportedMimeType, timelineDuration } from '../utils/videoTimeline';
+
+interface TimelineClip {
+  id: string;
+  assetId: string;
+  start: number;
+  end: number;
+  duration: number;
+}
+
+interface TimelineState {
+  clips: TimelineClip[];
+  narrationAssetId?: string;
+  clipVolume: number;
+  narrationVolume: number;
+}
+
+type RenderState = { kind: 'preview' | 'export'; progress: number } | null;
+
+const MIN_CLIP_SECONDS = 0.1;
+
+const assetLabel = (asset: Asset) => {
+  const source = asset.mode === GeneratorMode.CHARACTER ? 'Character Studio' : asset.mode === GeneratorMode.TTS ? 'Text-to-Speech' : 'Video';
+  const prompt = asset.prompt.length > 60 ? `${asset.prompt.slice(0, 60)}…` : asset.prompt;
+  return `${source} · ${prompt || 'Untitled'} · ${new Date(asset.createdAt).toLocaleString()}`;
+};
+
+const smallButton = 'px-3 py-1 text-xs rounded-full bg-neutral-700 text-brand-light hover:bg-neutral-600 disabled:opacity-50 disabled:cursor-not-allowed';
+const selectClass = 'w-full p-2 bg-brand-gray border border-neutral-700 rounded-lg text-brand-light focus:outline-none focus:ring-2 focus:ring-brand-accent disabled:opacity-50';
+
+interface ClipRowProps {
+  clip: TimelineClip;
+  index: number;
+  count: number;
+  asset?: Asset;
+  disabled: boolean;
+  onTrim: (start: number, end: number) => void;
+  onMove: (offset: number) => void;
+  onRemove: () => void;
+}
+
+const ClipRow: React.FC<ClipRowProps> = ({ clip, index, count, asset, disabled, onTrim, onMove, onRemove }) => {
+  const url = useAssetUrl(clip.assetId);
+  const clamp = (value: number) => {
+    const position = Math.max(0, Number.isFinite(value) ? value : 0);
+    return Number.isFinite(clip.duration) ? Math.min(clip.duration, position) : position;
+  };
+
+  return (
+    <li className="flex flex-col sm:flex-row gap-3 p-3 bg-brand-gray rounded-lg border border-neutral-700">
+      <div className="sm:w-40 shrink-0 aspect-video bg-brand-dark rounded overflow-hidden flex items-center justify-center">
+        {url ? (
+          <video src={`${url}#t=${clip.start},${clip.end}`} controls muted className="w-full h-full object-contain" />
+        ) : (
+          <span className="text-xs text-neutral-500 p-2 text-center">{asset ? 'Loading...' : 'Missing from the library'}</span>
+        )}
+      </div>
+      <div className="flex flex-col gap-2 flex-grow min-w-0 text-sm">
+        <p className="truncate text-neutral-300" title={asset?.prompt}>
+          <span className="font-semibold text-brand-light mr-2">{index + 1}</span>
+          {asset?.prompt || 'Untitled clip'}
+        </p>
+        <div className="flex flex-wrap items-center gap-3 text-neutral-400">
+          <label className="flex items-center gap-2">
+            In
+            <input
+              type="number"
+              min={0}
+              max={clip.end - MIN_CLIP_SECONDS}
+              step={0.1}
+              value={Number(clip.start.toFixed(2))}
+              onChange={(e) => onTrim(Math.min(clamp(e.target.valueAsNumber), clip.end - MIN_CLIP_SECONDS), clip.end)}
+              disabled={disabled}
+              className="w-20 px-2 py-1 bg-brand-dark border border-neutral-700 rounded text-brand-light"
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            Out
+            <input
+              type="number"
+              min={clip.start + MIN_CLIP_SECONDS}
+              max={clip.duration}
+              step={0.1}
+              value={Number(clip.end.toFixed(2))}
+              onChange={(e) => onTrim(clip.start, Math.max(clamp(e.target.valueAsNumber), clip.start + MIN_CLIP_SECONDS))}
+              disabled={disabled}
+              className="w-20 px-2 py-1 bg-brand-dark border border-neutral-700 rounded text-brand-light"
+            />
+          </label>
+          <span className="text-xs tabular-nums">{formatClockTime(clip.end - clip.start)} of {formatClockTime(clip.duration)}</span>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={() => onMove(-1)} disabled={disabled || index === 0} className={smallButton} aria-label="Move clip earlier">Up</button>
+          <button onClick={() => onMove(1)} disabled={disabled || index === count - 1} className={smallButton} aria-label="Move clip later">Down</button>
+          <button onClick={() => onTrim(0, clip.duration)} disabled={disabled} className={smallButton}>Reset Trim</button>
+          <button onClick={onRemove} disabled={disabled} className={`${smallButton} hover:bg-red-600`}>Remove</button>
+        </div>
+      </div>
+    </li>
+  );
+};
+
+// Trims and joins library clips, lays a narration track over them and
+// exports a single video, all in the browser.
+const VideoTimeline: React.FC = () => {
+  const [timeline, setTimeline] = usePersistentState<TimelineState>('video.timeline', { clips: [], clipVolume: 1, narrationVolume: 1 });
+  const [formatIndex, setFormatIndex] = usePersistentState<number>('video.timelineFormat', 0);
+  const [assets, setAssets] = useState<Asset[]>([]);
+  const [render, setRender] = useState<RenderState>(null);
+  const [exported, setExported] = useState<{ blob: Blob; extension: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const { clips, narrationAssetId, clipVolume, narrationVolume } = timeline;
+
+  const loadAssets = useCallback(async () => {
+    try {
+      setAssets(await listAssets());
+    } catch (e) {
+      console.error(e);
+      setError('Failed to load the asset library.');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAssets();
+    return subscribeToAssets(loadAssets);
+  }, [loadAssets]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const videos = assets.filter(asset => asset.kind === 'video');
+  const narrations = assets.filter(asset => asset.kind === 'audio');
+  const totalDuration = timelineDuration(clips);
+  const format = EXPORT_FORMATS[formatIndex] ?? EXPORT_FORMATS[0];
+  const mimeType = supportedMimeType(format);
+  const isRendering = render !== null;
+
+  const updateClips = (update: (clips: TimelineClip[]) => TimelineClip[]) =>
+    setTimeline(current => ({ ...current, clips: update(current.clips) }));
+
+  const handleAddClip = async (assetId: string) => {
+    const asset = videos.find(item => item.id === assetId);
+    if (!asset) return;
+    try {
+      const duration = await getVideoDuration(asset.blob);
+      updateClips(current => [...current, { id: crypto.randomUUID(), assetId, start: 0, end: duration, duration }]);
+    } catch (e) {
+      console.error(e);
+      setError(`Failed to read that clip. ${e instanceof Error ? e.message : ''}`.trim());
+    }
+  };
+
+  const moveClip = (index: number, offset: number) => updateClips(current => {
+    const next = [...current];
+    const [clip] = next.splice(index, 1);
+    next.splice(index + offset, 0, clip);
+    return next;
+  });
+
+  const handleRender = async (kind: 'preview' | 'export') => {
+    if (!canvasRef.current || clips.length === 0) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setExported(null);
+    setRender({ kind, progress: 0 });
+
+    try {
+      const sources = await Promise.all(clips.map(async clip => {
+        const asset = await getAsset(clip.assetId);
+        if (!asset) throw new Error('A clip on the timeline is no longer in the library.');
+        return { blob: asset.blob, start: clip.start, end: clip.end };
+      }));
+      const narration = narrationAssetId ? (await getAsset(narrationAssetId))?.blob : undefined;
+      const blob = await renderTimeline({
+        clips: sources,
+        narration,
+        clipVolume,
+        narrationVolume,
+        canvas: canvasRef.current,
+        mimeType: kind === 'export' ? mimeType : undefined,
+        onProgress: (progress) => setRender({ kind, progress }),
+        signal: controller.signal,
+      });
+      if (blob && !controller.signal.aborted) {
+        await saveAsset({
+          kind: 'video',
+          mode: GeneratorMode.VIDEO,
+          blob,
+          mimeType: blob.type,
+          prompt: `Timeline of ${clips.length} clip${clips.length === 1 ? '' : 's'}`,
+          model: 'timeline',
+          metadata: { clips: clips.map(clip => clip.assetId).join(','), ...(narrationAssetId ? { narration: narrationAssetId } : {}) },
+        });
+        setExported({ blob, extension: format.extension });
+      }
+    } catch (e: any) {
+      console.error(e);
+      setError(`Failed to ${kind === 'export' ? 'export' : 'play'} the timeline. ${e.message || 'An unknown error occurred.'}`);
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setRender(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-6">
+      {clips.length > 0 ? (
+        <ol className="flex flex-col gap-3">
+          {clips.map((clip, index) => (
+            <ClipRow
+              key={clip.id}
+              clip={clip}
+              index={index}
+              count={clips.length}
+              asset={assets.find(asset => asset.id === clip.assetId)}
+              disabled={isRendering}
+              onTrim={(start, end) => updateClips(current => current.map(item => item.id === clip.id ? { ...item, start, end } : item))}
+              onMove={(offset) => moveClip(index, offset)}
+              onRemove={() => updateClips(current => current.filter(item => item.id !== clip.id))}
+            />
+          ))}
+        </ol>
+      ) : (
+        <p className="text-neutral-500 text-center py-6 bg-brand-gray rounded-lg border border-dashed border-neutral-700">
+          Add clips you generated here or in Character Studio to start a timeline.
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm text-neutral-400">
+        <label className="flex flex-col gap-2">
+          Add clip
+          <select value="" onChange={(e) => handleAddClip(e.target.value)} disabled={isRendering || videos.length === 0} className={selectClass}>
+            <option value="">{videos.length === 0 ? 'No videos in the library yet' : 'Choose a video...'}</option>
+            {videos.map(asset => <option key={asset.id} value={asset.id}>{assetLabel(asset)}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col gap-2">
+          Narration
+          <select
+            value={narrationAssetId ?? ''}
+            onChange={(e) => setTimeline(current => ({ ...current, narrationAssetId: e.target.value || undefined }))}
+            disabled={isRendering}
+            className={selectClass}
+          >
+            <option value="">None</option>
+            {narrations.map(asset => <option key={asset.id} value={asset.id}>{assetLabel(asset)}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-3">
+          Clip audio
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={clipVolume}
+            onChange={(e) => setTimeline(current => ({ ...current, clipVolume: e.target.valueAsNumber }))}
+            disabled={isRendering}
+            className="flex-grow accent-white"
+          />
+        </label>
+        <label className="flex items-center gap-3">
+          Narration
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={narrationVolume}
+            onChange={(e) => setTimeline(current => ({ ...current, narrationVolume: e.target.valueAsNumber }))}
+            disabled={isRendering || !narrationAssetId}
+            className="flex-grow accent-white"
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <canvas ref={canvasRef} className={`w-full bg-black rounded-lg ${isRendering ? '' : 'hidden'}`} />
+        {isRendering && (
+          <div className="flex items-center gap-3 text-sm text-neutral-400">
+            <div className="flex-grow h-2 bg-brand-gray rounded-full overflow-hidden">
+              <div className="h-full bg-brand-accent transition-[width]" style={{ width: `${totalDuration > 0 ? (render.progress / totalDuration) * 100 : 0}%` }} />
+            </div>
+            <span className="tabular-nums">{formatClockTime(render.progress)} / {formatClockTime(totalDuration)}</span>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3">
+        <div className="flex gap-2 items-center">
+          {EXPORT_FORMATS.map((item, index) => (
+            <button
+              key={item.label}
+              onClick={() => setFormatIndex(index)}
+              disabled={isRendering || !supportedMimeType(item)}
+              title={supportedMimeType(item) ? undefined : `This browser cannot record ${item.label}.`}
+              className={`px-4 py-2 text-sm font-medium rounded-full transition-colors duration-300 disabled:opacity-50 disabled:cursor-not-allowed ${format === item ? 'bg-brand-accent text-brand-dark' : 'bg-brand-gray text-brand-light hover:bg-neutral-700'}`}
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+        {isRendering ? (
+          <button
+            onClick={() => abortRef.current?.abort()}
+            className="flex-1 flex justify-center items-center gap-2 bg-red-500 hover:bg-red-600 text-brand-dark font-semibold py-3 px-4 rounded-lg transition-all duration-300"
+          >
+            <Spinner /> {render.kind === 'export' ? 'Cancel Export' : 'Stop Preview'}
+          </button>
+        ) : (
+          <>
+            <button
+              onClick={() => handleRender('preview')}
+              disabled={clips.length === 0}
+              className="flex-1 py-3 px-4 rounded-lg bg-brand-gray text-brand-light hover:bg-neutral-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Preview
+            </button>
+            <button
+              onClick={() => handleRender('export')}
+              disabled={clips.length === 0 || !mimeType}
+              className="flex-1 flex justify-center items-center gap-2 bg-brand-accent text-brand-dark font-semibold py-3 px-4 rounded-lg transition-all duration-300 hover:bg-neutral-300 disabled:bg-brand-gray disabled:text-neutral-500 disabled:cursor-not-allowed focus:outline-none focus-visible:ring-2 focus-visible:ring-brand-accent focus-visible:ring-offset-2 focus-visible:ring-offset-black"
+            >
+              Export {format.label} ({formatClockTime(totalDuration)})
+            </button>
+          </>
+        )}
+      </div>
+      <p className="text-xs text-neutral-500 text-center">Exports render in real time. Keep this tab in front until it finishes.</p>
+
+      {error && <p className="text-red-400 text-center">{error}</p>}
+      {exported && (
+        <div className="flex items-center justify-center gap-3 text-sm text-neutral-300 animate-fade-in">
+          Saved to the library.
+          <button onClick={() => downloadBlob(exported.blob, `timeline-${Date.now()}.${exported.extension}`)} className={smallButton}>
+            Download
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VideoTimeline;
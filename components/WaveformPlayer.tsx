@@ -0,0 +1,159 @@
+import React, { useEffect, useId, useRef, useState } from 'react';
+
+const BAR_COUNT = 160;
+const SEEK_STEP_SECONDS = 5;
+
+// Peak amplitude per bar, 0-1, across the first channel, plus the decoded length.
+// MediaRecorder WebM has no duration in its header, so the element reports Infinity.
+const decodeWaveform = async (blob: Blob): Promise<{ peaks: number[]; duration: number }> => {
+  const buffer = await new OfflineAudioContext(1, 1, 44100).decodeAudioData(await blob.arrayBuffer());
+  const samples = buffer.getChannelData(0);
+  const bucket = Math.max(1, Math.floor(samples.length / BAR_COUNT));
+  const peaks: number[] = [];
+  for (let i = 0; i < BAR_COUNT; i++) {
+    let peak = 0;
+    for (let j = i * bucket; j < Math.min((i + 1) * bucket, samples.length); j++) {
+      peak = Math.max(peak, Math.abs(samples[j]));
+    }
+    peaks.push(peak);
+  }
+  const loudest = Math.max(...peaks, 0.01);
+  return { peaks: peaks.map(peak => peak / loudest), duration: buffer.duration };
+};
+
+const formatTime = (seconds: number) => {
+  if (!Number.isFinite(seconds)) return '-:--';
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+interface WaveformPlayerProps {
+  src: Blob;
+  autoPlay?: boolean;
+}
+
+// Plays an audio blob with a clickable waveform for seeking.
+const WaveformPlayer: React.FC<WaveformPlayerProps> = ({ src, autoPlay }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [peaks, setPeaks] = useState<number[]>([]);
+  const [isPlaying, setIsPlaying] = useState<boolean>(false);
+  const [currentTime, setCurrentTime] = useState<number>(0);
+  const [duration, setDuration] = useState<number>(0);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const clipId = useId();
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(src);
+    setUrl(objectUrl);
+    setCurrentTime(0);
+    setDuration(0);
+    let cancelled = false;
+    decodeWaveform(src)
+      .then(result => {
+        if (cancelled) return;
+        setPeaks(result.peaks);
+        setDuration(result.duration);
+      })
+      .catch(e => console.error('Failed to draw waveform', e));
+    return () => {
+      cancelled = true;
+      URL.revokeObjectURL(objectUrl);
+    };
+  }, [src]);
+
+  // timeupdate only fires a few times a second, so follow playback per frame.
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame = requestAnimationFrame(function tick() {
+      setCurrentTime(audioRef.current?.currentTime ?? 0);
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying]);
+
+  const togglePlay = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      audio.play().catch(e => console.error('Playback failed', e));
+    } else {
+      audio.pause();
+    }
+  };
+
+  const seekTo = (seconds: number) => {
+    const audio = audioRef.current;
+    if (!audio || !duration) return;
+    audio.currentTime = Math.min(Math.max(seconds, 0), duration);
+    setCurrentTime(audio.currentTime);
+  };
+
+  const handleWaveformClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    seekTo((e.clientX - rect.left) / rect.width * duration);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'ArrowLeft') seekTo(currentTime - SEEK_STEP_SECONDS);
+    else if (e.key === 'ArrowRight') seekTo(currentTime + SEEK_STEP_SECONDS);
+    else if (e.key === ' ') togglePlay();
+    else return;
+    e.preventDefault();
+  };
+
+  const progress = duration > 0 && Number.isFinite(duration) ? currentTime / duration * 100 : 0;
+  const bars = peaks.map((peak, index) => {
+    const height = Math.max(peak * 100, 2);
+    return <rect key={index} x={index + 0.15} y={(100 - height) / 2} width={0.7} height={height} />;
+  });
+
+  return (
+    <div className="flex items-center gap-3 w-full">
+      {url && (
+        <audio
+          ref={audioRef}
+          src={url}
+          autoPlay={autoPlay}
+          onPlay={() => setIsPlaying(true)}
+          onPause={() => setIsPlaying(false)}
+          onEnded={() => { setIsPlaying(false); setCurrentTime(duration); }}
+          onDurationChange={(e) => {
+            const { duration: length } = e.currentTarget;
+            if (Number.isFinite(length)) setDuration(length);
+          }}
+          onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+        />
+      )}
+      <button
+        onClick={togglePlay}
+        className="flex-shrink-0 w-10 h-10 rounded-full bg-brand-accent text-brand-dark font-semibold hover:bg-neutral-300 focus:outline-none focus-visible:ring-2 focus-visible:ring-brand-accent focus-visible:ring-offset-2 focus-visible:ring-offset-black"
+        aria-label={isPlaying ? 'Pause' : 'Play'}
+      >
+        {isPlaying ? '❚❚' : '▶'}
+      </button>
+      <div
+        role="slider"
+        tabIndex={0}
+        aria-label="Seek"
+        aria-valuemin={0}
+        aria-valuemax={Math.round(duration)}
+        aria-valuenow={Math.round(currentTime)}
+        aria-valuetext={formatTime(currentTime)}
+        onClick={handleWaveformClick}
+        onKeyDown={handleKeyDown}
+        className="relative flex-grow h-16 cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-brand-accent rounded"
+      >
+        <svg viewBox={`0 0 ${BAR_COUNT} 100`} preserveAspectRatio="none" className="absolute inset-0 w-full h-full">
+          <clipPath id={clipId}>
+            <rect x={0} y={0} width={progress / 100 * BAR_COUNT} height={100} />
+          </clipPath>
+          <g className="fill-neutral-600">{bars}</g>
+          <g className="fill-brand-accent" clipPath={`url(#${clipId})`}>{bars}</g>
+        </svg>
+      </div>
+      <span className="flex-shrink-0 text-xs text-neutral-400 tabular-nums">{formatTime(currentTime)} / {formatTime(duration)}</span>
+    </div>
+  );
+};
+
+export default WaveformPlayer;
@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+import { getAsset } from '../services/assetStore';
+
+// Loads a library asset and exposes it as an object URL for the lifetime of
+// the component.
+export const useAssetUrl = (assetId: string | undefined): string | null => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!assetId) {
+      setUrl(null);
+      return;
+    }
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    getAsset(assetId)
+      .then(asset => {
+        if (cancelled || !asset) return;
+        objectUrl = URL.createObjectURL(asset.blob);
+        setUrl(objectUrl);
+      })
+      .catch(e => console.error('Failed to load asset.', e));
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [assetId]);
+
+  return url;
+};
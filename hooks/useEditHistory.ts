@@ -0,0 +1,79 @@
+import { useCallback, useMemo, useState } from 'react';
+import { InlineData } from '../services/gemini';
+
+export interface EditStep {
+  id: string;
+  // The step this one was edited from; null for the uploaded original.
+  parentId: string | null;
+  image: InlineData;
+  width: number;
+  height: number;
+  prompt: string;
+  createdAt: number;
+}
+
+export type NewEditStep = Omit<EditStep, 'id' | 'parentId' | 'createdAt'>;
+
+// A tree of edits. New edits become children of the current step, so
+// selecting an earlier step and editing again starts a new branch while the
+// old one stays in the history.
+export const useEditHistory = () => {
+  const [steps, setSteps] = useState<EditStep[]>([]);
+  const [currentId, setCurrentId] = useState<string | null>(null);
+  const [redoStack, setRedoStack] = useState<string[]>([]);
+
+  const current = useMemo(() => steps.find(step => step.id === currentId) ?? null, [steps, currentId]);
+  const parent = useMemo(() => steps.find(step => step.id === current?.parentId) ?? null, [steps, current]);
+
+  const add = (step: NewEditStep, parentId: string | null): EditStep => ({
+    ...step,
+    id: crypto.randomUUID(),
+    parentId,
+    createdAt: Date.now(),
+  });
+
+  const reset = useCallback((root: NewEditStep) => {
+    const step = add(root, null);
+    setSteps([step]);
+    setCurrentId(step.id);
+    setRedoStack([]);
+  }, []);
+
+  const push = useCallback((edit: NewEditStep) => {
+    const step = add(edit, currentId);
+    setSteps(prev => [...prev, step]);
+    setCurrentId(step.id);
+    setRedoStack([]);
+  }, [currentId]);
+
+  const undo = useCallback(() => {
+    if (!current?.parentId) return;
+    setRedoStack(prev => [...prev, current.id]);
+    setCurrentId(current.parentId);
+  }, [current]);
+
+  const redo = useCallback(() => {
+    const next = redoStack[redoStack.length - 1];
+    if (!next) return;
+    setRedoStack(prev => prev.slice(0, -1));
+    setCurrentId(next);
+  }, [redoStack]);
+
+  const select = useCallback((id: string) => {
+    setCurrentId(id);
+    setRedoStack([]);
+  }, []);
+
+  return {
+    steps,
+    current,
+    parent,
+    reset,
+    push,
+    undo,
+    redo,
+    select,
+    canUndo: !!current?.parentId,
+    canRedo: redoStack.length > 0,
+  };
+};
@@ -0,0 +1,17 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import { GeneratorMode } from '../types';
+import { getHandoff, Handoff, subscribeToHandoff, takeHandoff } from '../services/handoff';
+
+// Calls `onReceive` with any handoff sent to `mode`, including one queued just
+// before the component mounted.
+export const useHandoff = (mode: GeneratorMode, onReceive: (handoff: Handoff) => void): void => {
+  const pending = useSyncExternalStore(subscribeToHandoff, getHandoff);
+  const onReceiveRef = useRef(onReceive);
+  onReceiveRef.current = onReceive;
+
+  useEffect(() => {
+    if (pending?.target !== mode) return;
+    const handoff = takeHandoff(mode);
+    if (handoff) onReceiveRef.current(handoff);
+  }, [pending, mode]);
+};
@@ -0,0 +1,14 @@
+import { Dispatch, SetStateAction, useEffect, useState } from 'react';
+import { loadSetting, saveSetting } from '../services/settings';
+
+// useState backed by a saved setting. Only use it for small JSON values such
+// as prompts and option choices.
+export const usePersistentState = <T>(key: string, initialValue: T): [T, Dispatch<SetStateAction<T>>] => {
+  const [value, setValue] = useState<T>(() => loadSetting(key, initialValue));
+
+  useEffect(() => {
+    saveSetting(key, value);
+  }, [key, value]);
+
+  return [value, setValue];
+};
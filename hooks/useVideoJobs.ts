@@ -0,0 +1,9 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { getVideoJobs, resumeVideoJobs, subscribeToVideoJobs, VideoJob } from '../services/videoJobs';
+
+export const useVideoJobs = (): VideoJob[] => {
+  useEffect(() => {
+    resumeVideoJobs();
+  }, []);
+  return useSyncExternalStore(subscribeToVideoJobs, getVideoJobs);
+};
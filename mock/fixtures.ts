@@ -0,0 +1,173 @@
+import { deflateSync } from 'zlib';
+import { createMp4 } from './mp4';
+
+// Deterministic fixtures for the offline Gemini backend. Everything is derived
+// from the request (usually the prompt) so the same input always produces the
+// same output, which keeps UI tests and screenshots stable.
+
+export const hashString = (value: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Buffer): number => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const pngChunk = (type: string, data: Buffer): Buffer => {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData));
+  return Buffer.concat([length, typeAndData, crc]);
+};
+
+const IMAGE_SIZES: Record<string, [number, number]> = {
+  '1:1': [256, 256],
+  '16:9': [320, 180],
+  '9:16': [180, 320],
+  '4:3': [288, 216],
+  '3:4': [216, 288],
+};
+
+// A diagonal two-colour gradient whose colours depend on `seed`.
+export const createPng = (seed: string, aspectRatio = '1:1'): Buffer => {
+  const [width, height] = IMAGE_SIZES[aspectRatio] ?? IMAGE_SIZES['1:1'];
+  const hash = hashString(seed);
+  const from = [hash & 0xff, (hash >>> 8) & 0xff, (hash >>> 16) & 0xff];
+  const to = from.map(channel => 255 - channel);
+
+  const raw = Buffer.alloc((width * 3 + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const row = y * (width * 3 + 1);
+    raw[row] = 0; // No filter.
+    for (let x = 0; x < width; x++) {
+      const t = (x / width + y / height) / 2;
+      for (let c = 0; c < 3; c++) {
+        raw[row + 1 + x * 3 + c] = Math.round(from[c] + (to[c] - from[c]) * t);
+      }
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // Bit depth.
+  header[9] = 2; // Truecolour RGB.
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+};
+
+// 16-bit little-endian mono PCM sine tone, the format the API uses for audio.
+export const createPcmTone = (seed: string, seconds: number, sampleRate: number): Buffer => {
+  const frequency = 220 + (hashString(seed) % 440);
+  const samples = Math.round(seconds * sampleRate);
+  const pcm = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    const fade = Math.min(1, i / 1000, (samples - i) / 1000);
+    pcm.writeInt16LE(Math.round(Math.sin((2 * Math.PI * frequency * i) / sampleRate) * 8000 * fade), i * 2);
+  }
+  return pcm;
+};
+
+const VIDEO_SIZES: Record<string, [number, number]> = {
+  '16:9': [160, 90],
+  '9:16': [90, 160],
+};
+const VIDEO_FPS = 4;
+const VIDEO_SECONDS = 4;
+
+// A short, playable MP4: the gradient from createPng with a light bar that
+// sweeps across, so the first and last frames differ.
+export const createVideo = (seed: string, aspectRatio = '16:9'): Buffer => {
+  const [width, height] = VIDEO_SIZES[aspectRatio] ?? VIDEO_SIZES['16:9'];
+  const hash = hashString(seed);
+  const from = [hash & 0xff, (hash >>> 8) & 0xff, (hash >>> 16) & 0xff];
+  const to = from.map(channel => 255 - channel);
+  const frameCount = VIDEO_FPS * VIDEO_SECONDS;
+  const barWidth = Math.max(4, Math.round(width / 12));
+
+  return createMp4({
+    width,
+    height,
+    fps: VIDEO_FPS,
+    frameCount,
+    pixel: (x, y, frame) => {
+      const barX = Math.round((width - barWidth) * frame / (frameCount - 1));
+      if (x >= barX && x < barX + barWidth) return [235, 235, 235];
+      const t = (x / width + y / height) / 2;
+      return [0, 1, 2].map(c => Math.round(from[c] + (to[c] - from[c]) * t)) as [number, number, number];
+    },
+  });
+};
+
+export const mockText = (prompt: string): string => {
+  const excerpt = prompt.trim().replace(/\s+/g, ' ').slice(0, 120);
+  return [
+    'This is a deterministic response from the **offline Gemini mock**.',
+    '',
+    `You asked: "${excerpt}"`,
+    '',
+    '- No network request was made.',
+    '- Set `GEMINI_MOCK=false` to talk to the real API.',
+  ].join('\n');
+};
+
+interface Schema {
+  type?: string | string[];
+  properties?: Record<string, Schema>;
+  items?: Schema;
+  enum?: unknown[];
+  minItems?: number | string;
+}
+
+// Produces a value that satisfies a Gemini `responseSchema` (OpenAPI subset,
+// upper-case types) or `responseJsonSchema` (JSON Schema, lower-case types).
+export const sampleFromSchema = (schema: Schema | undefined, name = 'value', index = 0): unknown => {
+  if (!schema) return null;
+  if (schema.enum?.length) return schema.enum[index % schema.enum.length];
+  const type = String(Array.isArray(schema.type) ? schema.type[0] : schema.type ?? 'object').toLowerCase();
+  switch (type) {
+    case 'string':
+      return `mock ${name}${index ? ` ${index + 1}` : ''}`;
+    case 'number':
+      return Math.round(((hashString(`${name}${index}`) % 1000) / 1000) * 100) / 100;
+    case 'integer':
+      return (hashString(`${name}${index}`) % 100) + 1;
+    case 'boolean':
+      return index % 2 === 0;
+    case 'array': {
+      const count = Math.max(2, Number(schema.minItems ?? 0));
+      return Array.from({ length: count }, (_, i) => sampleFromSchema(schema.items, name, i));
+    }
+    default:
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, value]) => [key, sampleFromSchema(value, key, index)]),
+      );
+  }
+};
@@ -0,0 +1,104 @@
+import { LiveClientMessage, LiveClientSetup } from '@google/genai';
+import { WebSocket } from 'ws';
+import { createPcmTone } from './fixtures';
+
+// utils/audioCapture.ts sends one chunk per 100 ms of microphone audio. After
+// about three seconds of input the mock "hears" a turn and answers it.
+const CHUNK_MS = 100;
+const TURN_MS = 3000;
+const CHUNKS_PER_TURN = TURN_MS / CHUNK_MS;
+const MOCK_USER_UTTERANCE = 'Hello from the offline microphone.';
+// Every third microphone turn asks for a picture, so tool calls can be tried
+// from the UI. Text turns starting with "draw" do the same.
+const DRAW_EVERY_TURNS = 3;
+const MOCK_DRAW_UTTERANCE = 'Draw a lighthouse on a cliff at dusk.';
+const DRAW_PATTERN = /^draw\b\s*/i;
+
+const send = (socket: WebSocket, message: unknown) => {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+};
+
+const respond = (socket: WebSocket, userText: string, turn: number) => {
+  const reply = `Mock reply number ${turn}. You said: ${userText}`;
+  send(socket, { serverContent: { inputTranscription: { text: userText } } });
+  send(socket, { serverContent: { outputTranscription: { text: reply } } });
+  send(socket, {
+    serverContent: {
+      modelTurn: {
+        parts: [{ inlineData: { mimeType: 'audio/pcm;rate=24000', data: createPcmTone(reply, 0.75, 24000).toString('base64') } }],
+      },
+    },
+  });
+  send(socket, { serverContent: { turnComplete: true } });
+};
+
+const declaresFunction = (setup: LiveClientSetup | undefined, name: string): boolean =>
+  (setup?.tools ?? []).some(tool => 'functionDeclarations' in tool && tool.functionDeclarations?.some(declaration => declaration.name === name));
+
+// Asks the client to run `generate_image`; the model speaks again once the
+// toolResponse arrives.
+const requestImage = (socket: WebSocket, userText: string, turn: number) => {
+  send(socket, { serverContent: { inputTranscription: { text: userText } } });
+  send(socket, {
+    toolCall: {
+      functionCalls: [{ id: `mock-call-${turn}`, name: 'generate_image', args: { prompt: userText.replace(DRAW_PATTERN, '') || userText } }],
+    },
+  });
+};
+
+// Emulates the BidiGenerateContent protocol used by `ai.live.connect`.
+export const handleLiveSocket = (socket: WebSocket): void => {
+  let setup: LiveClientSetup | undefined;
+  let audioChunks = 0;
+  let turns = 0;
+
+  const answer = (userText: string) => {
+    if (DRAW_PATTERN.test(userText) && declaresFunction(setup, 'generate_image')) {
+      requestImage(socket, userText, ++turns);
+    } else {
+      respond(socket, userText, ++turns);
+    }
+  };
+
+  socket.on('message', raw => {
+    let message: LiveClientMessage;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch {
+      return;
+    }
+
+    if (message.setup) {
+      setup = message.setup;
+      send(socket, { setupComplete: {} });
+      return;
+    }
+
+    if (message.realtimeInput) {
+      audioChunks++;
+      if (audioChunks % CHUNKS_PER_TURN === 0) {
+        const microphoneTurn = audioChunks / CHUNKS_PER_TURN;
+        answer(microphoneTurn % DRAW_EVERY_TURNS === 0 ? MOCK_DRAW_UTTERANCE : MOCK_USER_UTTERANCE);
+      }
+      return;
+    }
+
+    if (message.clientContent) {
+      const text = (message.clientContent.turns ?? [])
+        .flatMap(turn => turn.parts ?? [])
+        .map(part => part.text ?? '')
+        .join(' ')
+        .trim();
+      if (message.clientContent.turnComplete !== false) {
+        answer(text || MOCK_USER_UTTERANCE);
+      }
+      return;
+    }
+
+    if (message.toolResponse) {
+      respond(socket, 'Tool call finished.', ++turns);
+    }
+  });
+};
@@ -0,0 +1,276 @@
+// A minimal MP4 writer for the mock's Veo videos. Frames are coded as H.264
+// Baseline I_PCM macroblocks, which carry raw YUV samples, so a playable file
+// can be produced without an encoder. Files are large for their size, which
+// does not matter for the small fixtures.
+
+export interface Mp4Options {
+  width: number;
+  height: number;
+  fps: number;
+  frameCount: number;
+  // Returns the RGB colour of a pixel in frame `frame`.
+  pixel: (x: number, y: number, frame: number) => [number, number, number];
+}
+
+class BitWriter {
+  private bytes: number[] = [];
+  private current = 0;
+  private bitCount = 0;
+
+  bit(value: number) {
+    this.current = (this.current << 1) | (value & 1);
+    if (++this.bitCount === 8) {
+      this.bytes.push(this.current);
+      this.current = 0;
+      this.bitCount = 0;
+    }
+  }
+
+  bits(value: number, count: number) {
+    for (let i = count - 1; i >= 0; i--) this.bit((value >>> i) & 1);
+  }
+
+  // Unsigned Exp-Golomb code.
+  ue(value: number) {
+    const coded = value + 1;
+    const length = 32 - Math.clz32(coded);
+    this.bits(0, length - 1);
+    this.bits(coded, length);
+  }
+
+  se(value: number) {
+    this.ue(value > 0 ? 2 * value - 1 : -2 * value);
+  }
+
+  get isAligned() {
+    return this.bitCount === 0;
+  }
+
+  alignZero() {
+    while (!this.isAligned) this.bit(0);
+  }
+
+  byte(value: number) {
+    this.bits(value, 8);
+  }
+
+  // rbsp_trailing_bits: a stop bit, then zero bits to the byte boundary.
+  finish(): Buffer {
+    this.bit(1);
+    this.alignZero();
+    return Buffer.from(this.bytes);
+  }
+}
+
+// Wraps an RBSP in a NAL unit, inserting emulation prevention bytes.
+const nalUnit = (refIdc: number, type: number, rbsp: Buffer): Buffer => {
+  const out: number[] = [(refIdc << 5) | type];
+  let zeros = 0;
+  for (const byte of rbsp) {
+    if (zeros >= 2 && byte <= 3) {
+      out.push(3);
+      zeros = 0;
+    }
+    out.push(byte);
+    zeros = byte === 0 ? zeros + 1 : 0;
+  }
+  return Buffer.from(out);
+};
+
+const PROFILE_BASELINE = 66;
+const CONSTRAINT_FLAGS = 0xc0;
+const LEVEL = 30;
+
+const sequenceParameterSet = (widthInMbs: number, heightInMbs: number, cropRight: number, cropBottom: number): Buffer => {
+  const w = new BitWriter();
+  w.byte(PROFILE_BASELINE);
+  w.byte(CONSTRAINT_FLAGS);
+  w.byte(LEVEL);
+  w.ue(0); // seq_parameter_set_id
+  w.ue(0); // log2_max_frame_num_minus4
+  w.ue(2); // pic_order_cnt_type
+  w.ue(0); // max_num_ref_frames
+  w.bit(0); // gaps_in_frame_num_value_allowed_flag
+  w.ue(widthInMbs - 1);
+  w.ue(heightInMbs - 1);
+  w.bit(1); // frame_mbs_only_flag
+  w.bit(1); // direct_8x8_inference_flag
+  const cropped = cropRight > 0 || cropBottom > 0;
+  w.bit(cropped ? 1 : 0);
+  if (cropped) {
+    // Offsets are in pairs of pixels for 4:2:0 frames.
+    w.ue(0);
+    w.ue(cropRight / 2);
+    w.ue(0);
+    w.ue(cropBottom / 2);
+  }
+  w.bit(0); // vui_parameters_present_flag
+  return nalUnit(3, 7, w.finish());
+};
+
+const pictureParameterSet = (): Buffer => {
+  const w = new BitWriter();
+  w.ue(0); // pic_parameter_set_id
+  w.ue(0); // seq_parameter_set_id
+  w.bit(0); // entropy_coding_mode_flag (CAVLC)
+  w.bit(0); // bottom_field_pic_order_in_frame_present_flag
+  w.ue(0); // num_slice_groups_minus1
+  w.ue(0); // num_ref_idx_l0_default_active_minus1
+  w.ue(0); // num_ref_idx_l1_default_active_minus1
+  w.bit(0); // weighted_pred_flag
+  w.bits(0, 2); // weighted_bipred_idc
+  w.se(0); // pic_init_qp_minus26
+  w.se(0); // pic_init_qs_minus26
+  w.se(0); // chroma_qp_index_offset
+  w.bit(1); // deblocking_filter_control_present_flag
+  w.bit(0); // constrained_intra_pred_flag
+  w.bit(0); // redundant_pic_cnt_present_flag
+  return nalUnit(3, 8, w.finish());
+};
+
+const I_PCM_MB_TYPE = 25;
+const I_SLICE_TYPE = 7;
+
+// One IDR slice covering the whole frame. `planes` are full-resolution Y and
+// quarter-resolution Cb/Cr at the coded (macroblock-aligned) size.
+const idrSlice = (index: number, widthInMbs: number, heightInMbs: number, planes: [Uint8Array, Uint8Array, Uint8Array]): Buffer => {
+  const [luma, cb, cr] = planes;
+  const codedWidth = widthInMbs * 16;
+  const w = new BitWriter();
+  w.ue(0); // first_mb_in_slice
+  w.ue(I_SLICE_TYPE);
+  w.ue(0); // pic_parameter_set_id
+  w.bits(0, 4); // frame_num
+  w.ue(index % 2); // idr_pic_id, which must differ between consecutive IDR pictures
+  w.bit(0); // no_output_of_prior_pics_flag
+  w.bit(0); // long_term_reference_flag
+  w.se(0); // slice_qp_delta
+  w.ue(1); // disable_deblocking_filter_idc
+  for (let mbY = 0; mbY < heightInMbs; mbY++) {
+    for (let mbX = 0; mbX < widthInMbs; mbX++) {
+      w.ue(I_PCM_MB_TYPE);
+      w.alignZero();
+      for (let y = 0; y < 16; y++) {
+        for (let x = 0; x < 16; x++) w.byte(luma[(mbY * 16 + y) * codedWidth + mbX * 16 + x]);
+      }
+      for (const plane of [cb, cr]) {
+        for (let y = 0; y < 8; y++) {
+          for (let x = 0; x < 8; x++) w.byte(plane[(mbY * 8 + y) * (codedWidth / 2) + mbX * 8 + x]);
+        }
+      }
+    }
+  }
+  return nalUnit(3, 5, w.finish());
+};
+
+// BT.601 studio-range conversion; PCM samples avoid 0 for old decoders.
+const toYuv = ([r, g, b]: [number, number, number]): [number, number, number] => [
+  Math.max(1, Math.round(16 + (65.481 * r + 128.553 * g + 24.966 * b) / 255)),
+  Math.max(1, Math.round(128 + (-37.797 * r - 74.203 * g + 112 * b) / 255)),
+  Math.max(1, Math.round(128 + (112 * r - 93.786 * g - 18.214 * b) / 255)),
+];
+
+const framePlanes = (options: Mp4Options, frame: number, widthInMbs: number, heightInMbs: number): [Uint8Array, Uint8Array, Uint8Array] => {
+  const codedWidth = widthInMbs * 16;
+  const codedHeight = heightInMbs * 16;
+  const luma = new Uint8Array(codedWidth * codedHeight);
+  const cb = new Uint8Array(luma.length / 4);
+  const cr = new Uint8Array(luma.length / 4);
+  for (let y = 0; y < codedHeight; y++) {
+    for (let x = 0; x < codedWidth; x++) {
+      // Padding outside the visible area repeats the edge pixels.
+      const [lumaValue, cbValue, crValue] = toYuv(options.pixel(Math.min(x, options.width - 1), Math.min(y, options.height - 1), frame));
+      luma[y * codedWidth + x] = lumaValue;
+      if (x % 2 === 0 && y % 2 === 0) {
+        const chromaIndex = (y / 2) * (codedWidth / 2) + x / 2;
+        cb[chromaIndex] = cbValue;
+        cr[chromaIndex] = crValue;
+      }
+    }
+  }
+  return [luma, cb, cr];
+};
+
+const u8 = (value: number) => Buffer.from([value & 0xff]);
+const u16 = (value: number) => { const b = Buffer.alloc(2); b.writeUInt16BE(value & 0xffff); return b; };
+const u32 = (value: number) => { const b = Buffer.alloc(4); b.writeUInt32BE(value >>> 0); return b; };
+
+const box = (type: string, ...payload: Buffer[]): Buffer => {
+  const body = Buffer.concat(payload);
+  return Buffer.concat([u32(body.length + 8), Buffer.from(type, 'ascii'), body]);
+};
+
+const fullBox = (type: string, version: number, flags: number, ...payload: Buffer[]): Buffer =>
+  box(type, u32((version << 24) | flags), ...payload);
+
+const MATRIX = [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000];
+const TIMESCALE = 1000;
+
+const movieBox = (options: Mp4Options, sps: Buffer, pps: Buffer, sampleSizes: number[], dataOffset: number): Buffer => {
+  const { width, height, fps, frameCount } = options;
+  const frameDuration = Math.round(TIMESCALE / fps);
+  const duration = frameDuration * frameCount;
+
+  const avcC = box('avcC',
+    u8(1), u8(PROFILE_BASELINE), u8(CONSTRAINT_FLAGS), u8(LEVEL),
+    u8(0xff), // 4-byte NAL lengths
+    u8(0xe1), u16(sps.length), sps,
+    u8(1), u16(pps.length), pps,
+  );
+  const avc1 = box('avc1',
+    Buffer.alloc(6), u16(1), // reserved, data_reference_index
+    Buffer.alloc(16), // pre_defined and reserved
+    u16(width), u16(height),
+    u32(0x00480000), u32(0x00480000), // 72 dpi
+    u32(0), u16(1), // reserved, frame_count
+    Buffer.alloc(32), // compressorname
+    u16(0x0018), u16(0xffff), // depth, pre_defined
+    avcC,
+  );
+  const stbl = box('stbl',
+    fullBox('stsd', 0, 0, u32(1), avc1),
+    fullBox('stts', 0, 0, u32(1), u32(frameCount), u32(frameDuration)),
+    fullBox('stsc', 0, 0, u32(1), u32(1), u32(frameCount), u32(1)),
+    fullBox('stsz', 0, 0, u32(0), u32(frameCount), ...sampleSizes.map(u32)),
+    fullBox('stco', 0, 0, u32(1), u32(dataOffset)),
+  );
+  const minf = box('minf',
+    fullBox('vmhd', 0, 1, u16(0), u16(0), u16(0), u16(0)),
+    box('dinf', fullBox('dref', 0, 0, u32(1), fullBox('url ', 0, 1))),
+    stbl,
+  );
+  const mdia = box('mdia',
+    fullBox('mdhd', 0, 0, u32(0), u32(0), u32(TIMESCALE), u32(duration), u16(0x55c4), u16(0)),
+    fullBox('hdlr', 0, 0, u32(0), Buffer.from('vide', 'ascii'), Buffer.alloc(12), Buffer.from('VideoHandler\0', 'ascii')),
+    minf,
+  );
+  const tkhd = fullBox('tkhd', 0, 3,
+    u32(0), u32(0), u32(1), u32(0), u32(duration), Buffer.alloc(8),
+    u16(0), u16(0), u16(0), u16(0), // layer, alternate_group, volume, reserved
+    ...MATRIX.map(u32), u32(width << 16), u32(height << 16),
+  );
+  const mvhd = fullBox('mvhd', 0, 0,
+    u32(0), u32(0), u32(TIMESCALE), u32(duration),
+    u32(0x00010000), u16(0x0100), Buffer.alloc(10),
+    ...MATRIX.map(u32), Buffer.alloc(24), u32(2),
+  );
+  return box('moov', mvhd, box('trak', tkhd, mdia));
+};
+
+export const createMp4 = (options: Mp4Options): Buffer => {
+  const widthInMbs = Math.ceil(options.width / 16);
+  const heightInMbs = Math.ceil(options.height / 16);
+  const sps = sequenceParameterSet(widthInMbs, heightInMbs, widthInMbs * 16 - options.width, heightInMbs * 16 - options.height);
+  const pps = pictureParameterSet();
+  const samples = Array.from({ length: options.frameCount }, (_, frame) => {
+    const slice = idrSlice(frame, widthInMbs, heightInMbs, framePlanes(options, frame, widthInMbs, heightInMbs));
+    return Buffer.concat([u32(slice.length), slice]);
+  });
+  const sizes = samples.map(sample => sample.length);
+
+  const ftyp = box('ftyp', Buffer.from('isom', 'ascii'), u32(0x200), Buffer.from('isomiso2avc1mp41', 'ascii'));
+  // The chunk offset does not change the size of moov, so measure it first.
+  const moovSize = movieBox(options, sps, pps, sizes, 0).length;
+  const moov = movieBox(options, sps, pps, sizes, ftyp.length + moovSize + 8);
+  return Buffer.concat([ftyp, moov, box('mdat', ...samples)]);
+};
@@ -0,0 +1,34 @@
+import { IncomingMessage } from 'http';
+import { Duplex } from 'stream';
+import type { Plugin, PreviewServer, ViteDevServer } from 'vite';
+import { WebSocketServer } from 'ws';
+import { handleLiveSocket } from './live';
+import { handleRestRequest } from './rest';
+
+// Path the offline backend is mounted under. The app points the Gemini SDK's
+// `baseUrl` here when GEMINI_MOCK is enabled.
+export const MOCK_BASE_PATH = '/mock-gemini';
+
+const requestOrigin = (req: IncomingMessage) => `http://${req.headers.host ?? 'localhost'}`;
+
+const attach = (server: ViteDevServer | PreviewServer) => {
+  server.middlewares.use(MOCK_BASE_PATH, (req, res, next) => {
+    // Connect strips the mount path, so `req.url` is relative to MOCK_BASE_PATH.
+    handleRestRequest(req, res, req.url ?? '/', requestOrigin(req), MOCK_BASE_PATH).catch(next);
+  });
+
+  const wss = new WebSocketServer({ noServer: true });
+  wss.on('connection', handleLiveSocket);
+  server.httpServer?.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    if (!req.url?.startsWith(MOCK_BASE_PATH) || !req.url.includes('BidiGenerateContent')) return;
+    wss.handleUpgrade(req, socket, head, ws => wss.emit('connection', ws, req));
+  });
+};
+
+// Serves a deterministic stand-in for the Gemini API from the Vite dev and
+// preview servers so the app can run with no network or API key.
+export const geminiMock = (): Plugin => ({
+  name: 'gemini-mock',
+  configureServer: attach,
+  configurePreviewServer: attach,
+});
@@ -0,0 +1,280 @@
+import { Candidate, Content, FinishReason, GenerationConfig, Part, Tool } from '@google/genai';
+import { IncomingMessage, ServerResponse } from 'http';
+import { createPcmTone, createPng, createVideo, mockText, sampleFromSchema } from './fixtures';
+
+// How many getVideosOperation polls a mock Veo job stays pending for, so the
+// client's polling loop is actually exercised.
+const VIDEO_POLLS_UNTIL_DONE = 2;
+
+interface VideoOperation {
+  prompt: string;
+  aspectRatio: string;
+  polls: number;
+}
+
+// Request bodies as they arrive on the wire. The SDK's own parameter types
+// describe the calls before they are converted, e.g. `config` rather than
+// `generationConfig`, so only the nested types are shared.
+interface GenerateContentBody {
+  contents?: Content | Content[];
+  generationConfig?: GenerationConfig;
+  tools?: Tool[];
+}
+
+interface PredictBody {
+  instances?: { prompt?: string }[];
+  parameters?: { sampleCount?: number; aspectRatio?: string };
+}
+
+interface UploadStartBody {
+  file?: { displayName?: string; mimeType?: string };
+}
+
+const videoOperations = new Map<string, VideoOperation>();
+let nextOperationId = 1;
+
+// Files API uploads. Only the metadata is kept; the bytes are counted and
+// dropped, since mock responses never depend on file contents.
+interface UploadedFile {
+  name: string;
+  displayName?: string;
+  mimeType: string;
+  sizeBytes: number;
+  uri: string;
+}
+
+const uploadSessions = new Map<string, UploadedFile>();
+const uploadedFiles = new Map<string, UploadedFile>();
+let nextFileId = 1;
+
+const readBody = (req: IncomingMessage): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+// The mock trusts its client, so bodies are not validated beyond parsing.
+const readJson = async <T>(req: IncomingMessage): Promise<T> => {
+  const body = (await readBody(req)).toString('utf8');
+  return body ? JSON.parse(body) : {} as T;
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, status: number, message: string) =>
+  sendJson(res, status, { error: { code: status, message, status: 'MOCK_ERROR' } });
+
+// Concatenates every text part of the last user turn.
+const lastUserText = (contents: GenerateContentBody['contents']): string => {
+  const turns = Array.isArray(contents) ? contents : [contents];
+  const lastTurn = turns.filter(turn => !turn?.role || turn.role === 'user').pop();
+  return (lastTurn?.parts ?? [])
+    .map(part => part.text ?? '')
+    .join(' ')
+    .trim();
+};
+
+const contentResponse = (body: GenerateContentBody) => {
+  const prompt = lastUserText(body.contents);
+  const generationConfig = body.generationConfig ?? {};
+  const modalities = (generationConfig.responseModalities ?? []).map(m => m.toUpperCase());
+
+  let parts: Part[];
+  if (modalities.includes('IMAGE')) {
+    parts = [{ inlineData: { mimeType: 'image/png', data: createPng(prompt).toString('base64') } }];
+  } else if (modalities.includes('AUDIO')) {
+    parts = [{ inlineData: { mimeType: 'audio/L16;codec=pcm;rate=24000', data: createPcmTone(prompt, 1.5, 24000).toString('base64') } }];
+  } else if (generationConfig.responseMimeType === 'application/json') {
+    const schema = generationConfig.responseSchema ?? generationConfig.responseJsonSchema;
+    parts = [{ text: JSON.stringify(sampleFromSchema(schema)) }];
+  } else {
+    parts = [{ text: mockText(prompt) }];
+  }
+
+  const candidate: Candidate = { content: { role: 'model', parts }, finishReason: FinishReason.STOP, index: 0 };
+  const usesSearch = (body.tools ?? []).some(tool => tool.googleSearch);
+  if (usesSearch) {
+    candidate.groundingMetadata = {
+      groundingChunks: [{ web: { uri: 'https://example.com/mock-source', title: 'Mock search result' } }],
+    };
+  }
+  return { candidates: [candidate], modelVersion: 'mock' };
+};
+
+const streamContent = (res: ServerResponse, body: GenerateContentBody) => {
+  const response = contentResponse(body);
+  const text = response.candidates[0].content?.parts?.[0]?.text;
+  res.statusCode = 200;
+  res.setHeader('Content-Type', 'text/event-stream');
+  if (text === undefined) {
+    res.end(`data: ${JSON.stringify(response)}\n\n`);
+    return;
+  }
+  // Emit the answer a few words at a time so incremental rendering is visible.
+  const words = text.split(/(?<=\s)/);
+  for (let i = 0; i < words.length; i += 4) {
+    const chunk = {
+      candidates: [{ content: { role: 'model', parts: [{ text: words.slice(i, i + 4).join('') }] }, index: 0 }],
+    };
+    res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+  }
+  res.end(`data: ${JSON.stringify({ ...response, candidates: [{ ...response.candidates[0], content: { role: 'model', parts: [{ text: '' }] } }] })}\n\n`);
+};
+
+const predictImages = (body: PredictBody) => {
+  const prompt = body.instances?.[0]?.prompt ?? '';
+  const count = body.parameters?.sampleCount ?? 1;
+  const aspectRatio = body.parameters?.aspectRatio ?? '1:1';
+  return {
+    predictions: Array.from({ length: count }, (_, i) => ({
+      mimeType: 'image/png',
+      bytesBase64Encoded: createPng(`${prompt}#${i}`, aspectRatio).toString('base64'),
+    })),
+  };
+};
+
+const videoOperationBody = (name: string, origin: string, basePath: string) => {
+  const operation = videoOperations.get(name)!;
+  if (operation.polls < VIDEO_POLLS_UNTIL_DONE) {
+    return { name, done: false, metadata: { polls: operation.polls } };
+  }
+  const id = name.split('/').pop();
+  return {
+    name,
+    done: true,
+    response: {
+      generateVideoResponse: {
+        generatedSamples: [{ video: { uri: `${origin}${basePath}/files/${id}:download?alt=media` } }],
+      },
+    },
+  };
+};
+
+const fileResource = (file: UploadedFile) => ({
+  name: file.name,
+  displayName: file.displayName,
+  mimeType: file.mimeType,
+  sizeBytes: String(file.sizeBytes),
+  uri: file.uri,
+  state: 'ACTIVE',
+});
+
+// The resumable upload protocol used by `files.upload`: a `start` request
+// returns the session URL in a header, then chunks are posted to it with
+// `upload` commands, the last also carrying `finalize`.
+const handleUpload = async (req: IncomingMessage, res: ServerResponse, query: URLSearchParams, origin: string, basePath: string) => {
+  const command = String(req.headers['x-goog-upload-command'] ?? '');
+  if (command === 'start') {
+    const body = await readJson<UploadStartBody>(req);
+    const id = `mock-file-${nextFileId++}`;
+    uploadSessions.set(id, {
+      name: `files/${id}`,
+      displayName: body.file?.displayName,
+      mimeType: body.file?.mimeType ?? String(req.headers['x-goog-upload-header-content-type'] ?? 'application/octet-stream'),
+      sizeBytes: 0,
+      uri: `${origin}${basePath}/v1beta/files/${id}`,
+    });
+    res.setHeader('x-goog-upload-url', `${origin}${basePath}/upload/v1beta/files?upload_id=${id}`);
+    sendJson(res, 200, {});
+    return;
+  }
+  const id = query.get('upload_id') ?? '';
+  const session = uploadSessions.get(id);
+  if (!session) {
+    sendError(res, 404, 'Unknown upload session.');
+    return;
+  }
+  session.sizeBytes += (await readBody(req)).length;
+  if (!command.includes('finalize')) {
+    res.setHeader('x-goog-upload-status', 'active');
+    sendJson(res, 200, {});
+    return;
+  }
+  uploadSessions.delete(id);
+  uploadedFiles.set(session.name, session);
+  res.setHeader('x-goog-upload-status', 'final');
+  sendJson(res, 200, { file: fileResource(session) });
+};
+
+// Handles a REST call whose path has already had the mock prefix removed,
+// e.g. `/v1beta/models/gemini-2.5-flash:generateContent`.
+export const handleRestRequest = async (
+  req: IncomingMessage,
+  res: ServerResponse,
+  path: string,
+  origin: string,
+  basePath: string,
+): Promise<void> => {
+  const [pathname, search = ''] = path.split('?');
+
+  if (pathname === '/upload/v1beta/files' && req.method === 'POST') {
+    await handleUpload(req, res, new URLSearchParams(search), origin, basePath);
+    return;
+  }
+
+  const uploadedMatch = pathname.match(/^\/v1[^/]*\/(files\/[^/:]+)$/);
+  if (uploadedMatch && req.method === 'GET') {
+    const file = uploadedFiles.get(uploadedMatch[1]);
+    if (file) {
+      sendJson(res, 200, fileResource(file));
+    } else {
+      sendError(res, 404, 'Requested entity was not found.');
+    }
+    return;
+  }
+
+  const fileMatch = pathname.match(/^\/files\/([^/:]+)/);
+  if (fileMatch && req.method === 'GET') {
+    const operation = videoOperations.get(`models/mock/operations/${fileMatch[1]}`);
+    res.statusCode = 200;
+    res.setHeader('Content-Type', 'video/mp4');
+    res.end(createVideo(operation?.prompt ?? fileMatch[1], operation?.aspectRatio));
+    return;
+  }
+
+  const operationMatch = pathname.match(/^\/v1[^/]*\/(models\/[^/]+\/operations\/[^/]+)$/);
+  if (operationMatch && req.method === 'GET') {
+    const name = operationMatch[1];
+    const operation = videoOperations.get(name);
+    if (!operation) {
+      sendError(res, 404, 'Requested entity was not found.');
+      return;
+    }
+    operation.polls++;
+    sendJson(res, 200, videoOperationBody(name, origin, basePath));
+    return;
+  }
+
+  const methodMatch = pathname.match(/^\/v1[^/]*\/models\/([^/:]+):(\w+)$/);
+  if (!methodMatch || req.method !== 'POST') {
+    sendError(res, 404, `The offline Gemini mock does not implement ${req.method} ${pathname}.`);
+    return;
+  }
+
+  switch (methodMatch[2]) {
+    case 'generateContent':
+      sendJson(res, 200, contentResponse(await readJson<GenerateContentBody>(req)));
+      return;
+    case 'streamGenerateContent':
+      streamContent(res, await readJson<GenerateContentBody>(req));
+      return;
+    case 'predict':
+      sendJson(res, 200, predictImages(await readJson<PredictBody>(req)));
+      return;
+    case 'predictLongRunning': {
+      const body = await readJson<PredictBody>(req);
+      const name = `models/mock/operations/mock-video-${nextOperationId++}`;
+      videoOperations.set(name, { prompt: body.instances?.[0]?.prompt ?? '', aspectRatio: body.parameters?.aspectRatio ?? '16:9', polls: 0 });
+      sendJson(res, 200, { name, done: false });
+      return;
+    }
+    default:
+      sendError(res, 404, `The offline Gemini mock does not implement :${methodMatch[2]}.`);
+  }
+};
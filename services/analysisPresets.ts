@@ -0,0 +1,185 @@
+import { Schema, Type } from '@google/genai';
+import { CsvRow } from '../utils/csv';
+
+// Gemini reports boxes as [ymin, xmin, ymax, xmax] normalised to 0-1000.
+export type BoundingBox = [number, number, number, number];
+
+export interface LabelledBox {
+  label: string;
+  box: BoundingBox;
+}
+
+export type AnalysisPresetId = 'custom' | 'alt-text' | 'objects' | 'ocr' | 'palette' | 'safety';
+
+// A structured analysis template. Presets without a schema return free text
+// for the user's own prompt.
+export interface AnalysisPreset {
+  id: AnalysisPresetId;
+  label: string;
+  prompt: string;
+  schema?: Schema;
+  toRows?: (result: unknown) => CsvRow[];
+  toBoxes?: (result: unknown) => LabelledBox[];
+}
+
+const BOX_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  description: 'Bounding box as [ymin, xmin, ymax, xmax], each normalised to 0-1000.',
+  items: { type: Type.INTEGER },
+  minItems: '4',
+  maxItems: '4',
+};
+
+interface AltTextResult {
+  altText: string;
+  longDescription: string;
+}
+
+interface ObjectsResult {
+  objects: { label: string; box_2d: BoundingBox }[];
+}
+
+interface OcrResult {
+  fullText: string;
+  blocks: { text: string; box_2d: BoundingBox }[];
+}
+
+interface PaletteResult {
+  colors: { hex: string; name: string; percentage: number }[];
+}
+
+interface SafetyResult {
+  isSafe: boolean;
+  tags: { category: string; likelihood: string; explanation: string }[];
+}
+
+const formatBox = (box: BoundingBox) => box.join(' ');
+
+export const ANALYSIS_PRESETS: AnalysisPreset[] = [
+  {
+    id: 'custom',
+    label: 'Ask a Question',
+    prompt: 'Describe this image in detail.',
+  },
+  {
+    id: 'alt-text',
+    label: 'Alt Text',
+    prompt: 'Write accessible alt text for this image: a concise alt text under 125 characters, plus a longer description for screen reader users.',
+    schema: {
+      type: Type.OBJECT,
+      properties: {
+        altText: { type: Type.STRING },
+        longDescription: { type: Type.STRING },
+      },
+      required: ['altText', 'longDescription'],
+    },
+    toRows: result => {
+      const { altText, longDescription } = result as AltTextResult;
+      return [{ altText, longDescription }];
+    },
+  },
+  {
+    id: 'objects',
+    label: 'Objects',
+    prompt: 'Detect the distinct objects in this image. Return a short label and a bounding box for each, with no more than 25 objects.',
+    schema: {
+      type: Type.OBJECT,
+      properties: {
+        objects: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              label: { type: Type.STRING },
+              box_2d: BOX_SCHEMA,
+            },
+            required: ['label', 'box_2d'],
+          },
+        },
+      },
+      required: ['objects'],
+    },
+    toRows: result => (result as ObjectsResult).objects.map(({ label, box_2d }) => ({ label, box: formatBox(box_2d) })),
+    toBoxes: result => (result as ObjectsResult).objects.map(({ label, box_2d }) => ({ label, box: box_2d })),
+  },
+  {
+    id: 'ocr',
+    label: 'Text (OCR)',
+    prompt: 'Transcribe all legible text in this image. Return the full text in reading order, and each line or block of text with its bounding box.',
+    schema: {
+      type: Type.OBJECT,
+      properties: {
+        fullText: { type: Type.STRING },
+        blocks: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              text: { type: Type.STRING },
+              box_2d: BOX_SCHEMA,
+            },
+            required: ['text', 'box_2d'],
+          },
+        },
+      },
+      required: ['fullText', 'blocks'],
+    },
+    toRows: result => (result as OcrResult).blocks.map(({ text, box_2d }) => ({ text, box: formatBox(box_2d) })),
+    toBoxes: result => (result as OcrResult).blocks.map(({ text, box_2d }) => ({ label: text, box: box_2d })),
+  },
+  {
+    id: 'palette',
+    label: 'Color Palette',
+    prompt: 'Extract the 5 to 8 dominant colors of this image, from most to least prominent, with a hex code, a descriptive name and the approximate share of the image.',
+    schema: {
+      type: Type.OBJECT,
+      properties: {
+        colors: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              hex: { type: Type.STRING, description: 'Hex color such as #1a2b3c.' },
+              name: { type: Type.STRING },
+              percentage: { type: Type.NUMBER, description: 'Approximate share of the image, 0-100.' },
+            },
+            required: ['hex', 'name', 'percentage'],
+          },
+        },
+      },
+      required: ['colors'],
+    },
+    toRows: result => (result as PaletteResult).colors.map(({ hex, name, percentage }) => ({ hex, name, percentage })),
+  },
+  {
+    id: 'safety',
+    label: 'Content Safety',
+    prompt: 'Review this image for content safety. Assess violence, adult content, hate symbols, self-harm, dangerous activities and personal information, and say whether it is safe for a general audience.',
+    schema: {
+      type: Type.OBJECT,
+      properties: {
+        isSafe: { type: Type.BOOLEAN },
+        tags: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              category: { type: Type.STRING },
+              likelihood: { type: Type.STRING, enum: ['none', 'unlikely', 'possible', 'likely', 'very likely'] },
+              explanation: { type: Type.STRING },
+            },
+            required: ['category', 'likelihood', 'explanation'],
+          },
+        },
+      },
+      required: ['isSafe', 'tags'],
+    },
+    toRows: result => {
+      const { isSafe, tags } = result as SafetyResult;
+      return tags.map(tag => ({ ...tag, isSafe }));
+    },
+  },
+];
+
+export const getAnalysisPreset = (id: AnalysisPresetId): AnalysisPreset =>
+  ANALYSIS_PRESETS.find(preset => preset.id === id) ?? ANALYSIS_PRESETS[0];
@@ -0,0 +1,46 @@
+import { Asset, NewAsset } from '../types';
+import { deleteRecord, getAllRecords, getRecord, putRecord } from './db';
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const subscribeToAssets = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+export const saveAsset = async (asset: NewAsset): Promise<Asset> => {
+  const record: Asset = { ...asset, id: crypto.randomUUID(), createdAt: Date.now() };
+  await putRecord('assets', record);
+  notify();
+  return record;
+};
+
+// Generators call this after a successful run. Persisting is best-effort: a
+// full or unavailable IndexedDB must never turn a successful generation into
+// an error in the UI.
+export const recordAsset = (asset: NewAsset): void => {
+  saveAsset(asset).catch(e => console.error('Failed to save asset to the library.', e));
+};
+
+export const listAssets = async (): Promise<Asset[]> => {
+  const assets = await getAllRecords<Asset>('assets');
+  return assets.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getAsset = (id: string): Promise<Asset | undefined> => getRecord<Asset>('assets', id);
+
+export const deleteAsset = async (id: string): Promise<void> => {
+  await deleteRecord('assets', id);
+  notify();
+};
+
+// Writes assets as-is, keeping their ids, e.g. when restoring a project.
+export const importAssets = async (assets: Asset[]): Promise<void> => {
+  for (const asset of assets) {
+    await putRecord('assets', asset);
+  }
+  notify();
+};
@@ -0,0 +1,33 @@
+import { Character } from '../types';
+import { deleteAsset } from './assetStore';
+import { deleteRecord, getAllRecords, putRecord } from './db';
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const subscribeToCharacters = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+export const listCharacters = async (): Promise<Character[]> => {
+  const characters = await getAllRecords<Character>('characters');
+  return characters.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveCharacter = async (character: Character): Promise<void> => {
+  await putRecord('characters', character);
+  notify();
+};
+
+// Removes the character and its reference images. Videos generated for it
+// stay in the library.
+export const deleteCharacter = async (character: Character): Promise<void> => {
+  await deleteRecord('characters', character.id);
+  for (const assetId of character.referenceAssetIds) {
+    await deleteAsset(assetId);
+  }
+  notify();
+};
@@ -0,0 +1,69 @@
+import { ChatMessage, Conversation } from '../types';
+import { deleteRecord, getAllRecords, getRecord, putRecord } from './db';
+import { MODELS } from './gemini';
+
+export const DEFAULT_CONVERSATION_TITLE = 'New chat';
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const subscribeToConversations = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+// Builds an unsaved conversation. It is only written once it has messages.
+export const newConversation = (changes: Partial<Conversation> = {}): Conversation => {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    title: DEFAULT_CONVERSATION_TITLE,
+    model: MODELS.chat,
+    systemInstruction: '',
+    messages: [],
+    createdAt: now,
+    updatedAt: now,
+    ...changes,
+  };
+};
+
+export const listConversations = async (): Promise<Conversation[]> => {
+  const conversations = await getAllRecords<Conversation>('conversations');
+  return conversations.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getConversation = (id: string): Promise<Conversation | undefined> =>
+  getRecord<Conversation>('conversations', id);
+
+export const saveConversation = async (conversation: Conversation): Promise<void> => {
+  await putRecord('conversations', conversation);
+  notify();
+};
+
+export const renameConversation = async (id: string, title: string): Promise<void> => {
+  const conversation = await getConversation(id);
+  if (conversation) await saveConversation({ ...conversation, title });
+};
+
+// Copies the conversation, optionally only up to and including the message at
+// `throughIndex`, so a thread can branch without losing the original.
+export const forkConversation = async (conversation: Conversation, throughIndex?: number): Promise<Conversation> => {
+  const messages: ChatMessage[] = throughIndex === undefined
+    ? conversation.messages
+    : conversation.messages.slice(0, throughIndex + 1);
+  const fork = newConversation({
+    title: `${conversation.title} (fork)`,
+    model: conversation.model,
+    systemInstruction: conversation.systemInstruction,
+    messages,
+  });
+  await saveConversation(fork);
+  return fork;
+};
+
+export const deleteConversation = async (id: string): Promise<void> => {
+  await deleteRecord('conversations', id);
+  notify();
+};
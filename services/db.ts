@@ -0,0 +1,60 @@
+// Thin promise wrapper around the app's IndexedDB database. Each feature that
+// needs to persist data owns one object store listed in STORES.
+const DB_NAME = 'your-creator-gen';
+const DB_VERSION = 7;
+const STORES = ['assets', 'videoJobs', 'conversations', 'results', 'liveSessions', 'characters', 'prompts'] as const;
+
+export type StoreName = typeof STORES[number];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const store of STORES) {
+          if (!db.objectStoreNames.contains(store)) {
+            db.createObjectStore(store, { keyPath: 'id' });
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = makeRequest(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const getAllRecords = <T>(storeName: StoreName): Promise<T[]> =>
+  runRequest(storeName, 'readonly', store => store.getAll() as IDBRequest<T[]>);
+
+export const getRecord = <T>(storeName: StoreName, id: string): Promise<T | undefined> =>
+  runRequest(storeName, 'readonly', store => store.get(id) as IDBRequest<T | undefined>);
+
+export const putRecord = async <T>(storeName: StoreName, record: T): Promise<void> => {
+  await runRequest(storeName, 'readwrite', store => store.put(record));
+};
+
+export const deleteRecord = async (storeName: StoreName, id: string): Promise<void> => {
+  await runRequest(storeName, 'readwrite', store => store.delete(id));
+};
@@ -0,0 +1,49 @@
+import { Chat, Content, GenerateContentConfig, PartListUnion } from '@google/genai';
+import { createClient } from './client';
+import { MODELS } from './models';
+import { collectStream, StreamUpdateHandler } from './stream';
+import { ContentResult } from './types';
+
+export interface CreateChatOptions {
+  model?: string;
+  systemInstruction?: string;
+  history?: Content[];
+}
+
+// The SDK replaces (rather than merges) a chat's config when a per-message
+// config is passed, so the session keeps its own copy to send with each turn.
+export interface ChatSession {
+  chat: Chat;
+  config: GenerateContentConfig;
+}
+
+export const createChat = ({ model = MODELS.chat, systemInstruction, history }: CreateChatOptions = {}): ChatSession => {
+  const config: GenerateContentConfig = systemInstruction ? { systemInstruction } : {};
+  return {
+    chat: createClient().chats.create({ model, history, config }),
+    config,
+  };
+};
+
+// A stopped turn is not added to the SDK's chat history; callers that keep the
+// partial answer should rebuild the session from their own transcript.
+export const sendChatMessageStream = (
+  session: ChatSession,
+  message: PartListUnion,
+  onUpdate: StreamUpdateHandler,
+  signal?: AbortSignal,
+): Promise<ContentResult> =>
+  collectStream(
+    () => session.chat.sendMessageStream({ message, config: { ...session.config, abortSignal: signal } }),
+    onUpdate,
+    signal,
+  );
+
+// Asks the fast model for a short title summarising the opening message.
+export const generateChatTitle = async (firstMessage: string): Promise<string> => {
+  const response = await createClient().models.generateContent({
+    model: MODELS.chat,
+    contents: `Write a title of at most six words for a conversation that starts with the message below. Reply with the title only, without quotes.\n\n${firstMessage}`,
+  });
+  return (response.text ?? '').trim().replace(/^["']|["']$/g, '').slice(0, 80);
+};
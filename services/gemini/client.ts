@@ -0,0 +1,72 @@
+import { GoogleGenAI } from '@google/genai';
+
+declare global {
+  interface Window {
+    // Injected by AI Studio when the app runs inside it.
+    aistudio?: {
+      hasSelectedApiKey: () => Promise<boolean>;
+      openSelectKey: () => Promise<void>;
+    };
+  }
+}
+
+// Where requests go. The default talks to the public Gemini API with the key
+// from the environment; tests and local development can point `baseUrl` at
+// another server that speaks the same REST/WebSocket protocol. An `apiKey`
+// set here overrides the environment key.
+export interface GeminiTransport {
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+// GEMINI_BASE_URL may be relative (the offline mock is served from the dev
+// server), but the SDK needs an absolute URL to derive its WebSocket endpoint.
+const defaultBaseUrl = (): string | undefined =>
+  process.env.GEMINI_BASE_URL ? new URL(process.env.GEMINI_BASE_URL, window.location.origin).toString() : undefined;
+
+let transport: GeminiTransport = { baseUrl: defaultBaseUrl() };
+
+export const setTransport = (next: GeminiTransport): void => {
+  transport = next;
+};
+
+export const getTransport = (): GeminiTransport => transport;
+
+// Read on every call: the AI Studio key picker replaces process.env.API_KEY
+// while the page is open.
+const currentApiKey = (): string | undefined => transport.apiKey ?? process.env.API_KEY;
+
+// A fresh client per call so that a key chosen through the AI Studio key
+// picker is picked up without reloading the page.
+export const createClient = (): GoogleGenAI =>
+  new GoogleGenAI({
+    apiKey: currentApiKey(),
+    ...(transport.baseUrl ? { httpOptions: { baseUrl: transport.baseUrl } } : {}),
+  });
+
+// Downloads a file produced by the API (e.g. a Veo video), which requires the
+// API key to be appended to the signed URI.
+export const fetchGeneratedFile = async (uri: string): Promise<Blob> => {
+  const separator = uri.includes('?') ? '&' : '?';
+  const response = await fetch(`${uri}${separator}key=${currentApiKey()}`);
+  if (!response.ok) throw new Error(`Failed to download the generated file. Status: ${response.status}`);
+  return response.blob();
+};
+
+export const hasSelectedApiKey = async (): Promise<boolean> => {
+  if (window.aistudio && typeof window.aistudio.hasSelectedApiKey === 'function') {
+    return window.aistudio.hasSelectedApiKey();
+  }
+  console.warn('window.aistudio not found. Assuming API key is set in environment.');
+  return !!currentApiKey();
+};
+
+export const canSelectApiKey = (): boolean =>
+  !!window.aistudio && typeof window.aistudio.openSelectKey === 'function';
+
+export const openSelectKey = async (): Promise<void> => {
+  if (!canSelectApiKey()) {
+    throw new Error('API key selection is not available in this environment.');
+  }
+  await window.aistudio!.openSelectKey();
+};
@@ -0,0 +1,58 @@
+import { GenerateContentParameters, Part } from '@google/genai';
+import { createClient } from './client';
+import { MODELS } from './models';
+import { collectStream, StreamUpdateHandler } from './stream';
+import { ContentResult, GenerateContentRequest, GenerateJsonRequest, toGroundingSources } from './types';
+
+const toParameters = (request: GenerateContentRequest): GenerateContentParameters => {
+  const parts: Part[] = (request.images ?? []).map(inlineData => ({ inlineData }));
+  parts.push({ text: request.prompt });
+
+  const params: GenerateContentParameters = {
+    model: request.model ?? MODELS.chat,
+    contents: { parts },
+    config: {},
+  };
+  if (request.systemInstruction) {
+    params.config!.systemInstruction = request.systemInstruction;
+  }
+  if (request.thinkingBudget !== undefined) {
+    params.config!.thinkingConfig = { thinkingBudget: request.thinkingBudget };
+  }
+  if (request.useWebSearch) {
+    params.config!.tools = [{ googleSearch: {} }];
+  }
+  return params;
+};
+
+export const generateContent = async (request: GenerateContentRequest): Promise<ContentResult> => {
+  const response = await createClient().models.generateContent(toParameters(request));
+  return {
+    text: response.text ?? '',
+    sources: toGroundingSources(response.candidates?.[0]?.groundingMetadata?.groundingChunks),
+  };
+};
+
+// JSON mode: the response is constrained to `responseSchema` and parsed.
+// Search grounding cannot be combined with a response schema.
+export const generateJson = async <T>({ responseSchema, ...request }: GenerateJsonRequest): Promise<T> => {
+  const params = toParameters(request);
+  params.config!.responseMimeType = 'application/json';
+  params.config!.responseSchema = responseSchema;
+  const response = await createClient().models.generateContent(params);
+  try {
+    return JSON.parse(response.text ?? '') as T;
+  } catch {
+    throw new Error('The model returned invalid JSON.');
+  }
+};
+
+export const streamContent = (
+  request: GenerateContentRequest,
+  onUpdate: StreamUpdateHandler,
+  signal?: AbortSignal,
+): Promise<ContentResult> => {
+  const params = toParameters(request);
+  params.config!.abortSignal = signal;
+  return collectStream(() => createClient().models.generateContentStream(params), onUpdate, signal);
+};
@@ -0,0 +1,62 @@
+import { Modality, Part } from '@google/genai';
+import { createClient } from './client';
+import { MODELS } from './models';
+import { EditImageRequest, GenerateImagesRequest, InlineData } from './types';
+
+// Imagen returns at most this many candidates per request.
+export const MAX_IMAGE_CANDIDATES = 4;
+
+export const generateImages = async ({ prompt, aspectRatio, numberOfImages = 1 }: GenerateImagesRequest): Promise<InlineData[]> => {
+  const response = await createClient().models.generateImages({
+    model: MODELS.image,
+    prompt,
+    config: {
+      numberOfImages,
+      outputMimeType: 'image/png',
+      aspectRatio,
+    },
+  });
+
+  const images = (response.generatedImages ?? [])
+    .map(generated => generated.image?.imageBytes)
+    .filter((bytes): bytes is string => !!bytes)
+    .map(data => ({ data, mimeType: 'image/png' }));
+  if (images.length === 0) {
+    throw new Error('No image data received from the API.');
+  }
+  return images;
+};
+
+// The image model has no native mask input, so the mask is sent as a second
+// image with instructions. Callers should still composite the result onto the
+// original, as the model may touch pixels outside the mask.
+const maskedPrompt = (prompt: string) =>
+  `The second image is a mask for the first. Apply the edit below only inside the white area of the mask and leave everything in the black area exactly as it is. Return only the edited version of the first image, at the same size.\n\nEdit: ${prompt}`;
+
+export const editImage = async ({ image, prompt, mask }: EditImageRequest): Promise<InlineData> => {
+  const parts: Part[] = [{ inlineData: image }];
+  if (mask) parts.push({ inlineData: mask });
+  parts.push({ text: mask ? maskedPrompt(prompt) : prompt });
+
+  const response = await createClient().models.generateContent({
+    model: MODELS.imageEdit,
+    contents: { parts },
+    config: {
+      responseModalities: [Modality.IMAGE],
+    },
+  });
+
+  const imagePart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData?.data);
+  if (!imagePart?.inlineData?.data) {
+    throw new Error('No edited image data received from the API.');
+  }
+  return { data: imagePart.inlineData.data, mimeType: imagePart.inlineData.mimeType ?? 'image/png' };
+};
+
+// Imagen does not expose a seed through the Gemini API, so variations are made
+// by feeding a chosen candidate back through the image editing model.
+export const generateVariation = (image: InlineData, originalPrompt: string): Promise<InlineData> =>
+  editImage({
+    image,
+    prompt: `Create a close variation of this image. Keep the subject, style and composition, but vary the details. The image was generated from this prompt: ${originalPrompt}`,
+  });
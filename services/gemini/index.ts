@@ -0,0 +1,11 @@
+export * from './client';
+export * from './models';
+export * from './types';
+export * from './image';
+export * from './video';
+export * from './content';
+export * from './stream';
+export * from './chat';
+export * from './live';
+export * from './tts';
+export * from './transcribe';
@@ -0,0 +1,12 @@
+import { LiveCallbacks, LiveConnectConfig, Session } from '@google/genai';
+import { createClient } from './client';
+import { MODELS } from './models';
+
+export interface ConnectLiveOptions {
+  config: LiveConnectConfig;
+  callbacks: LiveCallbacks;
+  model?: string;
+}
+
+export const connectLive = ({ config, callbacks, model = MODELS.live }: ConnectLiveOptions): Promise<Session> =>
+  createClient().live.connect({ model, config, callbacks });
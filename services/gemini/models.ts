@@ -0,0 +1,51 @@
+import { VideoResolution } from './types';
+
+// Central model configuration. Components refer to models by role so that a
+// model upgrade is a one-line change here.
+export const MODELS = {
+  image: 'imagen-4.0-generate-001',
+  imageEdit: 'gemini-2.5-flash-image',
+  video: 'veo-3.1-fast-generate-preview',
+  characterVideo: 'veo-3.1-generate-preview',
+  chat: 'gemini-2.5-flash',
+  vision: 'gemini-2.5-flash',
+  pro: 'gemini-2.5-pro',
+  live: 'gemini-2.5-flash-native-audio-preview-09-2025',
+  tts: 'gemini-2.5-flash-preview-tts',
+  transcription: 'gemini-2.5-flash',
+} as const;
+
+export type ModelRole = keyof typeof MODELS;
+
+// Maximum thinking budget supported by gemini-2.5-pro.
+export const MAX_THINKING_BUDGET = 32768;
+
+// Sample rates of the raw PCM audio exchanged with the API.
+export const INPUT_SAMPLE_RATE = 16000;
+export const OUTPUT_SAMPLE_RATE = 24000;
+
+// Prebuilt voices shared by text-to-speech and the Live API.
+export const VOICES = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Zephyr'] as const;
+export type VoiceName = typeof VOICES[number];
+
+// Veo tiers offered for video generation and the inputs each one accepts.
+export interface VideoModelOption {
+  id: string;
+  label: string;
+  resolutions: VideoResolution[];
+  // Veo 3 renders 1080p in landscape only.
+  fullHdPortrait: boolean;
+  lastFrame: boolean;
+  extension: boolean;
+  referenceImages: boolean;
+}
+
+export const VIDEO_MODELS: VideoModelOption[] = [
+  { id: 'veo-3.1-fast-generate-preview', label: 'Veo 3.1 Fast', resolutions: ['720p', '1080p'], fullHdPortrait: true, lastFrame: true, extension: true, referenceImages: false },
+  { id: 'veo-3.1-generate-preview', label: 'Veo 3.1', resolutions: ['720p', '1080p'], fullHdPortrait: true, lastFrame: true, extension: true, referenceImages: true },
+  { id: 'veo-3.0-fast-generate-001', label: 'Veo 3 Fast', resolutions: ['720p', '1080p'], fullHdPortrait: false, lastFrame: false, extension: false, referenceImages: false },
+  { id: 'veo-3.0-generate-001', label: 'Veo 3', resolutions: ['720p', '1080p'], fullHdPortrait: false, lastFrame: false, extension: false, referenceImages: false },
+  { id: 'veo-2.0-generate-001', label: 'Veo 2', resolutions: ['720p'], fullHdPortrait: false, lastFrame: true, extension: false, referenceImages: false },
+];
+
+export const getVideoModel = (id: string): VideoModelOption | undefined => VIDEO_MODELS.find(model => model.id === id);
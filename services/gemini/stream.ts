@@ -0,0 +1,28 @@
+import { GenerateContentResponse } from '@google/genai';
+import { ContentResult, toGroundingSources } from './types';
+
+export type StreamUpdateHandler = (partial: ContentResult) => void;
+
+// Accumulates a streamed response, reporting the text so far after every
+// chunk. Aborting through `signal` is not an error: the partial result is
+// returned with `stopped` set.
+export const collectStream = async (
+  start: () => Promise<AsyncGenerator<GenerateContentResponse>>,
+  onUpdate: StreamUpdateHandler,
+  signal?: AbortSignal,
+): Promise<ContentResult> => {
+  const result: ContentResult = { text: '', sources: [] };
+  try {
+    for await (const chunk of await start()) {
+      result.text += chunk.text ?? '';
+      const sources = toGroundingSources(chunk.candidates?.[0]?.groundingMetadata?.groundingChunks);
+      if (sources.length > 0) result.sources = sources;
+      onUpdate({ ...result });
+      if (signal?.aborted) break;
+    }
+  } catch (e) {
+    if (!signal?.aborted) throw e;
+  }
+  if (signal?.aborted) result.stopped = true;
+  return result;
+};
@@ -0,0 +1,77 @@
+import { createPartFromUri, FileState, Part, Schema, Type } from '@google/genai';
+import { blobToBase64 } from '../../utils/media';
+import { createClient } from './client';
+import { MODELS } from './models';
+import { TranscribeFileRequest, TranscriptSegment } from './types';
+
+// Requests are capped at 20 MB and inline data grows by a third as base64,
+// so larger recordings go through the Files API.
+const MAX_INLINE_BYTES = 14 * 1024 * 1024;
+const FILE_POLL_INTERVAL_MS = 2000;
+
+const TRANSCRIPT_PROMPT = `Transcribe this recording verbatim, in the language that is spoken.
+Split the transcript into segments at natural pauses and whenever the speaker changes, keeping each segment under about 15 seconds.
+Identify the distinct speakers. Label them "Speaker 1", "Speaker 2" and so on, or by name when a speaker is clearly named.
+Give each segment's start and end time in seconds from the beginning of the recording.`;
+
+const TRANSCRIPT_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    segments: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          start: { type: Type.NUMBER, description: 'Start time in seconds.' },
+          end: { type: Type.NUMBER, description: 'End time in seconds.' },
+          speaker: { type: Type.STRING },
+          text: { type: Type.STRING },
+        },
+        required: ['start', 'end', 'speaker', 'text'],
+        propertyOrdering: ['start', 'end', 'speaker', 'text'],
+      },
+    },
+  },
+  required: ['segments'],
+};
+
+const toMediaPart = async (file: Blob, mimeType: string): Promise<Part> => {
+  if (file.size <= MAX_INLINE_BYTES) {
+    return { inlineData: { data: await blobToBase64(file), mimeType } };
+  }
+  const client = createClient();
+  let uploaded = await client.files.upload({ file, config: { mimeType } });
+  // Video in particular is processed for a while before it can be used.
+  while (uploaded.state === FileState.PROCESSING) {
+    await new Promise(resolve => setTimeout(resolve, FILE_POLL_INTERVAL_MS));
+    uploaded = await client.files.get({ name: uploaded.name! });
+  }
+  if (uploaded.state === FileState.FAILED || !uploaded.uri) {
+    throw new Error('The uploaded file could not be processed.');
+  }
+  return createPartFromUri(uploaded.uri, uploaded.mimeType ?? mimeType);
+};
+
+// Transcribes an audio or video file into timed, speaker-labelled segments.
+export const transcribeFile = async ({ file, mimeType, model }: TranscribeFileRequest): Promise<TranscriptSegment[]> => {
+  const response = await createClient().models.generateContent({
+    model: model ?? MODELS.transcription,
+    contents: { parts: [await toMediaPart(file, mimeType), { text: TRANSCRIPT_PROMPT }] },
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: TRANSCRIPT_SCHEMA,
+    },
+  });
+  let segments: TranscriptSegment[] | undefined;
+  try {
+    segments = (JSON.parse(response.text ?? '') as { segments?: TranscriptSegment[] }).segments;
+  } catch {
+    throw new Error('The model returned invalid JSON.');
+  }
+  if (!Array.isArray(segments)) {
+    throw new Error('The model returned invalid JSON.');
+  }
+  return segments
+    .map(segment => ({ ...segment, end: Math.max(segment.end, segment.start) }))
+    .sort((a, b) => a.start - b.start);
+};
@@ -0,0 +1,38 @@
+import { Modality, SpeechConfig } from '@google/genai';
+import { decode } from '../../utils/audio';
+import { createClient } from './client';
+import { MODELS } from './models';
+import { SpeechRequest } from './types';
+
+// Returns raw 16-bit mono PCM at OUTPUT_SAMPLE_RATE.
+export const synthesizeSpeech = async ({ text, voice, speakers }: SpeechRequest): Promise<Uint8Array> => {
+  const speechConfig: SpeechConfig = speakers && speakers.length === 2
+    ? {
+        multiSpeakerVoiceConfig: {
+          speakerVoiceConfigs: speakers.map(({ speaker, voice: voiceName }) => ({
+            speaker,
+            voiceConfig: { prebuiltVoiceConfig: { voiceName } },
+          })),
+        },
+      }
+    : {
+        voiceConfig: {
+          prebuiltVoiceConfig: { voiceName: voice },
+        },
+      };
+
+  const response = await createClient().models.generateContent({
+    model: MODELS.tts,
+    contents: [{ parts: [{ text }] }],
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig,
+    },
+  });
+
+  const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+  if (!base64Audio) {
+    throw new Error('No audio data received from the API.');
+  }
+  return decode(base64Audio);
+};
@@ -0,0 +1,96 @@
+import { GroundingChunk as ApiGroundingChunk, Schema } from '@google/genai';
+
+// Base64-encoded bytes plus their MIME type, as sent in `inlineData` parts.
+export interface InlineData {
+  data: string;
+  mimeType: string;
+}
+
+export type ImageAspectRatio = '1:1' | '16:9' | '9:16' | '4:3' | '3:4';
+export type VideoAspectRatio = '16:9' | '9:16';
+export type VideoResolution = '720p' | '1080p';
+
+export interface GenerateImagesRequest {
+  prompt: string;
+  aspectRatio: ImageAspectRatio;
+  numberOfImages?: number;
+}
+
+export interface EditImageRequest {
+  image: InlineData;
+  prompt: string;
+  // Black and white image the size of `image`; white marks the editable area.
+  mask?: InlineData;
+}
+
+export interface GenerateVideoRequest {
+  prompt: string;
+  model?: string;
+  aspectRatio: VideoAspectRatio;
+  resolution?: VideoResolution;
+  image?: InlineData;
+  // Ending frame to interpolate towards from `image`.
+  lastFrame?: InlineData;
+  // A video generated by Veo in the last two days, to continue with a new segment.
+  extendVideoUri?: string;
+  negativePrompt?: string;
+  // Asset reference images (character consistency), supported by Veo 3.1 only.
+  referenceImages?: InlineData[];
+}
+
+export interface GenerateContentRequest {
+  prompt: string;
+  model?: string;
+  images?: InlineData[];
+  systemInstruction?: string;
+  thinkingBudget?: number;
+  useWebSearch?: boolean;
+}
+
+export interface GenerateJsonRequest extends Omit<GenerateContentRequest, 'useWebSearch'> {
+  responseSchema: Schema;
+}
+
+export interface GroundingSource {
+  uri: string;
+  title?: string;
+}
+
+export interface ContentResult {
+  text: string;
+  sources: GroundingSource[];
+  // True when the user stopped a streamed response before it finished.
+  stopped?: boolean;
+}
+
+// One stretch of a transcript. Times are seconds from the start of the file.
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  speaker: string;
+  text: string;
+}
+
+export interface TranscribeFileRequest {
+  file: Blob;
+  mimeType: string;
+  model?: string;
+}
+
+export interface SpeakerVoice {
+  speaker: string;
+  voice: string;
+}
+
+export interface SpeechRequest {
+  text: string;
+  voice: string;
+  // Two named speakers switch the request to multi-speaker dialogue, where
+  // the text labels each line "Speaker: line".
+  speakers?: SpeakerVoice[];
+}
+
+export const toGroundingSources = (chunks: ApiGroundingChunk[] | undefined): GroundingSource[] =>
+  (chunks ?? [])
+    .filter(chunk => chunk.web?.uri)
+    .map(chunk => ({ uri: chunk.web!.uri!, title: chunk.web!.title }));
@@ -0,0 +1,75 @@
+import { GenerateVideosOperation, GenerateVideosParameters, VideoGenerationReferenceType } from '@google/genai';
+import { createClient, fetchGeneratedFile } from './client';
+import { getVideoModel, MODELS } from './models';
+import { GenerateVideoRequest, InlineData } from './types';
+
+const toImage = ({ data, mimeType }: InlineData) => ({ imageBytes: data, mimeType });
+
+export const startVideoGeneration = (request: GenerateVideoRequest): Promise<GenerateVideosOperation> => {
+  const params: GenerateVideosParameters = {
+    model: request.model ?? MODELS.video,
+    prompt: request.prompt,
+    config: {
+      numberOfVideos: 1,
+      resolution: request.resolution ?? '720p',
+      aspectRatio: request.aspectRatio,
+      negativePrompt: request.negativePrompt?.trim() || undefined,
+    },
+  };
+  if (request.image) {
+    params.image = toImage(request.image);
+  }
+  if (request.lastFrame) {
+    params.config!.lastFrame = toImage(request.lastFrame);
+  }
+  if (request.extendVideoUri) {
+    params.video = { uri: request.extendVideoUri };
+  }
+  if (request.referenceImages?.length) {
+    params.config!.referenceImages = request.referenceImages.map(image => ({
+      image: toImage(image),
+      referenceType: VideoGenerationReferenceType.ASSET,
+    }));
+  }
+  return createClient().models.generateVideos(params);
+};
+
+// Checks the request against what the chosen Veo model supports. Returns a
+// message describing the first problem, or null when it can be sent.
+export const validateVideoRequest = (request: GenerateVideoRequest): string | null => {
+  const model = getVideoModel(request.model ?? MODELS.video);
+  if (!model) return 'Choose a supported video model.';
+  const resolution = request.resolution ?? '720p';
+  if (!model.resolutions.includes(resolution)) return `${model.label} does not support ${resolution}.`;
+  if (resolution === '1080p' && request.aspectRatio === '9:16' && !model.fullHdPortrait) {
+    return `${model.label} only renders 1080p in landscape.`;
+  }
+  if (request.lastFrame) {
+    if (!model.lastFrame) return `${model.label} does not support an ending frame.`;
+    if (!request.image) return 'An ending frame needs a starting image too.';
+  }
+  if (request.extendVideoUri) {
+    if (!model.extension) return `${model.label} cannot extend videos.`;
+    if (request.image || request.lastFrame) return 'Extending a video cannot be combined with starting or ending frames.';
+    if (resolution !== '720p') return 'Videos can only be extended at 720p.';
+  }
+  if (request.referenceImages?.length && !model.referenceImages) return `${model.label} does not support reference images.`;
+  if (!request.prompt.trim() && !request.image && !request.extendVideoUri) return 'Please enter a prompt or upload an image.';
+  return null;
+};
+
+export const getVideoOperation = (operation: GenerateVideosOperation): Promise<GenerateVideosOperation> =>
+  createClient().operations.getVideosOperation({ operation });
+
+// Rebuilds an operation handle from its persisted name, e.g. after a reload.
+export const getVideoOperationByName = (name: string): Promise<GenerateVideosOperation> => {
+  const operation = new GenerateVideosOperation();
+  operation.name = name;
+  return getVideoOperation(operation);
+};
+
+export const downloadVideo = (operation: GenerateVideosOperation): Promise<Blob> => {
+  const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
+  if (!downloadLink) throw new Error('Video generation succeeded, but no download link was found.');
+  return fetchGeneratedFile(downloadLink);
+};
@@ -0,0 +1,45 @@
+import { GeneratorMode } from '../types';
+import { extensionForMimeType } from '../utils/media';
+
+// Passes an output from one mode to another. The sender queues a handoff, App
+// switches to the target mode, and the target consumes it once on mount.
+export interface Handoff {
+  id: string;
+  source: GeneratorMode;
+  target: GeneratorMode;
+  blob: Blob;
+  mimeType: string;
+  prompt?: string;
+}
+
+export type NewHandoff = Omit<Handoff, 'id'>;
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+let pending: Handoff | null = null;
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const subscribeToHandoff = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+export const getHandoff = (): Handoff | null => pending;
+
+export const sendToMode = (handoff: NewHandoff): void => {
+  pending = { ...handoff, id: crypto.randomUUID() };
+  notify();
+};
+
+// Returns and clears the pending handoff if it is meant for `mode`.
+export const takeHandoff = (mode: GeneratorMode): Handoff | null => {
+  if (pending?.target !== mode) return null;
+  const handoff = pending;
+  pending = null;
+  notify();
+  return handoff;
+};
+
+export const handoffToFile = (handoff: Handoff): File =>
+  new File([handoff.blob], `from-${handoff.source}.${extensionForMimeType(handoff.mimeType)}`, { type: handoff.mimeType });
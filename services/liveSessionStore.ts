@@ -0,0 +1,30 @@
+import { LiveSession } from '../types';
+import { deleteAsset } from './assetStore';
+import { deleteRecord, getAllRecords, putRecord } from './db';
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const subscribeToLiveSessions = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+export const listLiveSessions = async (): Promise<LiveSession[]> => {
+  const sessions = await getAllRecords<LiveSession>('liveSessions');
+  return sessions.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const saveLiveSession = async (session: LiveSession): Promise<void> => {
+  await putRecord('liveSessions', session);
+  notify();
+};
+
+// Removes the session together with its recording in the library.
+export const deleteLiveSession = async (session: LiveSession): Promise<void> => {
+  await deleteRecord('liveSessions', session.id);
+  if (session.audioAssetId) await deleteAsset(session.audioAssetId);
+  notify();
+};
@@ -0,0 +1,81 @@
+import { FunctionCall, FunctionDeclaration, FunctionResponse, Type } from '@google/genai';
+import { GeneratorMode } from '../types';
+import { base64ToBlob } from '../utils/media';
+import { saveAsset } from './assetStore';
+import { generateImages, ImageAspectRatio, MODELS } from './gemini';
+
+// App actions the Live Chat model can trigger through function calling.
+
+const IMAGE_ASPECT_RATIOS: ImageAspectRatio[] = ['1:1', '16:9', '9:16', '4:3', '3:4'];
+
+export const LIVE_FUNCTION_DECLARATIONS: FunctionDeclaration[] = [
+  {
+    name: 'generate_image',
+    description: 'Generates an image from a text description and shows it to the user. Use it whenever the user asks to create, draw or show a picture.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        prompt: { type: Type.STRING, description: 'A detailed description of the image to generate.' },
+        aspectRatio: { type: Type.STRING, enum: IMAGE_ASPECT_RATIOS, description: 'Aspect ratio of the image. Defaults to 1:1.' },
+      },
+      required: ['prompt'],
+    },
+  },
+];
+
+export interface LiveToolOutcome {
+  response: FunctionResponse;
+  // Shown in the session transcript.
+  text: string;
+  // A library asset the action produced, e.g. the generated image.
+  assetId?: string;
+}
+
+interface ToolResult {
+  output: Record<string, unknown>;
+  text: string;
+  assetId?: string;
+}
+
+type ToolHandler = (args: Record<string, unknown>) => Promise<ToolResult>;
+
+const handlers: Record<string, ToolHandler> = {
+  generate_image: async args => {
+    const prompt = String(args.prompt ?? '');
+    const aspectRatio = IMAGE_ASPECT_RATIOS.find(ratio => ratio === args.aspectRatio) ?? '1:1';
+    const [image] = await generateImages({ prompt, aspectRatio });
+    const asset = await saveAsset({
+      kind: 'image',
+      mode: GeneratorMode.LIVE_CHAT,
+      blob: base64ToBlob(image.data, image.mimeType),
+      mimeType: image.mimeType,
+      prompt,
+      model: MODELS.image,
+      aspectRatio,
+    });
+    return {
+      output: { result: 'The image was generated and is now shown to the user.' },
+      text: `Generated an image: ${prompt}`,
+      assetId: asset.id,
+    };
+  },
+};
+
+// Runs a function call from the model. Failures are reported back to the
+// model as an error response so it can tell the user.
+export const runLiveTool = async ({ id, name = '', args = {} }: FunctionCall): Promise<LiveToolOutcome> => {
+  const handler = handlers[name];
+  if (!handler) {
+    return { response: { id, name, response: { error: `Unknown function: ${name}` } }, text: `Tried an unknown action: ${name}` };
+  }
+  try {
+    const { output, text, assetId } = await handler(args);
+    return { response: { id, name, response: output }, text, assetId };
+  } catch (e) {
+    console.error(e);
+    return {
+      response: { id, name, response: { error: e instanceof Error ? e.message : 'The action failed.' } },
+      text: `The ${name.replace(/_/g, ' ')} action failed.`,
+    };
+  }
+};
@@ -0,0 +1,139 @@
+import { Asset, Character, Conversation, LiveSession, PromptTemplate, TextResult } from '../types';
+import { extensionForMimeType } from '../utils/media';
+import { createZip, readZip, ZipEntry } from '../utils/zip';
+import { importAssets, listAssets } from './assetStore';
+import { listCharacters, saveCharacter } from './characterStore';
+import { listConversations, saveConversation } from './conversationStore';
+import { listLiveSessions, saveLiveSession } from './liveSessionStore';
+import { listPrompts, savePrompt } from './promptStore';
+import { listResults, putResult } from './resultStore';
+import { getAllSettings, restoreSettings } from './settings';
+
+// A project bundle is a zip with manifest.json at the root and every media
+// asset under media/. Video jobs are not included: finished videos are
+// already assets, and running operations cannot move between machines.
+const PROJECT_FORMAT = 'your-creator-gen-project';
+const PROJECT_VERSION = 1;
+const MANIFEST_NAME = 'manifest.json';
+
+type ProjectAsset = Omit<Asset, 'blob'> & { file: string };
+
+interface ProjectManifest {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  exportedAt: string;
+  settings: Record<string, unknown>;
+  conversations: Conversation[];
+  results: TextResult[];
+  liveSessions: LiveSession[];
+  characters: Character[];
+  prompts: PromptTemplate[];
+  assets: ProjectAsset[];
+}
+
+export interface ProjectSummary {
+  assets: number;
+  conversations: number;
+  results: number;
+  liveSessions: number;
+  characters: number;
+  prompts: number;
+  settings: number;
+}
+
+export const exportProject = async (): Promise<Blob> => {
+  const [assets, conversations, results, liveSessions, characters, prompts] = await Promise.all([
+    listAssets(),
+    listConversations(),
+    listResults(),
+    listLiveSessions(),
+    listCharacters(),
+    listPrompts(),
+  ]);
+  const media: ZipEntry[] = [];
+  const projectAssets = assets.map(({ blob, ...asset }) => {
+    const file = `media/${asset.id}.${extensionForMimeType(asset.mimeType)}`;
+    media.push({ name: file, data: blob });
+    return { ...asset, file };
+  });
+
+  const manifest: ProjectManifest = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    exportedAt: new Date().toISOString(),
+    settings: getAllSettings(),
+    conversations,
+    results,
+    liveSessions,
+    characters,
+    prompts,
+    assets: projectAssets,
+  };
+  return createZip([{ name: MANIFEST_NAME, data: JSON.stringify(manifest, null, 2) }, ...media]);
+};
+
+const parseManifest = (bytes: Uint8Array | undefined): ProjectManifest => {
+  if (!bytes) throw new Error('This archive has no manifest.json, so it is not a project bundle.');
+  let manifest: ProjectManifest;
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new Error('The project manifest is not valid JSON.');
+  }
+  if (manifest.format !== PROJECT_FORMAT) throw new Error('This archive is not a project bundle.');
+  if (manifest.version > PROJECT_VERSION) {
+    throw new Error('This project was exported by a newer version of the app.');
+  }
+  return manifest;
+};
+
+// Merges the bundle into the current workspace. Records keep their ids, so
+// importing the same bundle twice overwrites rather than duplicates.
+export const importProject = async (archive: Blob): Promise<ProjectSummary> => {
+  const files = await readZip(archive);
+  const manifest = parseManifest(files.get(MANIFEST_NAME));
+
+  const assets: Asset[] = [];
+  for (const { file, ...asset } of manifest.assets ?? []) {
+    const data = files.get(file);
+    if (!data) {
+      console.warn(`Skipping asset ${asset.id}: ${file} is missing from the bundle.`);
+      continue;
+    }
+    assets.push({ ...asset, blob: new Blob([data], { type: asset.mimeType }) });
+  }
+  await importAssets(assets);
+
+  const conversations = manifest.conversations ?? [];
+  for (const conversation of conversations) {
+    await saveConversation(conversation);
+  }
+  const results = manifest.results ?? [];
+  for (const result of results) {
+    await putResult(result);
+  }
+  const liveSessions = manifest.liveSessions ?? [];
+  for (const session of liveSessions) {
+    await saveLiveSession(session);
+  }
+  const characters = manifest.characters ?? [];
+  for (const character of characters) {
+    await saveCharacter(character);
+  }
+  const prompts = manifest.prompts ?? [];
+  for (const prompt of prompts) {
+    await savePrompt(prompt);
+  }
+  const settings = manifest.settings ?? {};
+  restoreSettings(settings);
+
+  return {
+    assets: assets.length,
+    conversations: conversations.length,
+    results: results.length,
+    liveSessions: liveSessions.length,
+    characters: characters.length,
+    prompts: prompts.length,
+    settings: Object.keys(settings).length,
+  };
+};
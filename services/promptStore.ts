@@ -0,0 +1,45 @@
+import { PromptTemplate } from '../types';
+import { deleteRecord, getAllRecords, putRecord } from './db';
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const subscribeToPrompts = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+export const listPrompts = async (): Promise<PromptTemplate[]> => {
+  const prompts = await getAllRecords<PromptTemplate>('prompts');
+  return prompts.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const currentPromptText = (prompt: PromptTemplate): string =>
+  prompt.versions[prompt.versions.length - 1]?.text ?? '';
+
+export const savePrompt = async (prompt: PromptTemplate): Promise<void> => {
+  await putRecord('prompts', prompt);
+  notify();
+};
+
+// Saves edits to a template. A new version is only recorded when the text
+// changed, so renaming or retagging does not grow the history.
+export const updatePrompt = async (
+  prompt: PromptTemplate,
+  changes: Pick<PromptTemplate, 'name' | 'modes'> & { text: string },
+): Promise<PromptTemplate> => {
+  const now = Date.now();
+  const versions = changes.text === currentPromptText(prompt)
+    ? prompt.versions
+    : [...prompt.versions, { text: changes.text, savedAt: now }];
+  const updated = { ...prompt, name: changes.name, modes: changes.modes, versions, updatedAt: now };
+  await savePrompt(updated);
+  return updated;
+};
+
+export const deletePrompt = async (id: string): Promise<void> => {
+  await deleteRecord('prompts', id);
+  notify();
+};
@@ -0,0 +1,23 @@
+import { GeneratorMode, NewTextResult, TextResult } from '../types';
+import { getAllRecords, putRecord } from './db';
+
+export const saveResult = async (result: NewTextResult): Promise<TextResult> => {
+  const record: TextResult = { ...result, id: crypto.randomUUID(), createdAt: Date.now() };
+  await putRecord('results', record);
+  return record;
+};
+
+// Best-effort, as with recordAsset.
+export const recordResult = (result: NewTextResult): void => {
+  saveResult(result).catch(e => console.error('Failed to save result.', e));
+};
+
+export const listResults = async (): Promise<TextResult[]> => {
+  const results = await getAllRecords<TextResult>('results');
+  return results.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getLatestResult = async (mode: GeneratorMode): Promise<TextResult | undefined> =>
+  (await listResults()).find(result => result.mode === mode);
+
+export const putResult = (result: TextResult): Promise<void> => putRecord('results', result);
@@ -0,0 +1,36 @@
+// Prompts and per-mode settings live in localStorage under a shared prefix so
+// they survive tab changes and reloads, and can travel in a project bundle.
+const PREFIX = 'your-creator-gen:';
+
+export const loadSetting = <T>(key: string, fallback: T): T => {
+  try {
+    const stored = localStorage.getItem(PREFIX + key);
+    return stored === null ? fallback : JSON.parse(stored) as T;
+  } catch {
+    return fallback;
+  }
+};
+
+export const saveSetting = <T>(key: string, value: T): void => {
+  try {
+    localStorage.setItem(PREFIX + key, JSON.stringify(value));
+  } catch (e) {
+    console.error('Failed to save setting.', e);
+  }
+};
+
+export const getAllSettings = (): Record<string, unknown> => {
+  const settings: Record<string, unknown> = {};
+  for (let i = 0; i < localStorage.length; i++) {
+    const storageKey = localStorage.key(i);
+    if (storageKey?.startsWith(PREFIX)) {
+      const key = storageKey.slice(PREFIX.length);
+      settings[key] = loadSetting<unknown>(key, null);
+    }
+  }
+  return settings;
+};
+
+export const restoreSettings = (settings: Record<string, unknown>): void => {
+  Object.entries(settings).forEach(([key, value]) => saveSetting(key, value));
+};
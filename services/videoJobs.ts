@@ -0,0 +1,230 @@
+import { GenerateVideosOperation } from '@google/genai';
+import { GeneratorMode } from '../types';
+import { saveAsset } from './assetStore';
+import { deleteRecord, getAllRecords, putRecord } from './db';
+import {
+  downloadVideo,
+  GenerateVideoRequest,
+  getVideoOperationByName,
+  MODELS,
+  startVideoGeneration,
+} from './gemini';
+
+// Veo jobs run for minutes, so they are tracked here rather than inside the
+// component that started them. Jobs are persisted with their operation name and
+// resumed on the next page load; polling backs off from the initial interval.
+const INITIAL_POLL_MS = 10000;
+const MAX_POLL_MS = 60000;
+const POLL_BACKOFF = 1.5;
+const MAX_CONSECUTIVE_POLL_ERRORS = 5;
+
+export type VideoJobStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+// Links a job to the storyboard shot it generates.
+export interface VideoJobShot {
+  shotId: string;
+  // The previous shot's clip whose last frame this clip starts from.
+  startFrameAssetId?: string;
+}
+
+export interface VideoJob {
+  id: string;
+  mode: GeneratorMode;
+  request: GenerateVideoRequest;
+  shot?: VideoJobShot;
+  // The saved character the video was generated for.
+  characterId?: string;
+  status: VideoJobStatus;
+  operationName?: string;
+  assetId?: string;
+  // Where the API keeps the result, which is what an extension request refers
+  // to. The API only keeps generated videos for two days.
+  videoUri?: string;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+const jobs = new Map<string, VideoJob>();
+const timers = new Map<string, number>();
+let snapshot: VideoJob[] = [];
+let resumePromise: Promise<void> | null = null;
+
+const notify = () => {
+  snapshot = [...jobs.values()].sort((a, b) => b.createdAt - a.createdAt);
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeToVideoJobs = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+// Newest first. The array identity only changes when a job changes, as
+// required by useSyncExternalStore.
+export const getVideoJobs = (): VideoJob[] => snapshot;
+
+export const isJobActive = (job: VideoJob): boolean => job.status === 'pending' || job.status === 'running';
+
+const VIDEO_RETENTION_MS = 2 * 24 * 60 * 60 * 1000;
+
+// Whether the API still holds the video, so it can be extended.
+export const canExtendJob = (job: VideoJob): boolean =>
+  job.status === 'succeeded' && !!job.videoUri && Date.now() - job.updatedAt < VIDEO_RETENTION_MS;
+
+const updateJob = (id: string, changes: Partial<VideoJob>): VideoJob | undefined => {
+  const job = jobs.get(id);
+  if (!job) return undefined;
+  const updated = { ...job, ...changes, updatedAt: Date.now() };
+  jobs.set(id, updated);
+  notify();
+  putRecord('videoJobs', updated).catch(e => console.error('Failed to persist video job.', e));
+  return updated;
+};
+
+const clearTimer = (id: string) => {
+  const timer = timers.get(id);
+  if (timer !== undefined) {
+    clearTimeout(timer);
+    timers.delete(id);
+  }
+};
+
+const failJob = (id: string, e: unknown) => {
+  console.error(e);
+  clearTimer(id);
+  const message = e instanceof Error ? e.message : 'An unknown error occurred.';
+  updateJob(id, { status: 'failed', error: message });
+};
+
+// Runs once the operation is done. Failures here are final, so they fail the
+// job straight away instead of going back through the polling retries.
+const completeJob = async (id: string, operation: GenerateVideosOperation) => {
+  if (operation.error) {
+    failJob(id, new Error(String(operation.error.message ?? 'Video generation failed.')));
+    return;
+  }
+  try {
+    const blob = await downloadVideo(operation);
+    const job = jobs.get(id);
+    if (!job || job.status !== 'running') return;
+    const asset = await saveAsset({
+      kind: 'video',
+      mode: job.mode,
+      blob,
+      mimeType: blob.type || 'video/mp4',
+      prompt: job.request.prompt,
+      model: job.request.model ?? MODELS.video,
+      aspectRatio: job.request.aspectRatio,
+      metadata: job.characterId ? { characterId: job.characterId } : undefined,
+    });
+    const videoUri = operation.response?.generatedVideos?.[0]?.video?.uri;
+    updateJob(id, { status: 'succeeded', assetId: asset.id, videoUri, error: undefined });
+  } catch (e) {
+    failJob(id, e);
+  }
+};
+
+const nextDelay = (delay: number) => Math.min(Math.max(delay, INITIAL_POLL_MS) * POLL_BACKOFF, MAX_POLL_MS);
+
+const schedulePoll = (id: string, delay: number, consecutiveErrors = 0) => {
+  clearTimer(id);
+  timers.set(id, window.setTimeout(async () => {
+    timers.delete(id);
+    const job = jobs.get(id);
+    if (!job || job.status !== 'running' || !job.operationName) return;
+
+    let operation: GenerateVideosOperation;
+    try {
+      operation = await getVideoOperationByName(job.operationName);
+    } catch (e) {
+      if (consecutiveErrors + 1 >= MAX_CONSECUTIVE_POLL_ERRORS) {
+        failJob(id, e);
+      } else {
+        console.warn('Polling for video status failed, retrying.', e);
+        schedulePoll(id, nextDelay(delay), consecutiveErrors + 1);
+      }
+      return;
+    }
+    if (jobs.get(id)?.status !== 'running') return;
+    if (operation.done) {
+      await completeJob(id, operation);
+    } else {
+      schedulePoll(id, nextDelay(delay));
+    }
+  }, delay));
+};
+
+const startJob = async (id: string) => {
+  const job = jobs.get(id);
+  if (!job) return;
+  try {
+    const operation = await startVideoGeneration(job.request);
+    if (jobs.get(id)?.status !== 'pending') return;
+    updateJob(id, { status: 'running', operationName: operation.name });
+    schedulePoll(id, INITIAL_POLL_MS);
+  } catch (e) {
+    failJob(id, e);
+  }
+};
+
+export const submitVideoJob = async (
+  mode: GeneratorMode,
+  request: GenerateVideoRequest,
+  links: Pick<VideoJob, 'shot' | 'characterId'> = {},
+): Promise<VideoJob> => {
+  await resumeVideoJobs();
+  const now = Date.now();
+  const job: VideoJob = { id: crypto.randomUUID(), mode, request, ...links, status: 'pending', createdAt: now, updatedAt: now };
+  jobs.set(job.id, job);
+  notify();
+  await putRecord('videoJobs', job);
+  startJob(job.id);
+  return job;
+};
+
+// Stops tracking the job. The Gemini API has no cancel call for Veo
+// operations, so the server-side generation still runs to completion.
+export const cancelVideoJob = (id: string): void => {
+  clearTimer(id);
+  updateJob(id, { status: 'cancelled' });
+};
+
+export const retryVideoJob = (id: string): void => {
+  const job = updateJob(id, { status: 'pending', operationName: undefined, error: undefined, assetId: undefined });
+  if (job) startJob(id);
+};
+
+export const removeVideoJob = async (id: string): Promise<void> => {
+  clearTimer(id);
+  jobs.delete(id);
+  notify();
+  await deleteRecord('videoJobs', id);
+};
+
+// Loads persisted jobs and resumes polling those still running. Safe to call
+// more than once.
+export const resumeVideoJobs = (): Promise<void> => {
+  if (!resumePromise) {
+    resumePromise = getAllRecords<VideoJob>('videoJobs')
+      .then(stored => {
+        stored.forEach(job => {
+          if (!jobs.has(job.id)) jobs.set(job.id, job);
+        });
+        notify();
+        stored.forEach(job => {
+          if (job.status === 'running' && job.operationName) {
+            // Check straight away; the job may have finished while the page was closed.
+            schedulePoll(job.id, 0);
+          } else if (job.status === 'pending') {
+            // The page closed before the operation was created.
+            updateJob(job.id, { status: 'failed', error: 'Interrupted before the job started.' });
+          }
+        });
+      })
+      .catch(e => console.error('Failed to load video jobs.', e));
+  }
+  return resumePromise;
+};
@@ -1,3 +1,5 @@
+import { GroundingSource } from './services/gemini/types';
+
 export enum GeneratorMode {
   IMAGE = 'image',
   VIDEO = 'video',
@@ -10,4 +12,112 @@ export enum GeneratorMode {
   PRO_TASK = 'pro_task',
   TTS = 'tts',
   NANO_RESEARCH = 'nano_research',
+  LIBRARY = 'library',
+}
+
+export type AssetKind = 'image' | 'video' | 'audio';
+
+export interface Asset {
+  id: string;
+  kind: AssetKind;
+  mode: GeneratorMode;
+  blob: Blob;
+  mimeType: string;
+  prompt: string;
+  model: string;
+  aspectRatio?: string;
+  createdAt: number;
+  // Mode-specific extras, e.g. the selected TTS voice.
+  metadata?: Record<string, string>;
+}
+
+export type NewAsset = Omit<Asset, 'id' | 'createdAt'>;
+
+// A file sent with a chat turn. The data is kept as base64 so past turns can
+// be replayed to the model as inline parts.
+export interface ChatAttachment {
+  name: string;
+  mimeType: string;
+  data: string;
+}
+
+export interface ChatMessage {
+  role: 'user' | 'model';
+  text: string;
+  attachments?: ChatAttachment[];
+  // Set when the user stopped the reply while it was streaming.
+  stopped?: boolean;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  model: string;
+  systemInstruction: string;
+  messages: ChatMessage[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// A completed text answer from one of the single-prompt modes.
+export interface TextResult {
+  id: string;
+  mode: GeneratorMode;
+  prompt: string;
+  model: string;
+  text: string;
+  sources: GroundingSource[];
+  createdAt: number;
+}
+
+export type NewTextResult = Omit<TextResult, 'id' | 'createdAt'>;
+
+// One side of a Live Chat exchange. `at` is milliseconds from the start of
+// the session, so the transcript lines up with the recording.
+export interface LiveTurn {
+  role: 'user' | 'model';
+  text: string;
+  at: number;
+  // Library asset produced by a tool call in this turn, e.g. a generated image.
+  assetId?: string;
+}
+
+export interface LiveSession {
+  id: string;
+  title: string;
+  turns: LiveTurn[];
+  durationMs: number;
+  voice?: string;
+  systemInstruction?: string;
+  // The mixed recording of both sides, kept as a library asset.
+  audioAssetId?: string;
+  createdAt: number;
+}
+
+// A reusable Character Studio subject. Reference images are library assets so
+// they travel with project exports.
+export interface Character {
+  id: string;
+  name: string;
+  description: string;
+  styleNotes: string;
+  referenceAssetIds: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface PromptVersion {
+  text: string;
+  savedAt: number;
+}
+
+// A prompt library entry. `{{name}}` placeholders in the text become form
+// fields when it is inserted. Versions are oldest first; the last is current.
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  modes: GeneratorMode[];
+  versions: PromptVersion[];
+  createdAt: number;
+  updatedAt: number;
 }
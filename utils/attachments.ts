@@ -0,0 +1,48 @@
+import { ChatAttachment } from '../types';
+import { blobToBase64 } from './media';
+
+// Requests are capped at 20 MB, and inline files count as base64, a third larger
+// than the files themselves. Attachments are replayed with every later turn, so
+// this caps the encoded files of the whole conversation, leaving room for its text.
+export const MAX_INLINE_DATA_LENGTH = 18 * 1024 * 1024;
+
+// The same budget in file bytes, for showing to the user.
+export const MAX_ATTACHMENT_BYTES = MAX_INLINE_DATA_LENGTH / 4 * 3;
+
+export const ATTACHMENT_ACCEPT = 'image/*,application/pdf,audio/*,text/*,.md,.csv,.json';
+
+// Browsers often report an empty type for plain text formats.
+const TEXT_EXTENSIONS = ['txt', 'md', 'csv', 'json', 'log', 'xml', 'yaml', 'yml'];
+
+const resolveMimeType = (file: File): string | null => {
+  const type = file.type;
+  if (type.startsWith('image/') || type.startsWith('audio/') || type === 'application/pdf') return type;
+  if (type.startsWith('text/')) return 'text/plain';
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  if (type === 'application/json' || TEXT_EXTENSIONS.includes(extension)) return 'text/plain';
+  return null;
+};
+
+export const readAttachment = async (file: File): Promise<ChatAttachment> => {
+  const mimeType = resolveMimeType(file);
+  if (!mimeType) {
+    throw new Error(`"${file.name}" is not a supported file type. Attach images, PDFs, audio or text files.`);
+  }
+  return { name: file.name, mimeType, data: await blobToBase64(file) };
+};
+
+export const base64Length = (bytes: number): number => Math.ceil(bytes / 3) * 4;
+
+export const totalAttachmentLength = (attachments: ChatAttachment[]): number =>
+  attachments.reduce((length, attachment) => length + attachment.data.length, 0);
+
+// Approximate decoded size of a base64 attachment.
+export const attachmentSize = (attachment: ChatAttachment): number => Math.floor(attachment.data.length * 3 / 4);
+
+export const totalAttachmentSize = (attachments: ChatAttachment[]): number =>
+  attachments.reduce((size, attachment) => size + attachmentSize(attachment), 0);
+
+export const formatMegabytes = (bytes: number): string => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+export const attachmentDataUrl = (attachment: ChatAttachment): string =>
+  `data:${attachment.mimeType};base64,${attachment.data}`;
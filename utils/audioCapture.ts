@@ -0,0 +1,162 @@
+import { Blob as GenAIBlob } from '@google/genai';
+import { encode } from './audio';
+
+// Microphone capture for the Live API: 16 kHz mono PCM in 100 ms chunks, with
+// an input level and optional voice activity detection.
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+const FRAME_MS = 100;
+const FRAME_SIZE = (CAPTURE_SAMPLE_RATE * FRAME_MS) / 1000;
+
+// RMS level above which a frame counts as speech (about -36 dBFS).
+const VAD_THRESHOLD = 0.015;
+// Keep sending this long after the last speech so words are not cut off.
+const VAD_HANGOVER_MS = 800;
+// Frames held back during silence and sent when speech starts, so the first
+// syllable is not clipped.
+const VAD_PRE_ROLL_FRAMES = 3;
+
+// Runs on the audio thread: averages input samples down to the target rate,
+// converts them to 16-bit PCM and posts one frame at a time with its RMS level.
+const WORKLET_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate, frameSize } = options.processorOptions;
+    this.ratio = sampleRate / targetSampleRate;
+    this.frameSize = frameSize;
+    this.frame = new Int16Array(frameSize);
+    this.length = 0;
+    this.sumSquares = 0;
+    this.phase = 0;
+    this.sum = 0;
+    this.count = 0;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+    for (let i = 0; i < channel.length; i++) {
+      this.sum += channel[i];
+      this.count += 1;
+      this.phase += 1;
+      if (this.phase < this.ratio) continue;
+      this.phase -= this.ratio;
+      const sample = Math.max(-1, Math.min(1, this.sum / this.count));
+      this.sum = 0;
+      this.count = 0;
+      this.frame[this.length++] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+      this.sumSquares += sample * sample;
+      if (this.length === this.frameSize) {
+        const level = Math.sqrt(this.sumSquares / this.frameSize);
+        this.port.postMessage({ pcm: this.frame.buffer, level }, [this.frame.buffer]);
+        this.frame = new Int16Array(this.frameSize);
+        this.length = 0;
+        this.sumSquares = 0;
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('pcm-capture', PcmCaptureProcessor);
+`;
+
+export interface AudioCaptureOptions {
+  // An input from listAudioInputs. Falls back to the default microphone when
+  // the device is no longer available.
+  deviceId?: string;
+  // Only send audio while someone is speaking.
+  skipSilence?: boolean;
+  onAudio: (chunk: GenAIBlob) => void;
+  // RMS level of each frame, from 0 to 1.
+  onLevel?: (level: number) => void;
+  // Called when voice activity detection starts or stops sending audio.
+  onSpeakingChange?: (isSpeaking: boolean) => void;
+}
+
+export interface AudioCapture {
+  stream: MediaStream;
+  stop(): void;
+}
+
+export const listAudioInputs = async (): Promise<MediaDeviceInfo[]> => {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'audioinput');
+};
+
+const toPcmBlob = (pcm: Uint8Array): GenAIBlob => ({
+  data: encode(pcm),
+  mimeType: `audio/pcm;rate=${CAPTURE_SAMPLE_RATE}`,
+});
+
+export const startAudioCapture = async ({
+  deviceId,
+  skipSilence = false,
+  onAudio,
+  onLevel,
+  onSpeakingChange,
+}: AudioCaptureOptions): Promise<AudioCapture> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: deviceId ? { deviceId } : true });
+  // Runs at the device rate; the worklet resamples.
+  const context = new AudioContext();
+
+  try {
+    const moduleUrl = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'text/javascript' }));
+    try {
+      await context.audioWorklet.addModule(moduleUrl);
+    } finally {
+      URL.revokeObjectURL(moduleUrl);
+    }
+  } catch (e) {
+    stream.getTracks().forEach(track => track.stop());
+    context.close();
+    throw e;
+  }
+
+  const source = context.createMediaStreamSource(stream);
+  const worklet = new AudioWorkletNode(context, 'pcm-capture', {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: { targetSampleRate: CAPTURE_SAMPLE_RATE, frameSize: FRAME_SIZE },
+  });
+
+  let silentMs = Infinity;
+  let isSpeaking = false;
+  const preRoll: Uint8Array[] = [];
+
+  worklet.port.onmessage = ({ data }: MessageEvent<{ pcm: ArrayBuffer; level: number }>) => {
+    const pcm = new Uint8Array(data.pcm);
+    onLevel?.(data.level);
+    if (!skipSilence) {
+      onAudio(toPcmBlob(pcm));
+      return;
+    }
+
+    silentMs = data.level >= VAD_THRESHOLD ? 0 : silentMs + FRAME_MS;
+    const wasSpeaking = isSpeaking;
+    isSpeaking = silentMs <= VAD_HANGOVER_MS;
+    if (isSpeaking !== wasSpeaking) onSpeakingChange?.(isSpeaking);
+
+    if (isSpeaking) {
+      preRoll.splice(0).forEach(frame => onAudio(toPcmBlob(frame)));
+      onAudio(toPcmBlob(pcm));
+    } else {
+      preRoll.push(pcm);
+      if (preRoll.length > VAD_PRE_ROLL_FRAMES) preRoll.shift();
+    }
+  };
+  source.connect(worklet);
+
+  return {
+    stream,
+    stop: () => {
+      worklet.port.onmessage = null;
+      worklet.disconnect();
+      source.disconnect();
+      stream.getTracks().forEach(track => track.stop());
+      context.close();
+    },
+  };
+};
@@ -0,0 +1,109 @@
+import { InlineData } from '../services/gemini';
+
+// Canvas helpers for mask-based editing. Masks are kept as canvases the size
+// of the image, with opaque pixels marking the region to change.
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load image.'));
+    image.src = src;
+  });
+
+export const createCanvas = (width: number, height: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const context = (canvas: HTMLCanvasElement): CanvasRenderingContext2D => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D is not supported in this browser.');
+  return ctx;
+};
+
+export const canvasToInlineData = (canvas: HTMLCanvasElement, mimeType = 'image/png'): InlineData => {
+  const url = canvas.toDataURL(mimeType);
+  return { data: url.split(',')[1], mimeType };
+};
+
+export const isMaskEmpty = (mask: HTMLCanvasElement): boolean => {
+  const { data } = context(mask).getImageData(0, 0, mask.width, mask.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return false;
+  }
+  return true;
+};
+
+// The model is given the mask as a black and white image: white is editable.
+export const renderMaskForModel = (mask: HTMLCanvasElement): HTMLCanvasElement => {
+  const canvas = createCanvas(mask.width, mask.height);
+  const ctx = context(canvas);
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  const white = createCanvas(mask.width, mask.height);
+  const whiteCtx = context(white);
+  whiteCtx.drawImage(mask, 0, 0);
+  whiteCtx.globalCompositeOperation = 'source-in';
+  whiteCtx.fillStyle = '#fff';
+  whiteCtx.fillRect(0, 0, white.width, white.height);
+  ctx.drawImage(white, 0, 0);
+  return canvas;
+};
+
+export const OUTPAINT_ASPECT_RATIOS = ['1:1', '16:9', '9:16', '4:3', '3:4'] as const;
+export type OutpaintAspectRatio = typeof OUTPAINT_ASPECT_RATIOS[number];
+
+// Centres the image on a larger canvas with the target aspect ratio. The new
+// border is the mask; the image itself never shrinks.
+export const expandCanvas = (
+  image: HTMLImageElement,
+  aspectRatio: OutpaintAspectRatio,
+): { image: HTMLCanvasElement; mask: HTMLCanvasElement } => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  const { naturalWidth: width, naturalHeight: height } = image;
+  const targetWidth = Math.round(Math.max(width, height * w / h));
+  const targetHeight = Math.round(Math.max(height, width * h / w));
+  const x = Math.round((targetWidth - width) / 2);
+  const y = Math.round((targetHeight - height) / 2);
+
+  const expanded = createCanvas(targetWidth, targetHeight);
+  const ctx = context(expanded);
+  ctx.fillStyle = '#808080';
+  ctx.fillRect(0, 0, targetWidth, targetHeight);
+  ctx.drawImage(image, x, y);
+
+  const mask = createCanvas(targetWidth, targetHeight);
+  const maskCtx = context(mask);
+  maskCtx.fillStyle = '#fff';
+  maskCtx.fillRect(0, 0, targetWidth, targetHeight);
+  maskCtx.clearRect(x, y, width, height);
+  return { image: expanded, mask };
+};
+
+// Keeps `base` everywhere outside the mask and takes `edited` (scaled to the
+// base size) inside it. The mask edge is feathered to hide the seam. The kept
+// region is layered on top so that feathering at the canvas border blends
+// into the edit rather than into empty pixels.
+export const compositeWithMask = (
+  base: CanvasImageSource,
+  edited: HTMLImageElement,
+  mask: HTMLCanvasElement,
+  feather = 4,
+): HTMLCanvasElement => {
+  const { width, height } = mask;
+  const keep = createCanvas(width, height);
+  const keepCtx = context(keep);
+  keepCtx.drawImage(base, 0, 0, width, height);
+  keepCtx.globalCompositeOperation = 'destination-out';
+  keepCtx.filter = `blur(${feather}px)`;
+  keepCtx.drawImage(mask, 0, 0);
+
+  const result = createCanvas(width, height);
+  const ctx = context(result);
+  ctx.drawImage(edited, 0, 0, width, height);
+  ctx.drawImage(keep, 0, 0);
+  return result;
+};
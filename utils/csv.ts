@@ -0,0 +1,17 @@
+export type CsvRow = Record<string, string | number | boolean | null | undefined>;
+
+const escapeCell = (value: CsvRow[string]): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Columns are the union of every row's keys, in first-seen order.
+export const toCsv = (rows: CsvRow[]): string => {
+  const columns: string[] = [];
+  rows.forEach(row => Object.keys(row).forEach(key => {
+    if (!columns.includes(key)) columns.push(key);
+  }));
+  const lines = [columns.map(escapeCell).join(',')];
+  rows.forEach(row => lines.push(columns.map(column => escapeCell(row[column])).join(',')));
+  return lines.join('\r\n');
+};
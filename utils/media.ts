@@ -0,0 +1,69 @@
+export const blobToBase64 = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(blob);
+    reader.onload = () => {
+      const result = reader.result as string;
+      resolve(result.split(',')[1]);
+    };
+    reader.onerror = (error) => reject(error);
+  });
+};
+
+export const base64ToBlob = (base64: string, mimeType: string): Blob => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'audio/wav': 'wav',
+  'audio/webm': 'webm',
+  'audio/mpeg': 'mp3',
+};
+
+export const extensionForMimeType = (mimeType: string): string =>
+  EXTENSIONS[mimeType] ?? mimeType.split('/')[1]?.split(';')[0] ?? 'bin';
+
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the browser a moment to start the download before releasing the URL.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export interface MediaStreamRecording {
+  // Stops recording and resolves with the complete file.
+  stop: () => Promise<Blob>;
+  // Leaves a gap out of the file, e.g. while the next source loads.
+  pause: () => void;
+  resume: () => void;
+}
+
+export const recordMediaStream = (stream: MediaStream, mimeType?: string): MediaStreamRecording => {
+  const recorder = new MediaRecorder(stream, mimeType && MediaRecorder.isTypeSupported(mimeType) ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  recorder.start(1000);
+  return {
+    stop: () => new Promise(resolve => {
+      recorder.onstop = () => resolve(new Blob(chunks, { type: recorder.mimeType }));
+      recorder.stop();
+    }),
+    pause: () => { if (recorder.state === 'recording') recorder.pause(); },
+    resume: () => { if (recorder.state === 'paused') recorder.resume(); },
+  };
+};
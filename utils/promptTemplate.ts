@@ -0,0 +1,12 @@
+// `{{ name }}` placeholders in prompt library templates. Names may contain
+// letters, digits, spaces, underscores and hyphens.
+const VARIABLE_PATTERN = /\{\{\s*([\w -]+?)\s*\}\}/g;
+
+// Variable names in order of first appearance.
+export const templateVariables = (text: string): string[] =>
+  [...new Set([...text.matchAll(VARIABLE_PATTERN)].map(match => match[1]))];
+
+// Replaces each placeholder with its value. Placeholders without a value are
+// left as they are.
+export const fillTemplate = (text: string, values: Record<string, string>): string =>
+  text.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name] || placeholder);
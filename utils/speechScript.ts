@@ -0,0 +1,106 @@
+// Splits text-to-speech scripts into requests the TTS model can handle. Long
+// outputs drift and get cut off, so scripts are sent in chunks and the audio is
+// stitched back together.
+
+export const MAX_CHUNK_CHARS = 1500;
+
+// The API voices at most two speakers per request.
+const MAX_SPEAKERS_PER_CHUNK = 2;
+
+const SPEAKER_LINE = /^\s*([^:\n]{1,40}?):\s+(\S.*)$/;
+
+export interface SpeechChunk {
+  text: string;
+  // Speakers voiced in this chunk, in order of appearance. Empty for narration.
+  speakers: string[];
+}
+
+interface ScriptLine {
+  speaker: string;
+  text: string;
+}
+
+const nonEmptyLines = (script: string) => script.split('\n').filter(line => line.trim());
+
+// A script is a dialogue when every line is "Speaker: line" and at least two
+// people speak. Anything else is read as narration by a single voice.
+const parseDialogue = (script: string): ScriptLine[] | null => {
+  const lines: ScriptLine[] = [];
+  for (const line of nonEmptyLines(script)) {
+    const match = line.match(SPEAKER_LINE);
+    if (!match) return null;
+    lines.push({ speaker: match[1].trim(), text: match[2].trim() });
+  }
+  return new Set(lines.map(line => line.speaker)).size >= 2 ? lines : null;
+};
+
+export const detectSpeakers = (script: string): string[] =>
+  [...new Set((parseDialogue(script) ?? []).map(line => line.speaker))];
+
+// Breaks a passage at sentence ends, falling back to word boundaries for
+// sentences that are still too long.
+const splitPassage = (text: string, maxChars: number): string[] => {
+  const pieces: string[] = [];
+  text.split(/(?<=[.!?])\s+/).forEach(sentence => {
+    let rest = sentence;
+    while (rest.length > maxChars) {
+      const cut = rest.lastIndexOf(' ', maxChars);
+      const end = cut > 0 ? cut : maxChars;
+      pieces.push(rest.slice(0, end));
+      rest = rest.slice(end).trim();
+    }
+    if (rest) pieces.push(rest);
+  });
+  return pieces;
+};
+
+// Packs pieces greedily into chunks of up to `maxChars`.
+const pack = (pieces: string[], separator: string, maxChars: number): string[] => {
+  const chunks: string[] = [];
+  let current = '';
+  pieces.forEach(piece => {
+    if (current && current.length + separator.length + piece.length > maxChars) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}${separator}${piece}` : piece;
+  });
+  if (current) chunks.push(current);
+  return chunks;
+};
+
+const chunkNarration = (script: string, maxChars: number): SpeechChunk[] => {
+  const paragraphs = script.split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean);
+  const pieces = paragraphs.flatMap(paragraph => pack(splitPassage(paragraph, maxChars), ' ', maxChars));
+  return pack(pieces, '\n\n', maxChars).map(text => ({ text, speakers: [] }));
+};
+
+// Dialogue chunks never split a line and hold at most two speakers. A chunk
+// with one speaker drops the "Speaker:" labels, since it is read by one voice.
+const chunkDialogue = (lines: ScriptLine[], maxChars: number): SpeechChunk[] => {
+  const chunks: SpeechChunk[] = [];
+  let current: ScriptLine[] = [];
+  const flush = () => {
+    if (current.length === 0) return;
+    const speakers = [...new Set(current.map(line => line.speaker))];
+    const text = speakers.length === 1
+      ? current.map(line => line.text).join('\n')
+      : current.map(line => `${line.speaker}: ${line.text}`).join('\n');
+    chunks.push({ text, speakers });
+    current = [];
+  };
+
+  lines.forEach(line => {
+    const speakers = new Set([...current.map(item => item.speaker), line.speaker]);
+    const length = current.reduce((total, item) => total + item.speaker.length + item.text.length + 3, 0);
+    if (speakers.size > MAX_SPEAKERS_PER_CHUNK || length + line.speaker.length + line.text.length > maxChars) flush();
+    current.push(line);
+  });
+  flush();
+  return chunks;
+};
+
+export const chunkScript = (script: string, maxChars = MAX_CHUNK_CHARS): SpeechChunk[] => {
+  const dialogue = parseDialogue(script);
+  return dialogue ? chunkDialogue(dialogue, maxChars) : chunkNarration(script, maxChars);
+};
@@ -0,0 +1,35 @@
+import { TranscriptSegment } from '../services/gemini';
+
+// HH:MM:SS plus milliseconds; SRT separates the milliseconds with a comma, VTT with a dot.
+export const formatTimestamp = (seconds: number, separator: ',' | '.' = '.'): string => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor(totalMs / 60000) % 60;
+  const secs = Math.floor(totalMs / 1000) % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(totalMs % 1000, 3)}`;
+};
+
+// HH:MM:SS, for showing positions in a transcript.
+export const formatClockTime = (seconds: number): string => formatTimestamp(seconds).split('.')[0];
+
+export const toSrt = (segments: TranscriptSegment[]): string =>
+  segments
+    .map((segment, index) => [
+      index + 1,
+      `${formatTimestamp(segment.start, ',')} --> ${formatTimestamp(segment.end, ',')}`,
+      `${segment.speaker}: ${segment.text}`,
+    ].join('\n'))
+    .join('\n\n') + '\n';
+
+// Speakers become WebVTT voice spans, which players can style or show.
+export const toVtt = (segments: TranscriptSegment[]): string =>
+  ['WEBVTT', ...segments.map(segment => [
+    `${formatTimestamp(segment.start)} --> ${formatTimestamp(segment.end)}`,
+    `<v ${segment.speaker}>${segment.text}`,
+  ].join('\n'))].join('\n\n') + '\n';
+
+export const toPlainTranscript = (segments: TranscriptSegment[]): string =>
+  segments
+    .map(segment => `[${formatClockTime(segment.start)}] ${segment.speaker}: ${segment.text}`)
+    .join('\n') + '\n';
@@ -0,0 +1,73 @@
+import { InlineData } from '../services/gemini';
+import { canvasToInlineData, createCanvas } from './canvas';
+
+// Resolves on the next `event` from a media element, or rejects if it fails to load.
+export const waitForMediaEvent = (target: HTMLMediaElement, event: string): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const cleanup = () => {
+      target.removeEventListener(event, onEvent);
+      target.removeEventListener('error', onError);
+    };
+    const onEvent = () => { cleanup(); resolve(); };
+    const onError = () => { cleanup(); reject(new Error('Failed to load video.')); };
+    target.addEventListener(event, onEvent);
+    target.addEventListener('error', onError);
+  });
+
+// Grabs a still from a video, by default its last frame, e.g. to start the
+// next clip of a sequence where this one ends.
+export const captureVideoFrame = async (blob: Blob, time?: number): Promise<InlineData> => {
+  const url = URL.createObjectURL(blob);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  try {
+    const loaded = waitForMediaEvent(video, 'loadeddata');
+    video.src = url;
+    await loaded;
+    // Seeking exactly to the end can yield a blank frame in some browsers.
+    const target = time ?? Math.max(0, video.duration - 0.05);
+    if (Math.abs(video.currentTime - target) > 0.001) {
+      const seeked = waitForMediaEvent(video, 'seeked');
+      video.currentTime = target;
+      await seeked;
+    }
+    const canvas = createCanvas(video.videoWidth, video.videoHeight);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D is not supported in this browser.');
+    ctx.drawImage(video, 0, 0);
+    return canvasToInlineData(canvas, 'image/png');
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+};
+
+// MediaRecorder WebM files (including timeline exports) have no duration in
+// their header, so browsers report Infinity until the end has been found.
+// Seeking far past the end makes the browser scan for it.
+export const getVideoDuration = async (blob: Blob): Promise<number> => {
+  const url = URL.createObjectURL(blob);
+  const video = document.createElement('video');
+  video.preload = 'metadata';
+  try {
+    const loaded = waitForMediaEvent(video, 'loadedmetadata');
+    video.src = url;
+    await loaded;
+    if (!Number.isFinite(video.duration)) {
+      // Some browsers settle the duration only once the seek completes.
+      const found = Promise.race([waitForMediaEvent(video, 'durationchange'), waitForMediaEvent(video, 'seeked')]);
+      video.currentTime = Number.MAX_SAFE_INTEGER;
+      await found;
+    }
+    if (!Number.isFinite(video.duration) || video.duration <= 0) {
+      throw new Error('The length of this video could not be determined.');
+    }
+    return video.duration;
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+};
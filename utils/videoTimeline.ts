@@ -0,0 +1,172 @@
+import { MediaStreamRecording, recordMediaStream } from './media';
+import { waitForMediaEvent } from './video';
+
+// Plays trimmed clips back to back onto a canvas, mixed with an optional
+// narration track, and records the result with MediaRecorder. Rendering runs
+// in real time, so an export takes as long as the timeline.
+
+const FRAME_RATE = 30;
+
+export interface TimelineSource {
+  blob: Blob;
+  // Trim points in seconds.
+  start: number;
+  end: number;
+}
+
+export interface RenderTimelineOptions {
+  clips: TimelineSource[];
+  narration?: Blob;
+  // Gain for the clips' own soundtrack and for the narration, from 0 to 1.
+  clipVolume: number;
+  narrationVolume: number;
+  canvas: HTMLCanvasElement;
+  // Records the output when set; otherwise it only plays, as a preview.
+  mimeType?: string;
+  // Seconds of the timeline rendered so far.
+  onProgress?: (seconds: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface ExportFormat {
+  label: string;
+  extension: string;
+  mimeTypes: string[];
+}
+
+export const EXPORT_FORMATS: ExportFormat[] = [
+  { label: 'WebM', extension: 'webm', mimeTypes: ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'] },
+  { label: 'MP4', extension: 'mp4', mimeTypes: ['video/mp4;codecs=avc1,mp4a', 'video/mp4'] },
+];
+
+// The first MIME type of the format this browser can record, if any.
+export const supportedMimeType = (format: ExportFormat): string | undefined =>
+  typeof MediaRecorder === 'undefined' ? undefined : format.mimeTypes.find(type => MediaRecorder.isTypeSupported(type));
+
+// Clips with an unknown length count as empty.
+export const timelineDuration = (clips: Pick<TimelineSource, 'start' | 'end'>[]): number =>
+  clips.reduce((total, clip) => {
+    const length = clip.end - clip.start;
+    return Number.isFinite(length) ? total + Math.max(0, length) : total;
+  }, 0);
+
+// Letterboxes the frame into the canvas.
+const drawFrame = (ctx: CanvasRenderingContext2D, video: HTMLVideoElement) => {
+  const { width, height } = ctx.canvas;
+  const scale = Math.min(width / video.videoWidth, height / video.videoHeight);
+  const drawWidth = video.videoWidth * scale;
+  const drawHeight = video.videoHeight * scale;
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(video, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+};
+
+// Plays the video from its current position until `end`, drawing each frame.
+const playUntil = (video: HTMLVideoElement, end: number, draw: () => void, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const step = () => {
+      draw();
+      if (signal?.aborted || video.ended || video.currentTime >= end) {
+        video.pause();
+        resolve();
+        return;
+      }
+      requestAnimationFrame(step);
+    };
+    video.play().then(step, reject);
+  });
+
+export const renderTimeline = async ({
+  clips,
+  narration,
+  clipVolume,
+  narrationVolume,
+  canvas,
+  mimeType,
+  onProgress,
+  signal,
+}: RenderTimelineOptions): Promise<Blob | undefined> => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D is not supported in this browser.');
+
+  const audio = new AudioContext();
+  // An export is mixed silently into the recording; a preview plays aloud.
+  const mix = mimeType ? audio.createMediaStreamDestination() : undefined;
+  const output = mix ?? audio.destination;
+
+  const video = document.createElement('video');
+  video.playsInline = true;
+  video.preload = 'auto';
+  const clipGain = audio.createGain();
+  clipGain.gain.value = clipVolume;
+  audio.createMediaElementSource(video).connect(clipGain).connect(output);
+
+  let narrationSource: AudioBufferSourceNode | undefined;
+  let recording: MediaStreamRecording | undefined;
+  let isRecording = false;
+  let isNarrating = false;
+  let elapsed = 0;
+  let url: string | null = null;
+
+  try {
+    if (narration) {
+      const narrationGain = audio.createGain();
+      narrationGain.gain.value = narrationVolume;
+      narrationGain.connect(output);
+      narrationSource = audio.createBufferSource();
+      narrationSource.buffer = await audio.decodeAudioData(await narration.arrayBuffer());
+      narrationSource.connect(narrationGain);
+    }
+    if (mix) {
+      const tracks = [...canvas.captureStream(FRAME_RATE).getVideoTracks(), ...mix.stream.getAudioTracks()];
+      recording = recordMediaStream(new MediaStream(tracks), mimeType);
+      isRecording = true;
+    }
+
+    for (const [index, clip] of clips.entries()) {
+      if (signal?.aborted) break;
+      // Hold the clock while the clip loads so narration stays in sync and
+      // the gap is left out of the recording.
+      recording?.pause();
+      await audio.suspend();
+
+      if (url) URL.revokeObjectURL(url);
+      url = URL.createObjectURL(clip.blob);
+      const loaded = waitForMediaEvent(video, 'loadeddata');
+      video.src = url;
+      await loaded;
+      if (index === 0) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+      }
+      if (clip.start > 0) {
+        const seeked = waitForMediaEvent(video, 'seeked');
+        video.currentTime = clip.start;
+        await seeked;
+      }
+      drawFrame(ctx, video);
+
+      await audio.resume();
+      if (narrationSource && !isNarrating) {
+        narrationSource.start();
+        isNarrating = true;
+      }
+      recording?.resume();
+      const offset = elapsed;
+      await playUntil(video, clip.end, () => {
+        drawFrame(ctx, video);
+        onProgress?.(offset + Math.min(video.currentTime, clip.end) - clip.start);
+      }, signal);
+      elapsed += Math.max(0, Math.min(video.currentTime, clip.end) - clip.start);
+    }
+    isRecording = false;
+    return await recording?.stop();
+  } finally {
+    if (isRecording) recording?.stop();
+    if (isNarrating) narrationSource?.stop();
+    video.removeAttribute('src');
+    video.load();
+    if (url) URL.revokeObjectURL(url);
+    audio.close();
+  }
+};
@@ -1,18 +1,24 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { geminiMock, MOCK_BASE_PATH } from './mock/plugin';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // GEMINI_MOCK=true serves an offline stand-in for the Gemini API from the
+    // dev server and points the app at it instead of the real endpoint.
+    const useMock = env.GEMINI_MOCK === 'true';
+    const apiKey = useMock ? 'mock-api-key' : env.GEMINI_API_KEY;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), useMock && geminiMock()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(apiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(apiKey),
+        'process.env.GEMINI_BASE_URL': JSON.stringify(useMock ? MOCK_BASE_PATH : env.GEMINI_BASE_URL ?? ''),
       },
       resolve: {
         alias: {